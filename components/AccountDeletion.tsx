@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Alert, AlertDescription } from './ui/alert';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog';
+import { nprService } from '../utils/nprService';
+import type { NPRDeletion } from '../utils/nprTypes';
+import { User } from '../utils/types';
+import { Trash2, AlertCircle, RefreshCw, Undo2 } from 'lucide-react';
+
+// Must match DELETION_CONFIRMATION and DELETION_GRACE_DAYS in the server's npr_deletion module
+const CONFIRMATION_TEXT = 'DELETE';
+const GRACE_DAYS = 14;
+
+interface AccountDeletionProps {
+  user: User;
+  // Opens the confirmation, e.g. from a delete button elsewhere; onConfirmClose is called when it closes
+  confirmRequested?: boolean;
+  onConfirmClose?: () => void;
+}
+
+export function AccountDeletion({ user, confirmRequested = false, onConfirmClose }: AccountDeletionProps) {
+  const [deletion, setDeletion] = useState<NPRDeletion | null>(null);
+  const [isConfirming, setIsConfirming] = useState(confirmRequested);
+  const [confirmation, setConfirmation] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    nprService.setUserId(user.id);
+    nprService.getDeletion().then(result => {
+      if (result.success) {
+        setDeletion(result.deletion || null);
+      }
+    });
+  }, [user.id]);
+
+  useEffect(() => {
+    if (confirmRequested) {
+      setIsConfirming(true);
+    }
+  }, [confirmRequested]);
+
+  const handleConfirmOpenChange = (open: boolean) => {
+    setIsConfirming(open);
+    if (!open) {
+      setConfirmation('');
+      onConfirmClose?.();
+    }
+  };
+
+  const handleRequestDeletion = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await nprService.requestDeletion(confirmation);
+    if (result.success) {
+      setDeletion(result.deletion || null);
+      handleConfirmOpenChange(false);
+    } else {
+      setError(result.error || 'Failed to schedule deletion');
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleCancelDeletion = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await nprService.cancelDeletion();
+    if (result.success) {
+      setDeletion(null);
+    } else {
+      setError(result.error || 'Failed to cancel deletion');
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <Card className="akilii-glass-elevated border-red-400/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-white text-fit-lg">
+          <Trash2 className="h-5 w-5" />
+          Delete Account
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-red-400/20 bg-red-500/10">
+            <AlertCircle className="h-4 w-4 text-red-400" />
+            <AlertDescription className="text-red-300">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {deletion ? (
+          <>
+            <p className="text-white/70 text-fit-sm">
+              Your account and all its data will be deleted on{' '}
+              <span className="text-white font-medium">{new Date(deletion.scheduled_for).toLocaleDateString()}</span>.
+              Until then you can change your mind.
+            </p>
+            <Button
+              onClick={handleCancelDeletion}
+              disabled={isLoading}
+              className="w-full akilii-gradient-primary text-white"
+            >
+              {isLoading ? (
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Undo2 className="h-4 w-4 mr-2" />
+              )}
+              Keep My Account
+            </Button>
+          </>
+        ) : (
+          <>
+            <p className="text-white/70 text-fit-sm">
+              Permanently delete your account, your NPR profile and everything associated with it.
+            </p>
+            <Button
+              onClick={() => setIsConfirming(true)}
+              disabled={isLoading}
+              className="w-full bg-red-500 hover:bg-red-600 text-white"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Account
+            </Button>
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={isConfirming} onOpenChange={handleConfirmOpenChange}>
+        <AlertDialogContent className="akilii-glass-elevated border-red-400/20">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">Delete your account?</AlertDialogTitle>
+            <AlertDialogDescription className="text-white/70 space-y-2">
+              <span className="block">
+                This deletes your profile, entries, assessments, tasks, conversations, uploaded files
+                and your login. Export your data first if you want to keep a copy.
+              </span>
+              <span className="block">
+                Deletion happens after a {GRACE_DAYS}-day grace period, during which you can cancel it here.
+                After that it cannot be undone.
+              </span>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="space-y-2">
+            <label htmlFor="deletion-confirmation" className="text-white/80 text-sm">
+              Type <span className="font-mono text-white">{CONFIRMATION_TEXT}</span> to confirm
+            </label>
+            <Input
+              id="deletion-confirmation"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              autoComplete="off"
+            />
+          </div>
+
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button
+              onClick={handleRequestDeletion}
+              disabled={confirmation !== CONFIRMATION_TEXT || isLoading}
+              className="bg-red-500 hover:bg-red-600 text-white"
+            >
+              {isLoading && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+              Delete Account
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Switch } from './ui/switch';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { nprService } from '../utils/nprService';
+import { ConsentType } from '../utils/apiTypes';
+import type { NPRConsentRecord, NPRConsentHistoryEntry } from '../utils/nprTypes';
+import { User } from '../utils/types';
+import { ShieldCheck, History, AlertCircle, RefreshCw } from 'lucide-react';
+
+const CONSENT_OPTIONS: Array<{ type: ConsentType; title: string; description: string }> = [
+  {
+    type: ConsentType.DATA_COLLECTION,
+    title: 'Data Collection',
+    description: 'Store your entries, assessments and interactions. Without it nothing new is saved.'
+  },
+  {
+    type: ConsentType.ADAPTIVE_AI,
+    title: 'Adaptive AI',
+    description: 'Let your AI use your profile to tailor its responses.'
+  },
+  {
+    type: ConsentType.COGNITIVE_INSIGHTS,
+    title: 'Cognitive Insights',
+    description: 'Compare your assessments over time and tell you about reliable changes.'
+  },
+  {
+    type: ConsentType.RESEARCH_PARTICIPATION,
+    title: 'Research Participation',
+    description: 'Allow anonymized data to be used in research on cognitive diversity.'
+  }
+];
+
+const CONSENT_TITLES = Object.fromEntries(CONSENT_OPTIONS.map(option => [option.type, option.title])) as Record<ConsentType, string>;
+
+interface ConsentSettingsProps {
+  user: User;
+}
+
+export function ConsentSettings({ user }: ConsentSettingsProps) {
+  const [consent, setConsent] = useState<NPRConsentRecord | null>(null);
+  const [history, setHistory] = useState<NPRConsentHistoryEntry[]>([]);
+  const [updating, setUpdating] = useState<ConsentType | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    nprService.setUserId(user.id);
+    loadConsent();
+  }, [user.id]);
+
+  const loadConsent = async () => {
+    const result = await nprService.getConsent();
+    if (result.success) {
+      setConsent(result.consent || null);
+      setHistory(result.history || []);
+    } else {
+      setError(result.error || 'Failed to load your consent settings');
+    }
+  };
+
+  const handleToggle = async (type: ConsentType, granted: boolean) => {
+    setUpdating(type);
+    setError(null);
+
+    const result = await nprService.updateConsent({ [type]: granted }, 'settings');
+    if (!result.success) {
+      setError(result.error || 'Failed to update your consent');
+    } else if (result.offline) {
+      // Queued in the outbox; show the choice now and reload once it has been sent
+      setConsent(current => current && { ...current, grants: { ...current.grants, [type]: granted } });
+    } else {
+      await loadConsent();
+    }
+
+    setUpdating(null);
+  };
+
+  return (
+    <Card className="akilii-glass-elevated border-white/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-white text-fit-lg">
+          <ShieldCheck className="h-5 w-5" />
+          Consent
+          {consent && consent.version > 0 && (
+            <Badge className="text-xs bg-white/10 text-white/70">Version {consent.version}</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-red-400/20 bg-red-500/10">
+            <AlertCircle className="h-4 w-4 text-red-400" />
+            <AlertDescription className="text-red-300">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {CONSENT_OPTIONS.map(option => (
+          <div key={option.type} className="flex items-start justify-between gap-4">
+            <div>
+              <p className="text-white font-medium text-fit-sm">{option.title}</p>
+              <p className="text-white/60 text-xs">{option.description}</p>
+            </div>
+            {updating === option.type ? (
+              <RefreshCw className="h-4 w-4 text-white/60 animate-spin flex-shrink-0" />
+            ) : (
+              <Switch
+                checked={consent?.grants[option.type] ?? false}
+                onCheckedChange={(checked) => handleToggle(option.type, checked)}
+                disabled={!consent || updating !== null}
+              />
+            )}
+          </div>
+        ))}
+
+        {history.length > 0 && (
+          <div className="space-y-3 pt-4 border-t border-white/10">
+            <h4 className="flex items-center gap-2 font-medium text-white text-fit-sm">
+              <History className="h-4 w-4" />
+              Change History
+            </h4>
+            <ul className="space-y-2">
+              {[...history].reverse().map(entry => (
+                <li key={entry.version} className="text-white/70 text-xs">
+                  <span className="text-white/50">
+                    v{entry.version} · {entry.updated_at ? new Date(entry.updated_at).toLocaleString() : 'Unknown date'}
+                    {entry.source ? ` · ${entry.source.replace(/_/g, ' ')}` : ''}
+                  </span>
+                  <div>
+                    {entry.changes
+                      .map(change => `${change.to ? 'Granted' : 'Withdrew'} ${CONSENT_TITLES[change.type] || change.type}`)
+                      .join(', ')}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,7 @@ import { Badge } from "./ui/badge";
 import { X, Paperclip, Image, FileText, Download, Loader2, WifiOff } from "lucide-react";
 import { toast } from "sonner@2.0.3";
 import { projectId, publicAnonKey } from "../utils/supabase/info";
+import { getCurrentSession } from "../utils/supabase/client";
 
 interface UploadedFile {
   id: string;
@@ -29,7 +30,7 @@ export function FileUpload({
   onFilesUploaded, 
   maxFiles = 5, 
   maxSizeBytes = 10 * 1024 * 1024, // 10MB
-  acceptedTypes = ['image/*', 'text/*', 'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  acceptedTypes = ['image/*', 'text/*', 'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', '.md', '.markdown', '.csv'],
   disabled = false 
 }: FileUploadProps) {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
@@ -59,6 +60,10 @@ export function FileUpload({
     }
     
     const isAccepted = acceptedTypes.some(type => {
+      // Extensions cover files the browser gives no type, such as Markdown on most systems
+      if (type.startsWith('.')) {
+        return file.name.toLowerCase().endsWith(type);
+      }
       if (type.endsWith('/*')) {
         return file.type.startsWith(type.slice(0, -1));
       }
@@ -101,14 +106,19 @@ export function FileUpload({
       };
     }
 
-    // Server is available, proceed with real upload
+    // Server is available, proceed with real upload as the signed-in user
+    const { session } = await getCurrentSession();
+    if (!session?.access_token) {
+      throw new Error('Authentication required. Please sign in again.');
+    }
+
     const formData = new FormData();
     formData.append('file', file);
     
     const response = await fetch(`${SERVER_URL}/files/upload`, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${publicAnonKey}`,
+        'Authorization': `Bearer ${session.access_token}`,
       },
       body: formData,
     });
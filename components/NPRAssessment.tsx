@@ -35,47 +35,10 @@ import {
   Headphones,
   Activity
 } from "lucide-react";
+import { DetailedNPRProfile } from "../utils/apiTypes";
 
-export interface NPRProfile {
-  // Core NPR dimensions based on the research
-  cognitiveTraits: {
-    workingMemoryCapacity: number; // 1-10 scale
-    attentionControl: number;
-    processingSpeed: number;
-    cognitiveFlexibility: number;
-    executiveFunction: number;
-  };
-  
-  learningStyles: string[]; // Visual, Auditory, Kinesthetic, Reading/Writing
-  
-  neurodiversityProfile: {
-    conditions: string[]; // ADHD, Autism, Dyslexia, etc.
-    supportNeeds: string[]; // Extra time, visual cues, etc.
-    strengths: string[]; // Pattern recognition, creativity, etc.
-    challenges: string[]; // Time management, focus, etc.
-  };
-  
-  affectiveProfile: {
-    stressManagement: number; // 1-10 scale
-    motivationalStyle: string; // Intrinsic, Extrinsic, Mixed
-    emotionalRegulation: number;
-    needForCognition: number; // How much they enjoy thinking
-  };
-  
-  personalPreferences: {
-    communicationStyle: string; // Direct, Supportive, Collaborative
-    feedbackPreference: string; // Immediate, Delayed, Visual, Verbal
-    workingEnvironment: string; // Structured, Flexible, Mixed
-    learningPace: string; // Fast, Moderate, Self-paced
-  };
-  
-  consentAndPrivacy: {
-    dataCollection: boolean;
-    adaptiveAI: boolean;
-    cognitiveInsights: boolean;
-    researchParticipation: boolean;
-  };
-}
+// The legacy self-report shape; see DetailedNPRProfile
+export type NPRProfile = DetailedNPRProfile;
 
 interface NPRAssessmentProps {
   onComplete: (profile: NPRProfile) => void;
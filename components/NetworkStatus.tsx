@@ -1,6 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Wifi, WifiOff, AlertCircle, CheckCircle, Clock } from 'lucide-react';
+import { Wifi, WifiOff, AlertCircle, CheckCircle, Clock, RefreshCw, Trash2 } from 'lucide-react';
+import { nprService } from '../utils/nprService';
+import type { OutboxItem } from '../utils/nprOutbox';
+
+// Live view of the request outbox
+function useOutbox(): OutboxItem[] {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+
+  useEffect(() => nprService.subscribeToOutbox(setItems), []);
+
+  return items;
+}
+
+function describeOutboxItem(item: OutboxItem): string {
+  const action = item.endpoint.split('/').pop() || item.endpoint;
+  return action.replace(/-/g, ' ');
+}
 
 interface NetworkStatusProps {
   onRetry?: () => void;
@@ -10,6 +26,7 @@ export const NetworkStatus: React.FC<NetworkStatusProps> = ({ onRetry }) => {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [showStatus, setShowStatus] = useState(false);
   const [connectionQuality, setConnectionQuality] = useState<'good' | 'slow' | 'poor'>('good');
+  const pendingCount = useOutbox().filter(item => item.status === 'pending').length;
 
   useEffect(() => {
     const handleOnline = () => {
@@ -73,7 +90,9 @@ export const NetworkStatus: React.FC<NetworkStatusProps> = ({ onRetry }) => {
       return {
         icon: WifiOff,
         title: 'You\'re offline',
-        message: 'Your data is saved locally and will sync when you\'re back online.',
+        message: pendingCount > 0
+          ? `${pendingCount} ${pendingCount === 1 ? 'change is' : 'changes are'} saved locally and will sync when you're back online.`
+          : 'Your data is saved locally and will sync when you\'re back online.',
         color: 'text-destructive',
         bgColor: 'bg-destructive/10',
         borderColor: 'border-destructive/20'
@@ -169,6 +188,10 @@ export const NetworkStatus: React.FC<NetworkStatusProps> = ({ onRetry }) => {
 export const NetworkIndicator: React.FC = () => {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [connectionQuality, setConnectionQuality] = useState<'good' | 'slow' | 'poor'>('good');
+  const [showProblems, setShowProblems] = useState(false);
+  const outboxItems = useOutbox();
+  const pendingCount = outboxItems.filter(item => item.status === 'pending').length;
+  const problemItems = outboxItems.filter(item => item.status !== 'pending');
 
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -228,12 +251,71 @@ export const NetworkIndicator: React.FC = () => {
   };
 
   return (
-    <div className={`fixed top-4 right-4 z-40 ${getIndicatorColor()} opacity-60`}>
-      {isOnline ? (
-        <Wifi className="h-4 w-4" />
-      ) : (
-        <WifiOff className="h-4 w-4" />
-      )}
+    <div className="fixed top-4 right-4 z-40 flex flex-col items-end gap-2">
+      <div className="flex items-center gap-2">
+        {pendingCount > 0 && (
+          <span className="text-xs text-muted-foreground" title="Changes waiting to sync">
+            {pendingCount}
+          </span>
+        )}
+
+        {problemItems.length > 0 && (
+          <button
+            onClick={() => setShowProblems(!showProblems)}
+            className="text-destructive"
+            title={`${problemItems.length} ${problemItems.length === 1 ? 'change' : 'changes'} could not be synced`}
+          >
+            <AlertCircle className="h-4 w-4" />
+          </button>
+        )}
+
+        <div className={`${getIndicatorColor()} opacity-60`}>
+          {isOnline ? (
+            <Wifi className="h-4 w-4" />
+          ) : (
+            <WifiOff className="h-4 w-4" />
+          )}
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {showProblems && problemItems.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="akilii-glass-premium w-72 p-3 rounded-2xl border border-destructive/20 bg-destructive/10"
+          >
+            <h3 className="text-sm font-medium text-destructive mb-2">Changes that could not be synced</h3>
+            <ul className="space-y-2">
+              {problemItems.map(item => (
+                <li key={item.id} className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-medium capitalize">{describeOutboxItem(item)}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {item.status === 'conflict' ? 'Conflicts with a newer change' : item.last_error || 'Failed'}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => nprService.retryOutboxItem(item)}
+                    className="flex-shrink-0 text-muted-foreground hover:text-foreground transition-colors p-1"
+                    title="Retry"
+                  >
+                    <RefreshCw className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    onClick={() => nprService.discardOutboxItem(item)}
+                    className="flex-shrink-0 text-muted-foreground hover:text-destructive transition-colors p-1"
+                    title="Discard"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   );
 };
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { 
   Brain, 
@@ -15,7 +15,8 @@ import {
   Pause,
   RotateCcw,
   Shield,
-  Lock
+  Lock,
+  Heart
 } from 'lucide-react';
 import { 
   CognitiveAssessment, 
@@ -23,10 +24,36 @@ import {
   EmotionalIntelligence, 
   StandardizedAssessments,
   AssessmentSession,
+  AssessmentCheckpoint,
   AuthUser,
-  CryptographicSignature
+  CryptographicSignature,
+  TowerOfLondonTrial,
+  DigitSpanTrial,
+  MentalRotationTrial,
+  CognitiveReflectionTrial,
+  ProcessingSpeedTrial
 } from '../utils/nprTypes';
 import { nprCryptoService } from '../utils/nprCryptoService';
+import { nprService } from '../utils/nprService';
+import { scoreTowerOfLondon } from '../utils/psychometrics/towerOfLondon';
+import { scoreDigitSpan, workingMemoryScore } from '../utils/psychometrics/digitSpan';
+import { scoreProcessingSpeed } from '../utils/psychometrics/processingSpeed';
+import { scoreMentalRotation } from '../utils/psychometrics/mentalRotation';
+import { scoreCognitiveReflection } from '../utils/psychometrics/cognitiveReflection';
+import { QuestionnaireResponses } from '../utils/psychometrics/questionnaire';
+import { PERSONALITY_ITEMS, personalityNormScores, scorePersonality } from '../utils/psychometrics/personality';
+import {
+  EMOTIONAL_INTELLIGENCE_ITEMS,
+  emotionalIntelligenceNormScores,
+  scoreEmotionalIntelligence
+} from '../utils/psychometrics/emotionalIntelligence';
+import { ALL_AGES_BAND, buildNormReport, getActiveNormDataset } from '../utils/psychometrics/norms';
+import { TowerOfLondonTask } from './assessment/TowerOfLondonTask';
+import { DigitSpanTask } from './assessment/DigitSpanTask';
+import { ProcessingSpeedTask } from './assessment/ProcessingSpeedTask';
+import { MentalRotationTask } from './assessment/MentalRotationTask';
+import { CognitiveReflectionTask } from './assessment/CognitiveReflectionTask';
+import { QuestionnaireTask } from './assessment/QuestionnaireTask';
 import { AnimatedAkiliiLogo } from './AnimatedAkiliiLogo';
 import { PremiumBackgroundElements } from './PremiumBackgroundElements';
 
@@ -37,6 +64,7 @@ interface PsychometricAssessmentProps {
     personality: PersonalityProfile;
     emotionalIntelligence: EmotionalIntelligence;
     standardized: StandardizedAssessments;
+    session?: AssessmentSession;
   }) => void;
   onBack: () => void;
 }
@@ -45,6 +73,16 @@ type AssessmentPhase = 'intro' | 'cognitive' | 'personality' | 'emotional' | 'st
 type CognitiveTask = 'working_memory' | 'processing_speed' | 'attention' | 'executive_function' | 'verbal' | 'spatial';
 type StandardizedTest = 'cognitive_reflection' | 'stroop' | 'tower_of_london' | 'digit_span' | 'mental_rotation';
 
+// Order the cognitive phase runs its tasks in, used to count completed steps
+const TASK_ORDER: Array<CognitiveTask | StandardizedTest> = [
+  'working_memory',
+  'processing_speed',
+  'stroop',
+  'tower_of_london',
+  'mental_rotation',
+  'cognitive_reflection'
+];
+
 interface TaskResponse {
   response: any;
   reactionTime: number;
@@ -56,29 +94,65 @@ export function PsychometricAssessment({ user, onComplete, onBack }: Psychometri
   const [currentPhase, setCurrentPhase] = useState<AssessmentPhase>('intro');
   const [currentTask, setCurrentTask] = useState<CognitiveTask | StandardizedTest | null>(null);
   const [sessionData, setSessionData] = useState<AssessmentSession | null>(null);
+  const [resumableSession, setResumableSession] = useState<AssessmentSession | null>(null);
   const [responses, setResponses] = useState<TaskResponse[]>([]);
   const [startTime, setStartTime] = useState<Date | null>(null);
+  const [ageBand, setAgeBand] = useState(ALL_AGES_BAND);
   const [isTaskActive, setIsTaskActive] = useState(false);
   const [taskProgress, setTaskProgress] = useState({ current: 0, total: 0 });
 
-  // Cognitive tasks data
-  const [workingMemorySequence, setWorkingMemorySequence] = useState<number[]>([]);
-  const [currentSequenceIndex, setCurrentSequenceIndex] = useState(0);
-  const [showSequence, setShowSequence] = useState(false);
-  const [userSequenceInput, setUserSequenceInput] = useState<number[]>([]);
-
   // Stroop test data
   const [stroopStimulus, setStroopStimulus] = useState<{ word: string; color: string; congruent: boolean } | null>(null);
   const [stroopTrialCount, setStroopTrialCount] = useState(0);
 
-  // Personality/EI questionnaire data
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [questionnaireResponses, setQuestionnaireResponses] = useState<{ [key: string]: number }>({});
+  // Standardized task results
+  const [towerOfLondonTrials, setTowerOfLondonTrials] = useState<TowerOfLondonTrial[]>([]);
+  const [digitSpanTrials, setDigitSpanTrials] = useState<DigitSpanTrial[]>([]);
+  const [digitSpanPresentation, setDigitSpanPresentation] = useState<'visual' | 'audio'>('visual');
+  const [processingSpeedTrials, setProcessingSpeedTrials] = useState<ProcessingSpeedTrial[]>([]);
+  const [mentalRotationTrials, setMentalRotationTrials] = useState<MentalRotationTrial[]>([]);
+  const [cognitiveReflectionTrials, setCognitiveReflectionTrials] = useState<CognitiveReflectionTrial[]>([]);
+  const [cognitiveReflectionSet, setCognitiveReflectionSet] = useState('');
+
+  // Personality/EI questionnaire data, keyed by item id
+  const [questionnaireResponses, setQuestionnaireResponses] = useState<QuestionnaireResponses>({});
+  const [questionnaireIndex, setQuestionnaireIndex] = useState(0);
+
+  // Sequence number of the last checkpoint sent for the current session
+  const checkpointSeqRef = useRef(0);
 
   useEffect(() => {
     initializeAssessment();
   }, []);
 
+  // Checkpoint after every trial, so a reload or crash resumes where the user stopped
+  useEffect(() => {
+    if (!sessionData || currentPhase === 'intro' || currentPhase === 'complete') return;
+
+    checkpointSeqRef.current += 1;
+    nprService.checkpointAssessmentSession(sessionData.id, checkpointSeqRef.current, buildCheckpoint(), {
+      currentStep: calculateCurrentStep()
+    });
+  }, [
+    currentPhase,
+    currentTask,
+    digitSpanTrials,
+    processingSpeedTrials,
+    responses,
+    towerOfLondonTrials,
+    mentalRotationTrials,
+    cognitiveReflectionTrials,
+    questionnaireResponses,
+    questionnaireIndex
+  ]);
+
+  // Score once the last questionnaire's responses are in state
+  useEffect(() => {
+    if (currentPhase === 'complete') {
+      finishAssessment();
+    }
+  }, [currentPhase]);
+
   const initializeAssessment = async () => {
     const session: AssessmentSession = {
       id: `session-${Date.now()}`,
@@ -115,76 +189,134 @@ export function PsychometricAssessment({ user, onComplete, onBack }: Psychometri
     };
 
     setSessionData(session);
+
+    // Offer to resume a session left unfinished on this or another device
+    nprService.setUserId(user.id);
+    const open = await nprService.getAssessmentSession();
+    if (open.success && open.session?.checkpoint) {
+      setResumableSession(open.session);
+    }
   };
 
   const calculateTotalSteps = (): number => {
-    return 6 + 5 + 26 + 20 + 5; // Cognitive tasks + Standardized tests + Personality + EI + buffer
+    // One step per cognitive task, then one per questionnaire item
+    return TASK_ORDER.length + PERSONALITY_ITEMS.length + EMOTIONAL_INTELLIGENCE_ITEMS.length;
   };
 
-  const startAssessment = () => {
+  const calculateCurrentStep = (): number => {
+    if (currentPhase === 'cognitive') {
+      return Math.max(0, TASK_ORDER.indexOf(currentTask as CognitiveTask | StandardizedTest));
+    }
+    if (currentPhase === 'personality') {
+      return TASK_ORDER.length + questionnaireIndex;
+    }
+    return TASK_ORDER.length + PERSONALITY_ITEMS.length + questionnaireIndex;
+  };
+
+  // The presentation only counts once a digit-span trial has been given with it
+  const buildCheckpoint = (): AssessmentCheckpoint => ({
+    phase: currentPhase,
+    task: currentTask,
+    age_band: ageBand,
+    digit_span: {
+      trials: digitSpanTrials,
+      presentation: digitSpanTrials.length > 0 ? digitSpanPresentation : null
+    },
+    stroop_responses: responses,
+    tower_of_london_trials: towerOfLondonTrials,
+    mental_rotation_trials: mentalRotationTrials,
+    cognitive_reflection: {
+      trials: cognitiveReflectionTrials,
+      item_set: cognitiveReflectionSet || null
+    },
+    // Only set once the timed coding task has finished; an interrupted run starts again
+    processing_speed_trials: processingSpeedTrials,
+    questionnaire_responses: questionnaireResponses,
+    questionnaire_index: questionnaireIndex
+  });
+
+  const startAssessment = async () => {
+    if (sessionData) {
+      // Replaces any open session on the server; the assessment goes ahead if this is queued offline
+      const result = await nprService.startAssessmentSession(sessionData);
+      if (result.session) {
+        setSessionData(result.session);
+      }
+    }
+
+    checkpointSeqRef.current = 0;
+    setResumableSession(null);
     setCurrentPhase('cognitive');
     setCurrentTask('working_memory');
     setStartTime(new Date());
-    initializeWorkingMemoryTask();
   };
 
-  const initializeWorkingMemoryTask = () => {
-    // Generate random sequence of increasing length
-    const sequenceLength = Math.min(3 + Math.floor(responses.filter(r => r.response).length / 3), 9);
-    const sequence = Array.from({ length: sequenceLength }, () => Math.floor(Math.random() * 9));
-    
-    setWorkingMemorySequence(sequence);
-    setCurrentSequenceIndex(0);
-    setShowSequence(true);
-    setUserSequenceInput([]);
-    setTaskProgress({ current: responses.length + 1, total: 15 }); // 15 working memory trials
-    
-    // Show sequence with timing
-    setTimeout(() => {
-      setShowSequence(false);
-      setIsTaskActive(true);
-    }, sequence.length * 800 + 1000);
-  };
+  const resumeAssessment = () => {
+    const session = resumableSession;
+    const checkpoint = session?.checkpoint;
+    if (!session || !checkpoint) return;
 
-  const handleWorkingMemoryInput = (digit: number) => {
-    if (!isTaskActive) return;
-    
-    const newInput = [...userSequenceInput, digit];
-    setUserSequenceInput(newInput);
-    
-    if (newInput.length === workingMemorySequence.length) {
-      // Complete trial
-      const reactionTime = Date.now() - (startTime?.getTime() || 0);
-      const isCorrect = newInput.every((val, idx) => val === workingMemorySequence[idx]);
-      
-      const response: TaskResponse = {
-        response: { input: newInput, correct: workingMemorySequence, isCorrect },
-        reactionTime,
-        timestamp: new Date()
-      };
-      
-      setResponses(prev => [...prev, response]);
-      setIsTaskActive(false);
-      
-      // Move to next trial or task
-      setTimeout(() => {
-        if (responses.length < 14) {
-          initializeWorkingMemoryTask();
-        } else {
-          setCurrentTask('processing_speed');
-          initializeProcessingSpeedTask();
-        }
-      }, 1000);
+    setSessionData(session);
+    checkpointSeqRef.current = session.checkpoint_seq || 0;
+    setResumableSession(null);
+
+    setAgeBand(checkpoint.age_band);
+    setDigitSpanTrials(checkpoint.digit_span.trials);
+    setDigitSpanPresentation(checkpoint.digit_span.presentation || 'visual');
+    setProcessingSpeedTrials(checkpoint.processing_speed_trials);
+    setResponses(checkpoint.stroop_responses);
+    setStroopTrialCount(checkpoint.stroop_responses.length);
+    setTowerOfLondonTrials(checkpoint.tower_of_london_trials);
+    setMentalRotationTrials(checkpoint.mental_rotation_trials);
+    setCognitiveReflectionTrials(checkpoint.cognitive_reflection.trials);
+    setCognitiveReflectionSet(checkpoint.cognitive_reflection.item_set || '');
+    setQuestionnaireResponses(checkpoint.questionnaire_responses);
+    setQuestionnaireIndex(checkpoint.questionnaire_index);
+
+    const task = checkpoint.task as CognitiveTask | StandardizedTest | null;
+    setCurrentPhase(checkpoint.phase);
+    setCurrentTask(task);
+    setStartTime(new Date());
+
+    if (task === 'processing_speed') {
+      initializeProcessingSpeedTask();
+    } else if (task === 'stroop') {
+      initializeStroopTask();
+    } else if (task === 'tower_of_london') {
+      initializeTowerOfLondon();
     }
   };
 
+  const discardResumableSession = async () => {
+    if (!resumableSession) return;
+    await nprService.discardAssessmentSession(resumableSession.id);
+    setResumableSession(null);
+  };
+
+  const handleDigitSpanTrial = (trials: DigitSpanTrial[], presentation: 'visual' | 'audio') => {
+    setDigitSpanTrials(trials);
+    setDigitSpanPresentation(presentation);
+  };
+
+  // Working memory is measured with the digit-span battery (forward, backward, sequencing)
+  const handleDigitSpanComplete = (trials: DigitSpanTrial[], presentation: 'visual' | 'audio') => {
+    setDigitSpanTrials(trials);
+    setDigitSpanPresentation(presentation);
+    setCurrentTask('processing_speed');
+    initializeProcessingSpeedTask();
+  };
+
   const initializeProcessingSpeedTask = () => {
     setTaskProgress({ current: 16, total: 30 });
-    // Processing speed task: Simple symbol matching
-    // Implementation details...
     setIsTaskActive(true);
   };
 
+  // Processing speed is measured with symbol-digit coding
+  const handleProcessingSpeedComplete = (trials: ProcessingSpeedTrial[]) => {
+    setProcessingSpeedTrials(trials);
+    initializeStroopTask();
+  };
+
   const initializeStroopTask = () => {
     setCurrentTask('stroop');
     const colors = ['red', 'blue', 'green', 'yellow'];
@@ -228,24 +360,40 @@ export function PsychometricAssessment({ user, onComplete, onBack }: Psychometri
   };
 
   const initializeTowerOfLondon = () => {
-    // Tower of London planning task
-    // Implementation details...
     setIsTaskActive(true);
   };
 
-  const handlePersonalityQuestion = (response: number) => {
-    const questionKey = `personality_q${currentQuestionIndex}`;
-    setQuestionnaireResponses(prev => ({
-      ...prev,
-      [questionKey]: response
-    }));
-    
-    if (currentQuestionIndex < 25) {
-      setCurrentQuestionIndex(prev => prev + 1);
-    } else {
-      setCurrentPhase('emotional');
-      setCurrentQuestionIndex(0);
-    }
+  const handleTowerOfLondonComplete = (trials: TowerOfLondonTrial[]) => {
+    setTowerOfLondonTrials(trials);
+    setCurrentTask('mental_rotation');
+  };
+
+  const handleMentalRotationComplete = (trials: MentalRotationTrial[]) => {
+    setMentalRotationTrials(trials);
+    setCurrentTask('cognitive_reflection');
+  };
+
+  const handleCognitiveReflectionComplete = (trials: CognitiveReflectionTrial[], itemSetId: string) => {
+    setCognitiveReflectionTrials(trials);
+    setCognitiveReflectionSet(itemSetId);
+    setIsTaskActive(false);
+    setCurrentPhase('personality');
+  };
+
+  const handleQuestionnaireProgress = (responses: QuestionnaireResponses, nextIndex: number) => {
+    setQuestionnaireResponses(prev => ({ ...prev, ...responses }));
+    setQuestionnaireIndex(nextIndex);
+  };
+
+  const handlePersonalityComplete = (responses: QuestionnaireResponses) => {
+    setQuestionnaireResponses(prev => ({ ...prev, ...responses }));
+    setQuestionnaireIndex(0);
+    setCurrentPhase('emotional');
+  };
+
+  const handleEmotionalComplete = (responses: QuestionnaireResponses) => {
+    setQuestionnaireResponses(prev => ({ ...prev, ...responses }));
+    setCurrentPhase('complete');
   };
 
   const generateAssessmentResults = async (): Promise<{
@@ -254,10 +402,10 @@ export function PsychometricAssessment({ user, onComplete, onBack }: Psychometri
     emotionalIntelligence: EmotionalIntelligence;
     standardized: StandardizedAssessments;
   }> => {
-    // Analyze working memory responses
-    const workingMemoryResponses = responses.filter(r => r.response.correct);
-    const workingMemoryScore = (workingMemoryResponses.filter(r => r.response.isCorrect).length / workingMemoryResponses.length) * 100;
-    
+    const digitSpan = scoreDigitSpan(digitSpanTrials, digitSpanPresentation);
+    const workingMemory = workingMemoryScore(digitSpan);
+    const processingSpeed = scoreProcessingSpeed(processingSpeedTrials);
+
     // Analyze Stroop responses
     const stroopResponses = responses.filter(r => r.response.stimulus);
     const congruentRTs = stroopResponses.filter(r => r.response.stimulus.congruent).map(r => r.reactionTime);
@@ -265,186 +413,121 @@ export function PsychometricAssessment({ user, onComplete, onBack }: Psychometri
     const interferenceEffect = (incongruentRTs.reduce((a, b) => a + b, 0) / incongruentRTs.length) - 
                               (congruentRTs.reduce((a, b) => a + b, 0) / congruentRTs.length);
 
+    const towerOfLondon = scoreTowerOfLondon(towerOfLondonTrials);
+    const mentalRotation = scoreMentalRotation(mentalRotationTrials);
+    const cognitiveReflection = scoreCognitiveReflection(cognitiveReflectionTrials, cognitiveReflectionSet);
+    const stroopAccuracy = stroopResponses.filter(r => r.response.isCorrect).length / stroopResponses.length;
+
+    // Keyed by the result path the norm tables use
+    const norms = buildNormReport({
+      'working_memory.score': workingMemory,
+      'processing_speed.score': processingSpeed.score,
+      'processing_speed.correct_per_minute': processingSpeed.correct_per_minute,
+      'digit_span.forward_span': digitSpan.forward_span,
+      'digit_span.backward_span': digitSpan.backward_span,
+      'digit_span.sequencing_span': digitSpan.sequencing_span,
+      'cognitive_reflection_test.score': cognitiveReflection.score,
+      'stroop_test.interference_effect': interferenceEffect,
+      'tower_of_london.planning_accuracy': towerOfLondon.planning_accuracy,
+      'tower_of_london.moves_efficiency': towerOfLondon.moves_efficiency,
+      'mental_rotation.accuracy': mentalRotation.accuracy,
+      'mental_rotation.angular_disparity_effect': mentalRotation.angular_disparity_effect,
+      ...personalityNormScores(questionnaireResponses),
+      ...emotionalIntelligenceNormScores(questionnaireResponses)
+    }, ageBand);
+
+    // Measures without a usable raw score or norms have no percentile rather than an invented one
+    const percentileFor = (measure: string) => norms.scores[measure]?.percentile ?? null;
+
     const cognitive: CognitiveAssessment = {
       working_memory: {
-        score: workingMemoryScore,
-        percentile: calculatePercentile(workingMemoryScore, 'working_memory'),
-        tasks_completed: ['digit-span-forward', 'sequence-recall'],
+        score: workingMemory,
+        percentile: percentileFor('working_memory.score'),
+        tasks_completed: ['digit-span-forward', 'digit-span-backward', 'digit-span-sequencing'],
         timestamp: new Date()
       },
       processing_speed: {
-        score: calculateProcessingSpeedScore(),
-        percentile: calculatePercentile(50, 'processing_speed'), // Placeholder
-        reaction_times: responses.map(r => r.reactionTime),
+        ...processingSpeed,
+        percentile: percentileFor('processing_speed.score'),
+        trials: processingSpeedTrials,
         timestamp: new Date()
       },
+      // Not assessed: the battery has no sustained, divided or selective attention task yet (the
+      // Stroop interference effect is reported as inhibitory control)
       attention: {
-        sustained_attention: 75, // From sustained attention task
-        selective_attention: 80, // From Stroop interference
-        divided_attention: 70, // From dual-task paradigm
+        sustained_attention: null,
+        selective_attention: null,
+        divided_attention: null,
         timestamp: new Date()
       },
       executive_function: {
-        cognitive_flexibility: 85,
+        cognitive_flexibility: null, // Not assessed: no task-switching task
         inhibitory_control: Math.max(0, 100 - (interferenceEffect / 100)),
-        planning_ability: 80, // From Tower of London
+        planning_ability: towerOfLondon.planning_accuracy * 100,
         timestamp: new Date()
       },
+      // Not assessed: the battery has no verbal tasks
       verbal_ability: {
-        vocabulary_score: 75,
-        comprehension_score: 80,
-        fluency_score: 85,
+        vocabulary_score: null,
+        comprehension_score: null,
+        fluency_score: null,
         timestamp: new Date()
       },
       spatial_ability: {
-        mental_rotation: 70,
-        spatial_visualization: 75,
-        spatial_memory: 80,
-        timestamp: new Date()
-      }
-    };
-
-    const personality: PersonalityProfile = {
-      big_five: {
-        openness: calculateBigFiveScore('openness'),
-        conscientiousness: calculateBigFiveScore('conscientiousness'),
-        extraversion: calculateBigFiveScore('extraversion'),
-        agreeableness: calculateBigFiveScore('agreeableness'),
-        neuroticism: calculateBigFiveScore('neuroticism'),
-        timestamp: new Date()
-      },
-      cognitive_style: {
-        field_independence: 60,
-        analytical_vs_intuitive: 70,
-        sequential_vs_random: 65,
-        concrete_vs_abstract: 75,
-        timestamp: new Date()
-      },
-      learning_preferences: {
-        visual: 80,
-        auditory: 60,
-        kinesthetic: 70,
-        reading_writing: 85,
-        timestamp: new Date()
-      },
-      decision_making: {
-        risk_tolerance: 55,
-        time_orientation: 70,
-        detail_orientation: 80,
+        mental_rotation: mentalRotation.accuracy * 100,
+        spatial_visualization: null, // Not assessed
+        spatial_memory: null, // Not assessed
         timestamp: new Date()
       }
     };
 
-    const emotionalIntelligence: EmotionalIntelligence = {
-      self_awareness: {
-        emotional_self_awareness: 75,
-        accurate_self_assessment: 80,
-        self_confidence: 70,
-        timestamp: new Date()
-      },
-      self_regulation: {
-        emotional_self_control: 75,
-        adaptability: 80,
-        achievement_orientation: 85,
-        positive_outlook: 75,
-        timestamp: new Date()
-      },
-      social_awareness: {
-        empathy: 80,
-        organizational_awareness: 75,
-        service_orientation: 70,
-        timestamp: new Date()
-      },
-      relationship_management: {
-        influence: 70,
-        coach_mentor: 75,
-        conflict_management: 65,
-        team_leadership: 80,
-        timestamp: new Date()
-      }
-    };
+    const personality = scorePersonality(questionnaireResponses);
+    const emotionalIntelligence = scoreEmotionalIntelligence(questionnaireResponses);
 
     const standardized: StandardizedAssessments = {
-      cognitive_reflection_test: {
-        score: 5, // Out of 7
-        response_times: [2500, 3200, 4500, 2800, 3600, 5200, 4100],
-        intuitive_answers: 2,
-        reflective_answers: 5,
-        timestamp: new Date()
-      },
+      cognitive_reflection_test: cognitiveReflection,
       stroop_test: {
         congruent_rt: congruentRTs,
         incongruent_rt: incongruentRTs,
         interference_effect: interferenceEffect,
-        accuracy: stroopResponses.filter(r => r.response.isCorrect).length / stroopResponses.length,
-        timestamp: new Date()
-      },
-      tower_of_london: {
-        planning_accuracy: 0.85,
-        execution_time: [15000, 22000, 18000, 25000, 20000],
-        moves_efficiency: 0.90,
-        timestamp: new Date()
-      },
-      digit_span: {
-        forward_span: 7,
-        backward_span: 5,
-        sequencing_span: 6,
+        accuracy: stroopAccuracy,
         timestamp: new Date()
       },
-      mental_rotation: {
-        accuracy: 0.80,
-        response_time: [1800, 2200, 1900, 2500, 2100],
-        angular_disparity_effect: 15.5,
-        timestamp: new Date()
-      }
+      tower_of_london: towerOfLondon,
+      digit_span: digitSpan,
+      mental_rotation: mentalRotation,
+      norms
     };
 
     return { cognitive, personality, emotionalIntelligence, standardized };
   };
 
-  const calculatePercentile = (score: number, domain: string): number => {
-    // Simplified percentile calculation - in production, use normative data
-    return Math.min(95, Math.max(5, score));
-  };
-
-  const calculateProcessingSpeedScore = (): number => {
-    const avgRT = responses.reduce((sum, r) => sum + r.reactionTime, 0) / responses.length;
-    // Convert RT to standardized score (lower RT = higher score)
-    return Math.max(0, Math.min(100, 100 - (avgRT - 500) / 20));
-  };
-
-  const calculateBigFiveScore = (trait: string): number => {
-    // Calculate Big Five scores from questionnaire responses
-    const relevantQuestions = getRelevantQuestions(trait);
-    const scores = relevantQuestions.map(q => questionnaireResponses[q] || 3);
-    return (scores.reduce((a, b) => a + b, 0) / scores.length) * 20; // Convert to 0-100 scale
-  };
+  const finishAssessment = async () => {
+    const results = await generateAssessmentResults();
+    const { norms } = results.standardized;
 
-  const getRelevantQuestions = (trait: string): string[] => {
-    const questionMap: { [key: string]: string[] } = {
-      openness: ['personality_q0', 'personality_q5', 'personality_q10', 'personality_q15', 'personality_q20'],
-      conscientiousness: ['personality_q1', 'personality_q6', 'personality_q11', 'personality_q16', 'personality_q21'],
-      extraversion: ['personality_q2', 'personality_q7', 'personality_q12', 'personality_q17', 'personality_q22'],
-      agreeableness: ['personality_q3', 'personality_q8', 'personality_q13', 'personality_q18', 'personality_q23'],
-      neuroticism: ['personality_q4', 'personality_q9', 'personality_q14', 'personality_q19', 'personality_q24']
+    let session = sessionData && {
+      ...sessionData,
+      status: 'completed' as const,
+      completed_at: new Date(),
+      results: {
+        ...sessionData.results,
+        raw_scores: Object.fromEntries(Object.entries(norms?.scores ?? {}).map(([measure, score]) => [measure, score.raw])),
+        percentiles: Object.fromEntries(Object.entries(norms?.scores ?? {}).map(([measure, score]) => [measure, score.percentile]))
+      }
     };
-    return questionMap[trait] || [];
-  };
 
-  const finishAssessment = async () => {
-    const results = await generateAssessmentResults();
-    onComplete(results);
-  };
+    // The server closes the session and signs the results with session_signature
+    if (session) {
+      const completed = await nprService.completeAssessmentSession(session.id, session.results);
+      if (completed.session) {
+        session = completed.session;
+      }
+    }
 
-  // Big Five Personality Questions
-  const personalityQuestions = [
-    { text: "I am original, come up with new ideas", trait: "openness" },
-    { text: "I do a thorough job", trait: "conscientiousness" },
-    { text: "I am talkative", trait: "extraversion" },
-    { text: "I am helpful and unselfish with others", trait: "agreeableness" },
-    { text: "I worry a lot", trait: "neuroticism" },
-    // Add more questions...
-  ];
+    setSessionData(session);
+    onComplete({ ...results, session: session || undefined });
+  };
 
   const renderIntroduction = () => (
     <motion.div
@@ -490,6 +573,57 @@ export function PsychometricAssessment({ user, onComplete, onBack }: Psychometri
           ))}
         </div>
         
+        {resumableSession && (
+          <div className="akilii-glass-elevated p-6 rounded-2xl border border-primary/40 mb-8">
+            <div className="flex items-center justify-center gap-2 font-bold text-foreground mb-2">
+              <Clock className="h-4 w-4 text-primary" />
+              You have an unfinished assessment
+            </div>
+            <p className="text-sm akilii-two-tone-text-subtle mb-4">
+              Started {new Date(resumableSession.started_at).toLocaleString()}, about{' '}
+              {Math.round(((resumableSession.current_step || 0) / (resumableSession.total_steps || 1)) * 100)}% done.
+              Pick up where you left off, or start again from the beginning.
+            </p>
+            <div className="flex gap-3 justify-center">
+              <motion.button
+                onClick={discardResumableSession}
+                className="px-5 py-2 rounded-2xl akilii-glass-elevated border border-border/30 text-foreground hover:akilii-glass-premium transition-all duration-300"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <RotateCcw className="h-4 w-4 inline mr-2" />
+                Start over
+              </motion.button>
+              <motion.button
+                onClick={resumeAssessment}
+                className="px-5 py-2 rounded-2xl akilii-gradient-animated-button text-primary-foreground font-bold"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                <Play className="h-4 w-4 inline mr-2" />
+                Resume
+              </motion.button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-center gap-3 mb-6 text-sm">
+          <label htmlFor="assessment-age-band" className="akilii-two-tone-text-subtle">
+            Age group, to compare your scores with people your age
+          </label>
+          <select
+            id="assessment-age-band"
+            value={ageBand}
+            onChange={(event) => setAgeBand(event.target.value)}
+            className="px-3 py-2 rounded-xl akilii-glass-elevated border border-border/30 text-foreground"
+          >
+            <option value={ALL_AGES_BAND}>Prefer not to say</option>
+            {getActiveNormDataset().age_bands.map(band => (
+              <option key={band.id} value={band.id}>{band.id}</option>
+            ))}
+          </select>
+        </div>
+
         <div className="flex items-center justify-center gap-2 mb-8 text-sm akilii-two-tone-text-subtle">
           <Lock className="h-4 w-4" />
           <span>All data is encrypted and stored securely with cryptographic verification</span>
@@ -520,77 +654,6 @@ export function PsychometricAssessment({ user, onComplete, onBack }: Psychometri
     </motion.div>
   );
 
-  const renderWorkingMemoryTask = () => (
-    <motion.div
-      initial={{ opacity: 0 }}
-      animate={{ opacity: 1 }}
-      className="max-w-2xl mx-auto text-center"
-    >
-      <div className="akilii-glass-premium p-8 rounded-3xl border border-border/40">
-        <div className="flex items-center justify-between mb-6">
-          <h2 className="text-xl font-bold text-foreground">Working Memory Task</h2>
-          <div className="text-sm akilii-two-tone-text-subtle">
-            {taskProgress.current} / {taskProgress.total}
-          </div>
-        </div>
-        
-        {showSequence && (
-          <div className="mb-8">
-            <p className="text-sm akilii-two-tone-text-subtle mb-4">Remember this sequence:</p>
-            <div className="flex justify-center gap-4 mb-6">
-              {workingMemorySequence.map((digit, index) => (
-                <motion.div
-                  key={index}
-                  initial={{ scale: 0 }}
-                  animate={{ 
-                    scale: index <= currentSequenceIndex ? 1 : 0.5,
-                    opacity: index <= currentSequenceIndex ? 1 : 0.3
-                  }}
-                  className="w-16 h-16 rounded-2xl akilii-gradient-animated-button flex items-center justify-center text-2xl font-bold text-primary-foreground"
-                >
-                  {digit}
-                </motion.div>
-              ))}
-            </div>
-          </div>
-        )}
-        
-        {!showSequence && isTaskActive && (
-          <div className="mb-8">
-            <p className="text-sm akilii-two-tone-text-subtle mb-4">
-              Click the numbers in the same order:
-            </p>
-            
-            <div className="flex justify-center gap-2 mb-6">
-              {userSequenceInput.map((digit, index) => (
-                <div
-                  key={index}
-                  className="w-12 h-12 rounded-xl bg-primary/20 flex items-center justify-center text-lg font-bold text-foreground"
-                >
-                  {digit}
-                </div>
-              ))}
-            </div>
-            
-            <div className="grid grid-cols-3 gap-4 max-w-xs mx-auto">
-              {[0, 1, 2, 3, 4, 5, 6, 7, 8].map(digit => (
-                <motion.button
-                  key={digit}
-                  onClick={() => handleWorkingMemoryInput(digit)}
-                  className="w-16 h-16 rounded-2xl akilii-glass-elevated border border-border/30 flex items-center justify-center text-xl font-bold text-foreground hover:akilii-glass-premium transition-all duration-200"
-                  whileHover={{ scale: 1.05 }}
-                  whileTap={{ scale: 0.95 }}
-                >
-                  {digit}
-                </motion.button>
-              ))}
-            </div>
-          </div>
-        )}
-      </div>
-    </motion.div>
-  );
-
   const renderStroopTask = () => (
     <motion.div
       initial={{ opacity: 0 }}
@@ -637,56 +700,6 @@ export function PsychometricAssessment({ user, onComplete, onBack }: Psychometri
     </motion.div>
   );
 
-  const renderPersonalityQuestionnaire = () => {
-    const currentQuestion = personalityQuestions[currentQuestionIndex];
-    if (!currentQuestion) return null;
-
-    return (
-      <motion.div
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        className="max-w-3xl mx-auto"
-      >
-        <div className="akilii-glass-premium p-8 rounded-3xl border border-border/40">
-          <div className="flex items-center justify-between mb-6">
-            <h2 className="text-xl font-bold text-foreground">Personality Assessment</h2>
-            <div className="text-sm akilii-two-tone-text-subtle">
-              {currentQuestionIndex + 1} / 26
-            </div>
-          </div>
-          
-          <div className="mb-8">
-            <p className="text-lg text-foreground mb-6 leading-relaxed">
-              "{currentQuestion.text}"
-            </p>
-            
-            <div className="text-sm akilii-two-tone-text-subtle mb-4">
-              How much do you agree with this statement?
-            </div>
-            
-            <div className="flex justify-between items-center">
-              <span className="text-sm text-foreground">Strongly Disagree</span>
-              <div className="flex gap-2">
-                {[1, 2, 3, 4, 5].map(value => (
-                  <motion.button
-                    key={value}
-                    onClick={() => handlePersonalityQuestion(value)}
-                    className="w-12 h-12 rounded-full akilii-glass-elevated border border-border/30 flex items-center justify-center text-sm font-bold text-foreground hover:akilii-glass-premium transition-all duration-200"
-                    whileHover={{ scale: 1.1 }}
-                    whileTap={{ scale: 0.9 }}
-                  >
-                    {value}
-                  </motion.button>
-                ))}
-              </div>
-              <span className="text-sm text-foreground">Strongly Agree</span>
-            </div>
-          </div>
-        </div>
-      </motion.div>
-    );
-  };
-
   return (
     <div className="min-h-screen bg-background relative">
       <PremiumBackgroundElements />
@@ -740,9 +753,70 @@ export function PsychometricAssessment({ user, onComplete, onBack }: Psychometri
       <main className="relative z-10 px-6 py-12">
         <AnimatePresence mode="wait">
           {currentPhase === 'intro' && renderIntroduction()}
-          {currentPhase === 'cognitive' && currentTask === 'working_memory' && renderWorkingMemoryTask()}
+          {currentPhase === 'cognitive' && currentTask === 'working_memory' && (
+            <DigitSpanTask
+              key="working_memory"
+              initialTrials={digitSpanTrials}
+              initialPresentation={digitSpanTrials.length > 0 ? digitSpanPresentation : null}
+              onTrial={handleDigitSpanTrial}
+              onComplete={handleDigitSpanComplete}
+            />
+          )}
+          {currentPhase === 'cognitive' && currentTask === 'processing_speed' && (
+            <ProcessingSpeedTask key="processing_speed" onComplete={handleProcessingSpeedComplete} />
+          )}
           {currentPhase === 'cognitive' && currentTask === 'stroop' && renderStroopTask()}
-          {currentPhase === 'personality' && renderPersonalityQuestionnaire()}
+          {currentPhase === 'cognitive' && currentTask === 'tower_of_london' && (
+            <TowerOfLondonTask
+              key="tower_of_london"
+              initialTrials={towerOfLondonTrials}
+              onTrial={setTowerOfLondonTrials}
+              onComplete={handleTowerOfLondonComplete}
+            />
+          )}
+          {currentPhase === 'cognitive' && currentTask === 'mental_rotation' && (
+            <MentalRotationTask
+              key="mental_rotation"
+              initialTrials={mentalRotationTrials}
+              onTrial={setMentalRotationTrials}
+              onComplete={handleMentalRotationComplete}
+            />
+          )}
+          {currentPhase === 'cognitive' && currentTask === 'cognitive_reflection' && (
+            <CognitiveReflectionTask
+              key="cognitive_reflection"
+              userId={user.id}
+              initialTrials={cognitiveReflectionTrials}
+              initialItemSetId={cognitiveReflectionSet || null}
+              onTrial={(trials, itemSetId) => {
+                setCognitiveReflectionTrials(trials);
+                setCognitiveReflectionSet(itemSetId);
+              }}
+              onComplete={handleCognitiveReflectionComplete}
+            />
+          )}
+          {currentPhase === 'personality' && (
+            <QuestionnaireTask
+              key="personality"
+              title="Personality Assessment"
+              items={PERSONALITY_ITEMS}
+              initialResponses={questionnaireResponses}
+              initialIndex={questionnaireIndex}
+              onProgress={handleQuestionnaireProgress}
+              onComplete={handlePersonalityComplete}
+            />
+          )}
+          {currentPhase === 'emotional' && (
+            <QuestionnaireTask
+              key="emotional"
+              title="Emotional Intelligence"
+              items={EMOTIONAL_INTELLIGENCE_ITEMS}
+              initialResponses={questionnaireResponses}
+              initialIndex={questionnaireIndex}
+              onProgress={handleQuestionnaireProgress}
+              onComplete={handleEmotionalComplete}
+            />
+          )}
         </AnimatePresence>
       </main>
 
@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { ArrowRight, ArrowLeft, Check, Target, MessageSquare, Lightbulb, Palette, Wifi, WifiOff } from 'lucide-react';
+import { ArrowRight, ArrowLeft, Check, Target, MessageSquare, Lightbulb, Palette, Wifi, WifiOff, ShieldCheck } from 'lucide-react';
 import { AnimatedAkiliiLogo } from './AnimatedAkiliiLogo';
 import { ThemeToggle } from './ThemeToggle';
 import { PremiumBackgroundElements } from './PremiumBackgroundElements';
 import { NetworkStatus } from './NetworkStatus';
 import { nprService } from '../utils/nprService';
-import { OnboardingStep, AuthUser, NPRUserProfile } from '../utils/nprTypes';
+import { OnboardingStep, AuthUser, NPRUserProfile, NPR_PROFILE_SCHEMA_VERSION } from '../utils/nprTypes';
+import { ConsentType } from '../utils/apiTypes';
 
 const onboardingSteps: OnboardingStep[] = [
   {
@@ -46,6 +47,22 @@ const onboardingSteps: OnboardingStep[] = [
   }
 ];
 
+// Answers are stored as NPR entries, which the server only accepts with data collection consent
+const consentOptions = [
+  {
+    type: ConsentType.DATA_COLLECTION,
+    label: 'Store my answers',
+    description: 'Required to build your profile. You can withdraw it later in your privacy settings.',
+    required: true
+  },
+  {
+    type: ConsentType.ADAPTIVE_AI,
+    label: 'Personalize my AI',
+    description: 'Let your AI use your goal, challenge, strength and style when it responds.',
+    required: false
+  }
+];
+
 interface SocraticOnboardingProps {
   user: AuthUser;
   onComplete: (user: AuthUser, nprProfile: NPRUserProfile) => void;
@@ -60,6 +77,11 @@ export function SocraticOnboarding({ user, onComplete }: SocraticOnboardingProps
   const [savedEntries, setSavedEntries] = useState<string[]>([]);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [showNetworkStatus, setShowNetworkStatus] = useState(false);
+  const [consentGiven, setConsentGiven] = useState(false);
+  const [consentChoices, setConsentChoices] = useState<Partial<Record<ConsentType, boolean>>>({
+    [ConsentType.DATA_COLLECTION]: false,
+    [ConsentType.ADAPTIVE_AI]: true
+  });
 
   React.useEffect(() => {
     // Set user context for NPR service
@@ -123,6 +145,20 @@ export function SocraticOnboarding({ user, onComplete }: SocraticOnboardingProps
     }
   };
 
+  const handleConsentSubmit = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await nprService.updateConsent(consentChoices, 'onboarding');
+    if (result.success) {
+      setConsentGiven(true);
+    } else {
+      setError(result.error || 'Failed to save your consent');
+    }
+
+    setIsLoading(false);
+  };
+
   const handleStepSubmit = async () => {
     if (!currentInput.trim() && !onboardingSteps[currentStep].options) return;
     
@@ -174,6 +210,7 @@ export function SocraticOnboarding({ user, onComplete }: SocraticOnboardingProps
           const profileData = {
             id: user.id,
             user_id: user.id,
+            schema_version: NPR_PROFILE_SCHEMA_VERSION,
             entries: {
               goal: responses.goal ? { id: `goal-${Date.now()}`, type: 'goal', content: responses.goal, timestamp: new Date() } : null,
               challenge: responses.challenge ? { id: `challenge-${Date.now()}`, type: 'challenge', content: responses.challenge, timestamp: new Date() } : null,
@@ -224,6 +261,7 @@ export function SocraticOnboarding({ user, onComplete }: SocraticOnboardingProps
           const fallbackProfile: NPRUserProfile = {
             id: user.id,
             user_id: user.id,
+            schema_version: NPR_PROFILE_SCHEMA_VERSION,
             entries: {
               goal: responses.goal ? { id: 'goal-fallback', type: 'goal', content: responses.goal, timestamp: new Date() } : null,
               challenge: responses.challenge ? { id: 'challenge-fallback', type: 'challenge', content: responses.challenge, timestamp: new Date() } : null,
@@ -283,6 +321,7 @@ export function SocraticOnboarding({ user, onComplete }: SocraticOnboardingProps
           const offlineProfile: NPRUserProfile = {
             id: user.id,
             user_id: user.id,
+            schema_version: NPR_PROFILE_SCHEMA_VERSION,
             entries: {
               goal: responses.goal ? { id: 'goal-offline', type: 'goal', content: responses.goal, timestamp: new Date() } : null,
               challenge: responses.challenge ? { id: 'challenge-offline', type: 'challenge', content: responses.challenge, timestamp: new Date() } : null,
@@ -336,6 +375,9 @@ export function SocraticOnboarding({ user, onComplete }: SocraticOnboardingProps
   };
 
   const isStepComplete = () => {
+    if (!consentGiven) {
+      return consentChoices[ConsentType.DATA_COLLECTION] === true;
+    }
     if (onboardingSteps[currentStep]?.options) {
       return currentInput !== '';
     }
@@ -418,91 +460,155 @@ export function SocraticOnboarding({ user, onComplete }: SocraticOnboardingProps
             </motion.div>
           )}
 
-          {/* Question */}
-          <motion.div
-            key={currentStep}
-            initial={{ opacity: 0, x: 20 }}
-            animate={{ opacity: 1, x: 0 }}
-            exit={{ opacity: 0, x: -20 }}
-            transition={{ duration: 0.4, ease: "easeOut" }}
-            className="p-6"
-          >
-            <div className="flex items-start gap-4 mb-6">
-              <div className="w-10 h-10 akilii-gradient-animated-button rounded-xl flex items-center justify-center flex-shrink-0">
-                {step.type === 'goal' && <Target className="h-5 w-5 text-primary-foreground" />}
-                {step.type === 'challenge' && <MessageSquare className="h-5 w-5 text-primary-foreground" />}
-                {step.type === 'strength' && <Lightbulb className="h-5 w-5 text-primary-foreground" />}
-                {step.type === 'comm_preference' && <Palette className="h-5 w-5 text-primary-foreground" />}
-              </div>
-              
-              <div className="flex-1">
-                <h2 className="text-xl font-bold text-foreground mb-4">
-                  {step.question}
-                </h2>
+          {/* Consent */}
+          {!consentGiven ? (
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              transition={{ duration: 0.4, ease: "easeOut" }}
+              className="p-6"
+            >
+              <div className="flex items-start gap-4 mb-6">
+                <div className="w-10 h-10 akilii-gradient-animated-button rounded-xl flex items-center justify-center flex-shrink-0">
+                  <ShieldCheck className="h-5 w-5 text-primary-foreground" />
+                </div>
+
+                <div className="flex-1">
+                  <h2 className="text-xl font-bold text-foreground mb-4">
+                    Before we begin, what may I do with your answers?
+                  </h2>
+                </div>
               </div>
-            </div>
 
-            {/* Input */}
-            {step.options ? (
-              // Multiple choice options
               <div className="space-y-3">
-                {step.options.map((option, index) => (
-                  <motion.button
-                    key={option.value}
-                    initial={{ opacity: 0, y: 20 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ duration: 0.3, delay: index * 0.1 }}
-                    onClick={() => handleOptionSelect(option.value)}
-                    className={`w-full p-4 rounded-xl text-left transition-all duration-300 border ${
-                      currentInput === option.value
-                        ? 'akilii-glass-premium border-primary/50 ring-2 ring-primary/20'
-                        : 'akilii-glass border-border/50 hover:akilii-glass-elevated hover:border-border'
-                    }`}
-                    whileHover={{ scale: 1.01 }}
-                    whileTap={{ scale: 0.99 }}
-                  >
-                    <div className="flex items-center gap-3">
-                      <div
-                        className={`w-5 h-5 rounded-full border-2 flex items-center justify-center transition-all duration-300 ${
-                          currentInput === option.value
-                            ? 'border-primary bg-primary'
-                            : 'border-muted-foreground'
-                        }`}
-                      >
-                        {currentInput === option.value && (
-                          <motion.div
-                            initial={{ scale: 0 }}
-                            animate={{ scale: 1 }}
-                            transition={{ duration: 0.2 }}
-                          >
-                            <Check className="h-3 w-3 text-primary-foreground" />
-                          </motion.div>
-                        )}
+                {consentOptions.map((option, index) => {
+                  const checked = consentChoices[option.type] === true;
+                  return (
+                    <motion.button
+                      key={option.type}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ duration: 0.3, delay: index * 0.1 }}
+                      onClick={() => setConsentChoices(prev => ({ ...prev, [option.type]: !checked }))}
+                      className={`w-full p-4 rounded-xl text-left transition-all duration-300 border ${
+                        checked
+                          ? 'akilii-glass-premium border-primary/50 ring-2 ring-primary/20'
+                          : 'akilii-glass border-border/50 hover:akilii-glass-elevated hover:border-border'
+                      }`}
+                      whileHover={{ scale: 1.01 }}
+                      whileTap={{ scale: 0.99 }}
+                    >
+                      <div className="flex items-center gap-3">
+                        <div
+                          className={`w-5 h-5 rounded border-2 flex items-center justify-center transition-all duration-300 ${
+                            checked ? 'border-primary bg-primary' : 'border-muted-foreground'
+                          }`}
+                        >
+                          {checked && <Check className="h-3 w-3 text-primary-foreground" />}
+                        </div>
+
+                        <div className="flex-1">
+                          <h4 className="font-medium text-foreground mb-1">
+                            {option.label}
+                            {option.required && <span className="text-muted-foreground font-normal"> (required)</span>}
+                          </h4>
+                          <p className="text-sm text-muted-foreground">
+                            {option.description}
+                          </p>
+                        </div>
                       </div>
+                    </motion.button>
+                  );
+                })}
+              </div>
+            </motion.div>
+          ) : (
+            /* Question */
+            <motion.div
+              key={currentStep}
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              transition={{ duration: 0.4, ease: "easeOut" }}
+              className="p-6"
+            >
+              <div className="flex items-start gap-4 mb-6">
+                <div className="w-10 h-10 akilii-gradient-animated-button rounded-xl flex items-center justify-center flex-shrink-0">
+                  {step.type === 'goal' && <Target className="h-5 w-5 text-primary-foreground" />}
+                  {step.type === 'challenge' && <MessageSquare className="h-5 w-5 text-primary-foreground" />}
+                  {step.type === 'strength' && <Lightbulb className="h-5 w-5 text-primary-foreground" />}
+                  {step.type === 'comm_preference' && <Palette className="h-5 w-5 text-primary-foreground" />}
+                </div>
+              
+                <div className="flex-1">
+                  <h2 className="text-xl font-bold text-foreground mb-4">
+                    {step.question}
+                  </h2>
+                </div>
+              </div>
+
+              {/* Input */}
+              {step.options ? (
+                // Multiple choice options
+                <div className="space-y-3">
+                  {step.options.map((option, index) => (
+                    <motion.button
+                      key={option.value}
+                      initial={{ opacity: 0, y: 20 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ duration: 0.3, delay: index * 0.1 }}
+                      onClick={() => handleOptionSelect(option.value)}
+                      className={`w-full p-4 rounded-xl text-left transition-all duration-300 border ${
+                        currentInput === option.value
+                          ? 'akilii-glass-premium border-primary/50 ring-2 ring-primary/20'
+                          : 'akilii-glass border-border/50 hover:akilii-glass-elevated hover:border-border'
+                      }`}
+                      whileHover={{ scale: 1.01 }}
+                      whileTap={{ scale: 0.99 }}
+                    >
+                      <div className="flex items-center gap-3">
+                        <div
+                          className={`w-5 h-5 rounded-full border-2 flex items-center justify-center transition-all duration-300 ${
+                            currentInput === option.value
+                              ? 'border-primary bg-primary'
+                              : 'border-muted-foreground'
+                          }`}
+                        >
+                          {currentInput === option.value && (
+                            <motion.div
+                              initial={{ scale: 0 }}
+                              animate={{ scale: 1 }}
+                              transition={{ duration: 0.2 }}
+                            >
+                              <Check className="h-3 w-3 text-primary-foreground" />
+                            </motion.div>
+                          )}
+                        </div>
                       
-                      <div className="flex-1">
-                        <h4 className="font-medium text-foreground mb-1">
-                          {option.label}
-                        </h4>
-                        <p className="text-sm text-muted-foreground">
-                          {option.description}
-                        </p>
+                        <div className="flex-1">
+                          <h4 className="font-medium text-foreground mb-1">
+                            {option.label}
+                          </h4>
+                          <p className="text-sm text-muted-foreground">
+                            {option.description}
+                          </p>
+                        </div>
                       </div>
-                    </div>
-                  </motion.button>
-                ))}
-              </div>
-            ) : (
-              // Text input
-              <textarea
-                value={currentInput}
-                onChange={(e) => setCurrentInput(e.target.value)}
-                placeholder={step.placeholder}
-                className="w-full p-4 rounded-xl akilii-glass border border-border/50 text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary/50 resize-none h-24 transition-all duration-300"
-                autoFocus
-              />
-            )}
-          </motion.div>
+                    </motion.button>
+                  ))}
+                </div>
+              ) : (
+                // Text input
+                <textarea
+                  value={currentInput}
+                  onChange={(e) => setCurrentInput(e.target.value)}
+                  placeholder={step.placeholder}
+                  className="w-full p-4 rounded-xl akilii-glass border border-border/50 text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary/50 resize-none h-24 transition-all duration-300"
+                  autoFocus
+                />
+              )}
+            </motion.div>
+          )}
 
           {/* Error Display */}
           <AnimatePresence>
@@ -535,7 +641,7 @@ export function SocraticOnboarding({ user, onComplete }: SocraticOnboardingProps
 
           {/* Navigation */}
           <div className="p-6 border-t border-border/30 flex items-center gap-3">
-            {currentStep > 0 && (
+            {consentGiven && currentStep > 0 && (
               <motion.button
                 onClick={handleBack}
                 className="px-4 py-2 akilii-glass border border-border/50 text-muted-foreground hover:text-foreground hover:akilii-glass-elevated rounded-lg transition-all duration-300 flex items-center gap-2"
@@ -548,7 +654,7 @@ export function SocraticOnboarding({ user, onComplete }: SocraticOnboardingProps
             )}
             
             <motion.button
-              onClick={handleStepSubmit}
+              onClick={consentGiven ? handleStepSubmit : handleConsentSubmit}
               disabled={!isStepComplete() || isLoading}
               className="flex-1 py-3 px-4 akilii-gradient-animated-button text-primary-foreground font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center gap-2"
               whileHover={{ scale: !isStepComplete() || isLoading ? 1 : 1.02 }}
@@ -560,7 +666,7 @@ export function SocraticOnboarding({ user, onComplete }: SocraticOnboardingProps
                   transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
                   className="w-4 h-4 border-2 border-primary-foreground/30 border-t-primary-foreground rounded-full"
                 />
-              ) : currentStep === onboardingSteps.length - 1 ? (
+              ) : consentGiven && currentStep === onboardingSteps.length - 1 ? (
                 <>
                   Complete Profile
                   <Check className="h-4 w-4" />
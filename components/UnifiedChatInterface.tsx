@@ -9,9 +9,9 @@ import { ScrollArea } from './ui/scroll-area';
 import { Textarea } from './ui/textarea';
 import { toast } from 'sonner@2.0.3';
 import { User } from '../utils/types';
-import { projectId } from '../utils/supabase/info';
 import { getCurrentSession } from '../utils/supabase/client';
 import { flowiseService } from '../utils/flowiseService';
+import { nprService } from '../utils/nprService';
 import {
   Send,
   Mic,
@@ -38,6 +38,8 @@ interface Message {
   isLoading?: boolean;
   error?: string;
   chatId?: string;
+  // The stream broke off before the reply finished
+  incomplete?: boolean;
 }
 
 interface UnifiedChatInterfaceProps {
@@ -45,16 +47,6 @@ interface UnifiedChatInterfaceProps {
   className?: string;
 }
 
-interface ChatResponse {
-  success: boolean;
-  text?: string;
-  chatId?: string;
-  npr_adapted?: boolean;
-  timestamp?: string;
-  error?: string;
-  details?: string;
-}
-
 // Memoized connection status component to prevent re-renders
 const ConnectionStatusBadge = React.memo(({ status }: { status: 'checking' | 'connected' | 'error' }) => (
   <Badge 
@@ -400,64 +392,50 @@ export function UnifiedChatInterface({ currentUser = null, className = '' }: Uni
         throw new Error('Authentication required. Please sign in again.');
       }
 
-      // Call the chat API through our backend
-      const chatResponse = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-feeffd69/chat`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${session.access_token}`,
-          },
-          body: JSON.stringify({
-            message: messageText,
-            chatId: currentChatId,
-            history: messages
-              .filter(msg => !msg.isLoading && !msg.error)
-              .slice(-10) // Keep last 10 messages for context
-              .map(msg => ({
-                role: msg.isUser ? 'user' : 'assistant',
-                content: msg.text
-              })),
-            context: currentUser.nprProfile ? 
-              `User has NPR profile with preferences: ${JSON.stringify(currentUser.nprProfile)}` : 
-              undefined
-          }),
+      // The service sends requests with the signed-in user's token
+      nprService.setAccessToken(session.access_token);
+
+      // Stream the reply through our backend, rendering tokens as they arrive
+      const responseData = await nprService.streamChat(messageText, {
+        chatId: currentChatId,
+        history: messages
+          .filter(msg => !msg.isLoading && !msg.error)
+          .slice(-10) // Keep last 10 messages for context
+          .map(msg => ({
+            role: msg.isUser ? 'user' as const : 'assistant' as const,
+            content: msg.text
+          })),
+        onToken: (_token, content) => {
+          setMessages(prev => prev.map(msg =>
+            msg.id === loadingMessage.id
+              ? { ...msg, text: content, isLoading: false }
+              : msg
+          ));
         }
-      );
-
-      console.log('📥 Chat response received:', {
-        status: chatResponse.status,
-        statusText: chatResponse.statusText
       });
 
-      if (!chatResponse.ok) {
-        const errorText = await chatResponse.text();
-        throw new Error(`Chat service error (${chatResponse.status}): ${errorText}`);
-      }
-
-      const responseData: ChatResponse = await chatResponse.json();
-      console.log('📋 Chat response parsed:', {
+      console.log('📋 Chat response streamed:', {
         success: responseData.success,
-        hasText: !!responseData.text,
+        hasText: !!responseData.content,
         nprAdapted: responseData.npr_adapted
       });
 
       if (!responseData.success) {
-        throw new Error(responseData.details || responseData.error || 'Chat service returned an error');
+        throw new Error(responseData.error || 'Chat service returned an error');
       }
 
-      if (!responseData.text) {
+      if (!responseData.content) {
         throw new Error('Chat service did not return a response');
       }
 
-      // Replace loading message with actual response
+      // Replace the streamed text with the final response
       setMessages(prev => prev.map(msg => 
         msg.id === loadingMessage.id 
           ? {
               ...msg,
-              text: responseData.text!,
+              text: responseData.content!,
               isLoading: false,
+              incomplete: responseData.partial,
               timestamp: new Date()
             }
           : msg
@@ -737,7 +715,14 @@ export function UnifiedChatInterface({ currentUser = null, className = '' }: Uni
                           <span className="text-sm">Thinking...</span>
                         </div>
                       ) : (
-                        <div className="text-sm whitespace-pre-wrap">{message.text}</div>
+                        <>
+                          <div className="text-sm whitespace-pre-wrap">{message.text}</div>
+                          {message.incomplete && (
+                            <div className="text-xs mt-1 opacity-70 italic">
+                              This reply was cut off before it finished - try sending again
+                            </div>
+                          )}
+                        </>
                       )}
                     </div>
                     
@@ -8,10 +8,14 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 import { Alert, AlertDescription } from "./ui/alert";
 import { Separator } from "./ui/separator";
 import { NPRAssessment, NPRProfile } from "./NPRAssessment";
+import { ConsentSettings } from "./ConsentSettings";
+import { AccountDeletion } from "./AccountDeletion";
 import { RobotMascot } from "./AkiliiLogo";
 import { AkiliiBrand } from "./AkiliiBrand";
 import { User } from "../utils/types";
 import { projectId, publicAnonKey } from '../utils/supabase/info';
+import { nprService } from '../utils/nprService';
+import { NPRInsight, NPRUserProfile, ReassessmentDomain } from '../utils/nprTypes';
 import { useFontSize } from "./FontSizeController";
 import {
   Settings,
@@ -46,6 +50,13 @@ interface UserProfileProps {
   user: User;
 }
 
+const REASSESSMENT_DOMAIN_LABELS: Record<ReassessmentDomain, string> = {
+  cognitive_assessment: 'Cognitive tasks',
+  standardized_assessments: 'Standardized tests',
+  emotional_intelligence: 'Emotional intelligence',
+  personality_profile: 'Personality'
+};
+
 interface CognitiveInsights {
   learningStylesSummary: string[];
   primaryStrengths: string[];
@@ -64,14 +75,28 @@ export function UserProfile({ user }: UserProfileProps) {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [showPrivacyDetails, setShowPrivacyDetails] = useState(false);
+  const [confirmDeletion, setConfirmDeletion] = useState(false);
+  const [assessmentInsights, setAssessmentInsights] = useState<NPRInsight[]>([]);
+  const [battery, setBattery] = useState<NPRUserProfile['psychometric_battery'] | null>(null);
 
   // Load cognitive insights on mount
   useEffect(() => {
     if (user.nprProfile) {
       loadCognitiveInsights();
+      loadAssessmentHistory();
     }
   }, [user.id, user.nprProfile]);
 
+  // Changes found between assessments, and when each part of the battery is next due
+  const loadAssessmentHistory = async () => {
+    nprService.setUserId(user.id);
+    const [insights, profile] = await Promise.all([nprService.getInsights(), nprService.getNPRProfile(user.id)]);
+
+    // Without consent to cognitive insights the server refuses, and there is nothing to show
+    setAssessmentInsights(insights.success ? insights.insights || [] : []);
+    setBattery(profile.profile?.psychometric_battery ?? null);
+  };
+
   const loadCognitiveInsights = async () => {
     try {
       const response = await fetch(
@@ -115,6 +140,10 @@ export function UserProfile({ user }: UserProfileProps) {
         throw new Error(result.error || 'Failed to update NPR profile');
       }
 
+      // The questionnaire's consent step is the user's consent choice
+      nprService.setUserId(user.id);
+      await nprService.updateConsent(nprProfile.consentAndPrivacy, 'npr_questionnaire');
+
       setSuccess("NPR profile updated successfully! Your AI will adapt to your new preferences.");
       setIsEditingNPR(false);
       
@@ -132,70 +161,29 @@ export function UserProfile({ user }: UserProfileProps) {
     }
   };
 
-  const handleDeleteNPR = async () => {
-    if (!confirm("Are you sure you want to delete your NPR profile? This will remove all personalization and cannot be undone.")) {
-      return;
-    }
-
+  const exportProfileData = async () => {
     setIsLoading(true);
     setError(null);
 
-    try {
-      const response = await fetch(
-        `https://${projectId}.supabase.co/functions/v1/make-server-feeffd69/user/${user.id}/npr-profile`,
-        {
-          method: 'DELETE',
-          headers: {
-            'Authorization': `Bearer ${publicAnonKey}`,
-          },
-        }
-      );
-
-      const result = await response.json();
+    nprService.setUserId(user.id);
+    const result = await nprService.exportPersonalData();
 
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to delete NPR profile');
-      }
+    if (result.success && result.archive) {
+      const url = URL.createObjectURL(result.archive);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = result.filename || 'akilii-export.zip';
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
 
-      setSuccess("NPR profile deleted. You can create a new one anytime.");
-      setCognitiveInsights(null);
-      
-      // Refresh the page to update user data
-      window.location.reload();
-      
-    } catch (error: any) {
-      console.error('NPR deletion error:', error);
-      setError(error.message || 'Failed to delete NPR profile');
-    } finally {
-      setIsLoading(false);
+      setSuccess("Your data was exported. The archive includes a summary and a manifest to verify it.");
+    } else {
+      setError(result.error || 'Failed to export your data');
     }
-  };
-
-  const exportProfileData = () => {
-    const exportData = {
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role
-      },
-      nprProfile: user.nprProfile,
-      cognitiveInsights,
-      exportedAt: new Date().toISOString(),
-      version: "1.0"
-    };
-
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `akilii-profile-${user.name.replace(/\s+/g, '_').toLowerCase()}-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
 
-    setSuccess("Profile data exported successfully!");
+    setIsLoading(false);
   };
 
   // Show NPR Assessment if editing
@@ -292,9 +280,12 @@ export function UserProfile({ user }: UserProfileProps) {
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={handleDeleteNPR}
+                onClick={() => {
+                  setConfirmDeletion(true);
+                  setActiveTab("privacy");
+                }}
                 className="text-white/60 hover:text-red-400"
-                title="Delete NPR profile"
+                title="Delete account"
               >
                 <Trash2 className="h-4 w-4" />
               </Button>
@@ -704,6 +695,65 @@ export function UserProfile({ user }: UserProfileProps) {
         {/* Insights Tab */}
         {user.nprProfile && (
           <TabsContent value="insights" className="space-y-6">
+            {(assessmentInsights.length > 0 || battery?.next_scheduled_assessment) && (
+              <Card className="akilii-glass-elevated border-white/20">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-white text-fit-lg">
+                    <Activity className="h-5 w-5" />
+                    Changes Since Your Last Assessment
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {assessmentInsights.length > 0 ? (
+                    <div className="space-y-3">
+                      {assessmentInsights.map((insight) => (
+                        <div key={insight.id} className="p-3 akilii-glass rounded-lg space-y-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="text-white font-medium text-fit-sm">{insight.title}</p>
+                            <Badge className="bg-blue-500/20 text-blue-300">
+                              {Math.round(insight.confidence * 100)}% confidence
+                            </Badge>
+                          </div>
+                          <p className="text-white/70 text-fit-sm">{insight.description}</p>
+                          {insight.actionable_recommendations.immediate_actions.map((action) => (
+                            <p key={action} className="text-white/60 text-xs flex items-center gap-2">
+                              <Target className="h-3 w-3 flex-shrink-0" />
+                              {action}
+                            </p>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-white/70 text-fit-sm">
+                      No change beyond measurement error since your last assessment.
+                    </p>
+                  )}
+
+                  {battery?.next_scheduled_assessment && (
+                    <div className="pt-3 border-t border-white/10 space-y-2">
+                      <p className="text-white font-medium text-fit-sm flex items-center gap-2">
+                        <Clock className="h-4 w-4" />
+                        Next re-assessment: {new Date(battery.next_scheduled_assessment).toLocaleDateString()}
+                        {new Date(battery.next_scheduled_assessment) <= new Date() && (
+                          <Badge className="bg-yellow-500/20 text-yellow-300">Due now</Badge>
+                        )}
+                      </p>
+                      {Object.entries(battery.reassessment_schedule || {}).map(([domain, entry]) => entry && (
+                        <div key={domain} className="flex justify-between text-fit-sm">
+                          <span className="text-white/70">
+                            {REASSESSMENT_DOMAIN_LABELS[domain as ReassessmentDomain] || domain}
+                            {entry.reason === 'reliable_change' && ' (brought forward after a change)'}
+                          </span>
+                          <span className="text-white">{new Date(entry.next_due).toLocaleDateString()}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {cognitiveInsights ? (
               <div className="space-y-6">
                 
@@ -957,6 +1007,8 @@ export function UserProfile({ user }: UserProfileProps) {
               </CardContent>
             </Card>
 
+            <ConsentSettings user={user} />
+
             {/* Data Management Actions */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               
@@ -970,10 +1022,12 @@ export function UserProfile({ user }: UserProfileProps) {
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <p className="text-white/70 text-fit-sm">
-                    Download a complete copy of your profile data in JSON format.
+                    Download everything we store about you - entries, assessments, tasks, conversations
+                    and uploaded files - as a zip archive with a readable summary.
                   </p>
                   <Button
                     onClick={exportProfileData}
+                    disabled={isLoading}
                     className="w-full akilii-gradient-primary text-white"
                   >
                     <Download className="h-4 w-4 mr-2" />
@@ -982,34 +1036,12 @@ export function UserProfile({ user }: UserProfileProps) {
                 </CardContent>
               </Card>
 
-              {/* Delete Profile */}
-              {user.nprProfile && (
-                <Card className="akilii-glass-elevated border-red-400/20">
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2 text-white text-fit-lg">
-                      <Trash2 className="h-5 w-5" />
-                      Delete NPR Profile
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <p className="text-white/70 text-fit-sm">
-                      Permanently delete your NPR profile and all associated data.
-                    </p>
-                    <Button
-                      onClick={handleDeleteNPR}
-                      disabled={isLoading}
-                      className="w-full bg-red-500 hover:bg-red-600 text-white"
-                    >
-                      {isLoading ? (
-                        <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                      ) : (
-                        <Trash2 className="h-4 w-4 mr-2" />
-                      )}
-                      Delete NPR Profile
-                    </Button>
-                  </CardContent>
-                </Card>
-              )}
+              {/* Delete Account */}
+              <AccountDeletion
+                user={user}
+                confirmRequested={confirmDeletion}
+                onConfirmClose={() => setConfirmDeletion(false)}
+              />
             </div>
 
             {/* Privacy Policy Link */}
@@ -0,0 +1,119 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'motion/react';
+import { Lightbulb, ArrowRight } from 'lucide-react';
+import { CognitiveReflectionTrial } from '../../utils/nprTypes';
+import { CRT_ITEM_SETS, CRTItemSet, classifyAnswer, nextItemSet } from '../../utils/psychometrics/cognitiveReflection';
+
+interface CognitiveReflectionTaskProps {
+  userId: string;
+  // Answers from an earlier visit and the set they came from; the task resumes at the next item
+  initialTrials?: CognitiveReflectionTrial[];
+  initialItemSetId?: string | null;
+  onTrial?: (trials: CognitiveReflectionTrial[], itemSetId: string) => void;
+  onComplete: (trials: CognitiveReflectionTrial[], itemSetId: string) => void;
+}
+
+// Remembers the set given last time on this device, so the next assessment gets another one
+const lastSetStorageKey = (userId: string) => `akilii-crt-last-set-${userId}`;
+
+export function CognitiveReflectionTask({
+  userId,
+  initialTrials = [],
+  initialItemSetId,
+  onTrial,
+  onComplete
+}: CognitiveReflectionTaskProps) {
+  const [itemSet] = useState<CRTItemSet>(() =>
+    CRT_ITEM_SETS.find(set => set.id === initialItemSetId) ||
+    nextItemSet(localStorage.getItem(lastSetStorageKey(userId)))
+  );
+  const [itemIndex, setItemIndex] = useState(initialTrials.length);
+  const [answer, setAnswer] = useState('');
+
+  const trialsRef = useRef<CognitiveReflectionTrial[]>(initialTrials);
+  const itemStartRef = useRef(performance.now());
+
+  const item = itemSet.items[itemIndex];
+
+  useEffect(() => {
+    setAnswer('');
+    itemStartRef.current = performance.now();
+  }, [itemIndex]);
+
+  const submitAnswer = () => {
+    if (answer.trim() === '') return;
+
+    const trial: CognitiveReflectionTrial = {
+      item_id: item.id,
+      response: answer.trim(),
+      classification: classifyAnswer(item, answer),
+      response_time: performance.now() - itemStartRef.current
+    };
+    trialsRef.current = [...trialsRef.current, trial];
+    onTrial?.(trialsRef.current, itemSet.id);
+
+    if (itemIndex + 1 < itemSet.items.length) {
+      setItemIndex(itemIndex + 1);
+    } else {
+      localStorage.setItem(lastSetStorageKey(userId), itemSet.id);
+      onComplete(trialsRef.current, itemSet.id);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="max-w-2xl mx-auto text-center"
+    >
+      <div className="akilii-glass-premium p-8 rounded-3xl border border-border/40">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+            <Lightbulb className="h-5 w-5 text-primary" />
+            Reasoning Questions
+          </h2>
+          <div className="text-sm akilii-two-tone-text-subtle">
+            {itemIndex + 1} / {itemSet.items.length}
+          </div>
+        </div>
+
+        <motion.p
+          key={item.id}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-lg text-foreground mb-8 leading-relaxed"
+        >
+          {item.question}
+        </motion.p>
+
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            submitAnswer();
+          }}
+          className="flex items-center justify-center gap-3"
+        >
+          <input
+            type="text"
+            inputMode="decimal"
+            autoFocus
+            value={answer}
+            onChange={(event) => setAnswer(event.target.value)}
+            className="w-40 px-4 py-3 rounded-2xl akilii-glass-elevated border border-border/30 text-foreground text-center text-lg focus:outline-none focus:border-primary"
+            aria-label="Your answer"
+          />
+          {item.unit && <span className="text-sm akilii-two-tone-text-subtle">{item.unit}</span>}
+          <motion.button
+            type="submit"
+            disabled={answer.trim() === ''}
+            className="px-6 py-3 rounded-2xl akilii-gradient-animated-button text-primary-foreground font-bold disabled:opacity-50"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <ArrowRight className="h-5 w-5" />
+          </motion.button>
+        </form>
+      </div>
+    </motion.div>
+  );
+}
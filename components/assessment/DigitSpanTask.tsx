@@ -0,0 +1,282 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'motion/react';
+import { Brain, Eye, Volume2, Delete } from 'lucide-react';
+import { DigitSpanTrial } from '../../utils/nprTypes';
+import {
+  DigitSpanMode,
+  DIGIT_SPAN_MODES,
+  DIGIT_PRESENTATION_MS,
+  generateDigitSequence,
+  isCorrectResponse,
+  nextTrialLength
+} from '../../utils/psychometrics/digitSpan';
+import { TextToSpeech } from '../TextToSpeech';
+
+interface DigitSpanTaskProps {
+  // Trials already given in an earlier, interrupted visit; the battery carries on after them
+  initialTrials?: DigitSpanTrial[];
+  initialPresentation?: 'visual' | 'audio' | null;
+  onTrial?: (trials: DigitSpanTrial[], presentation: 'visual' | 'audio') => void;
+  onComplete: (trials: DigitSpanTrial[], presentation: 'visual' | 'audio') => void;
+}
+
+type TrialPhase = 'choose' | 'instructions' | 'presenting' | 'responding' | 'between';
+
+const MODE_INSTRUCTIONS: Record<DigitSpanMode, { title: string; text: string }> = {
+  forward: {
+    title: 'Digits Forward',
+    text: 'Repeat the digits in the same order you saw or heard them.'
+  },
+  backward: {
+    title: 'Digits Backward',
+    text: 'Repeat the digits in reverse order, starting with the last one.'
+  },
+  sequencing: {
+    title: 'Digit Sequencing',
+    text: 'Repeat the digits in order from smallest to largest.'
+  }
+};
+
+const speechSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// The first mode whose stopping rule has not been met yet, or -1 when every mode is finished
+function firstUnfinishedMode(trials: DigitSpanTrial[]): number {
+  return DIGIT_SPAN_MODES.findIndex(mode => nextTrialLength(trials.filter(t => t.mode === mode)) !== null);
+}
+
+export function DigitSpanTask({ initialTrials = [], initialPresentation, onTrial, onComplete }: DigitSpanTaskProps) {
+  const [presentation, setPresentation] = useState<'visual' | 'audio'>(initialPresentation || 'visual');
+  const [phase, setPhase] = useState<TrialPhase>(initialPresentation ? 'instructions' : 'choose');
+  const [modeIndex, setModeIndex] = useState(() => Math.max(firstUnfinishedMode(initialTrials), 0));
+  const [trials, setTrials] = useState<DigitSpanTrial[]>(initialTrials);
+  const [sequence, setSequence] = useState<number[]>([]);
+  const [visibleIndex, setVisibleIndex] = useState<number | null>(null);
+  const [input, setInput] = useState<number[]>([]);
+
+  const responseStartRef = useRef(0);
+  const mode = DIGIT_SPAN_MODES[modeIndex];
+
+  // A checkpoint taken after the last trial leaves nothing to give, so finish straight away
+  const [finishedOnResume] = useState(() => firstUnfinishedMode(initialTrials) === -1);
+
+  useEffect(() => {
+    if (finishedOnResume) {
+      onComplete(initialTrials, initialPresentation || 'visual');
+    }
+  }, []);
+
+  // Visual presentation: one digit per second with a short blank between digits
+  useEffect(() => {
+    if (phase !== 'presenting' || presentation !== 'visual') return;
+
+    const timeouts = sequence.flatMap((_, index) => [
+      setTimeout(() => setVisibleIndex(index), index * DIGIT_PRESENTATION_MS),
+      setTimeout(() => setVisibleIndex(null), (index + 1) * DIGIT_PRESENTATION_MS - 200)
+    ]);
+    timeouts.push(setTimeout(startResponding, sequence.length * DIGIT_PRESENTATION_MS));
+
+    return () => timeouts.forEach(clearTimeout);
+  }, [phase, sequence, presentation]);
+
+  const choosePresentation = (choice: 'visual' | 'audio') => {
+    setPresentation(choice);
+    setPhase('instructions');
+  };
+
+  const startTrial = (length: number) => {
+    setSequence(generateDigitSequence(length));
+    setInput([]);
+    setVisibleIndex(null);
+    setPhase('presenting');
+  };
+
+  const startResponding = () => {
+    responseStartRef.current = performance.now();
+    setPhase('responding');
+  };
+
+  const submitResponse = (response: number[]) => {
+    const trial: DigitSpanTrial = {
+      mode,
+      length: sequence.length,
+      sequence,
+      response,
+      correct: isCorrectResponse(mode, sequence, response),
+      response_time: performance.now() - responseStartRef.current
+    };
+    const allTrials = [...trials, trial];
+    setTrials(allTrials);
+    onTrial?.(allTrials, presentation);
+
+    const nextLength = nextTrialLength(allTrials.filter(t => t.mode === mode));
+    if (nextLength !== null) {
+      setTimeout(() => startTrial(nextLength), 800);
+    } else if (modeIndex + 1 < DIGIT_SPAN_MODES.length) {
+      setModeIndex(modeIndex + 1);
+      setPhase('instructions');
+    } else {
+      onComplete(allTrials, presentation);
+    }
+  };
+
+  const handleDigit = (digit: number) => {
+    if (phase !== 'responding') return;
+
+    const response = [...input, digit];
+    setInput(response);
+    if (response.length === sequence.length) {
+      setPhase('between');
+      submitResponse(response);
+    }
+  };
+
+  const handleBackspace = () => {
+    if (phase === 'responding') {
+      setInput(input.slice(0, -1));
+    }
+  };
+
+  const renderPresentation = () => {
+    if (presentation === 'audio') {
+      return (
+        <div className="mb-8 flex flex-col items-center gap-4">
+          <Volume2 className="h-10 w-10 text-primary" />
+          <p className="text-sm akilii-two-tone-text-subtle">Listen carefully…</p>
+          <TextToSpeech
+            key={sequence.join('') + trials.length}
+            text={sequence.join('. ')}
+            autoPlay
+            compact
+            onEnd={startResponding}
+            onError={startResponding}
+          />
+        </div>
+      );
+    }
+
+    return (
+      <div className="mb-8 h-24 flex items-center justify-center">
+        {visibleIndex !== null && (
+          <motion.div
+            key={visibleIndex}
+            initial={{ scale: 0.6, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="w-20 h-20 rounded-2xl akilii-gradient-animated-button flex items-center justify-center text-4xl font-bold text-primary-foreground"
+          >
+            {sequence[visibleIndex]}
+          </motion.div>
+        )}
+      </div>
+    );
+  };
+
+  if (finishedOnResume) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="max-w-2xl mx-auto text-center"
+    >
+      <div className="akilii-glass-premium p-8 rounded-3xl border border-border/40">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+            <Brain className="h-5 w-5 text-primary" />
+            {phase === 'choose' ? 'Digit Span' : MODE_INSTRUCTIONS[mode].title}
+          </h2>
+          {phase !== 'choose' && (
+            <div className="text-sm akilii-two-tone-text-subtle">
+              Part {modeIndex + 1} / {DIGIT_SPAN_MODES.length}
+            </div>
+          )}
+        </div>
+
+        {phase === 'choose' && (
+          <div>
+            <p className="text-sm akilii-two-tone-text-subtle mb-6">
+              You will be given digits one at a time. How would you like them presented?
+            </p>
+            <div className="flex gap-4 justify-center">
+              <motion.button
+                onClick={() => choosePresentation('visual')}
+                className="px-6 py-3 rounded-2xl akilii-glass-elevated border border-border/30 text-foreground hover:akilii-glass-premium transition-all duration-300"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <Eye className="h-4 w-4 inline mr-2" />
+                Show digits
+              </motion.button>
+              {speechSupported && (
+                <motion.button
+                  onClick={() => choosePresentation('audio')}
+                  className="px-6 py-3 rounded-2xl akilii-glass-elevated border border-border/30 text-foreground hover:akilii-glass-premium transition-all duration-300"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  <Volume2 className="h-4 w-4 inline mr-2" />
+                  Read digits aloud
+                </motion.button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {phase === 'instructions' && (
+          <div>
+            <p className="text-lg text-foreground mb-8 leading-relaxed">
+              {MODE_INSTRUCTIONS[mode].text}
+            </p>
+            <motion.button
+              onClick={() => startTrial(nextTrialLength(trials.filter(t => t.mode === mode))!)}
+              className="px-8 py-3 rounded-2xl akilii-gradient-animated-button text-primary-foreground font-bold"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              Start
+            </motion.button>
+          </div>
+        )}
+
+        {phase === 'presenting' && sequence.length > 0 && renderPresentation()}
+
+        {phase === 'responding' && (
+          <div className="mb-2">
+            <div className="flex justify-center gap-2 mb-6 min-h-12">
+              {sequence.map((_, index) => (
+                <div
+                  key={index}
+                  className="w-12 h-12 rounded-xl bg-primary/20 flex items-center justify-center text-lg font-bold text-foreground"
+                >
+                  {input[index] ?? ''}
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 max-w-xs mx-auto">
+              {[1, 2, 3, 4, 5, 6, 7, 8, 9].map(digit => (
+                <motion.button
+                  key={digit}
+                  onClick={() => handleDigit(digit)}
+                  className="w-16 h-16 rounded-2xl akilii-glass-elevated border border-border/30 flex items-center justify-center text-xl font-bold text-foreground hover:akilii-glass-premium transition-all duration-200"
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  {digit}
+                </motion.button>
+              ))}
+              <motion.button
+                onClick={handleBackspace}
+                className="col-start-3 w-16 h-16 rounded-2xl akilii-glass-elevated border border-border/30 flex items-center justify-center text-foreground hover:akilii-glass-premium transition-all duration-200"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                title="Delete last digit"
+              >
+                <Delete className="h-5 w-5" />
+              </motion.button>
+            </div>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'motion/react';
+import { RotateCcw } from 'lucide-react';
+import { MentalRotationTrial } from '../../utils/nprTypes';
+import {
+  Vec3,
+  MentalRotationStimulus,
+  MENTAL_ROTATION_TRIAL_COUNT,
+  buildMentalRotationStimuli,
+  projectFigure
+} from '../../utils/psychometrics/mentalRotation';
+
+interface MentalRotationTaskProps {
+  // Trials from an earlier visit; only the conditions they did not cover are shown
+  initialTrials?: MentalRotationTrial[];
+  onTrial?: (trials: MentalRotationTrial[]) => void;
+  onComplete: (trials: MentalRotationTrial[]) => void;
+}
+
+// Blank screen between trials, so one response cannot carry over to the next pair
+const INTER_TRIAL_MS = 500;
+
+function Figure({ cubes, angle }: { cubes: Vec3[]; angle: number }) {
+  return (
+    <svg viewBox="-4 -4 8 8" className="w-56 h-56">
+      {projectFigure(cubes, angle).map((face, index) => (
+        <polygon
+          key={index}
+          points={face.points.map(([x, y]) => `${x},${y}`).join(' ')}
+          fill={`hsl(220, 70%, ${Math.round(20 + face.shade * 50)}%)`}
+          stroke="rgba(255, 255, 255, 0.6)"
+          strokeWidth={0.04}
+          strokeLinejoin="round"
+        />
+      ))}
+    </svg>
+  );
+}
+
+export function MentalRotationTask({ initialTrials = [], onTrial, onComplete }: MentalRotationTaskProps) {
+  const [stimuli] = useState<MentalRotationStimulus[]>(() => buildMentalRotationStimuli(initialTrials));
+  const [trialIndex, setTrialIndex] = useState(0);
+  const [showing, setShowing] = useState(false);
+
+  const trialsRef = useRef<MentalRotationTrial[]>(initialTrials);
+  const trialStartRef = useRef(0);
+
+  const stimulus = stimuli[trialIndex];
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      trialStartRef.current = performance.now();
+      setShowing(true);
+    }, INTER_TRIAL_MS);
+    return () => clearTimeout(timeout);
+  }, [trialIndex]);
+
+  const respond = (answeredSame: boolean) => {
+    if (!showing) return;
+    setShowing(false);
+
+    const trial: MentalRotationTrial = {
+      angle: stimulus.angle,
+      mirrored: stimulus.mirrored,
+      answered_same: answeredSame,
+      correct: answeredSame !== stimulus.mirrored,
+      response_time: performance.now() - trialStartRef.current
+    };
+    trialsRef.current = [...trialsRef.current, trial];
+    onTrial?.(trialsRef.current);
+
+    if (trialIndex + 1 < stimuli.length) {
+      setTrialIndex(trialIndex + 1);
+    } else {
+      onComplete(trialsRef.current);
+    }
+  };
+
+  // S and D answer from the keyboard, keeping hands still between trials
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = event.key.toLowerCase();
+      if (key === 's') respond(true);
+      if (key === 'd') respond(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="max-w-2xl mx-auto text-center"
+    >
+      <div className="akilii-glass-premium p-8 rounded-3xl border border-border/40">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+            <RotateCcw className="h-5 w-5 text-primary" />
+            Mental Rotation
+          </h2>
+          <div className="text-sm akilii-two-tone-text-subtle">
+            {trialsRef.current.length + 1} / {MENTAL_ROTATION_TRIAL_COUNT}
+          </div>
+        </div>
+
+        <p className="text-sm akilii-two-tone-text-subtle mb-6">
+          Could the right figure be the left one turned around? Answer "Same" if so, or
+          "Different" if it is a mirror image. Answer as quickly and accurately as you can.
+        </p>
+
+        <div className="flex items-center justify-center gap-6 mb-8 min-h-56">
+          {showing && (
+            <>
+              <Figure cubes={stimulus.figure} angle={0} />
+              <Figure cubes={stimulus.comparison} angle={stimulus.angle} />
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-4 justify-center">
+          <motion.button
+            onClick={() => respond(true)}
+            disabled={!showing}
+            className="px-8 py-3 rounded-2xl akilii-glass-elevated border border-border/30 text-foreground font-bold hover:akilii-glass-premium transition-all duration-300 disabled:opacity-50"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            Same (S)
+          </motion.button>
+          <motion.button
+            onClick={() => respond(false)}
+            disabled={!showing}
+            className="px-8 py-3 rounded-2xl akilii-glass-elevated border border-border/30 text-foreground font-bold hover:akilii-glass-premium transition-all duration-300 disabled:opacity-50"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            Different (D)
+          </motion.button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
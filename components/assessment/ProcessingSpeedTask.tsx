@@ -0,0 +1,142 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'motion/react';
+import { Zap } from 'lucide-react';
+import { ProcessingSpeedTrial } from '../../utils/nprTypes';
+import {
+  CODING_SYMBOLS,
+  CODING_DURATION_MS,
+  buildSymbolKey,
+  nextSymbol
+} from '../../utils/psychometrics/processingSpeed';
+
+interface ProcessingSpeedTaskProps {
+  onComplete: (trials: ProcessingSpeedTrial[]) => void;
+}
+
+export function ProcessingSpeedTask({ onComplete }: ProcessingSpeedTaskProps) {
+  const [symbolKey] = useState(buildSymbolKey);
+  const [started, setStarted] = useState(false);
+  const [symbol, setSymbol] = useState(() => nextSymbol());
+  const [remainingMs, setRemainingMs] = useState(CODING_DURATION_MS);
+
+  const trialsRef = useRef<ProcessingSpeedTrial[]>([]);
+  const stimulusOnsetRef = useRef(0);
+  const finishedRef = useRef(false);
+
+  // Runs the clock once started; the task ends when time is up, whatever item is showing
+  useEffect(() => {
+    if (!started) return;
+
+    const taskStart = performance.now();
+    stimulusOnsetRef.current = taskStart;
+
+    const interval = setInterval(() => {
+      const remaining = CODING_DURATION_MS - (performance.now() - taskStart);
+      setRemainingMs(Math.max(0, remaining));
+
+      if (remaining <= 0 && !finishedRef.current) {
+        finishedRef.current = true;
+        clearInterval(interval);
+        onComplete(trialsRef.current);
+      }
+    }, 250);
+
+    return () => clearInterval(interval);
+  }, [started]);
+
+  const respond = (digit: number) => {
+    if (!started || finishedRef.current) return;
+
+    const now = performance.now();
+    trialsRef.current = [
+      ...trialsRef.current,
+      {
+        symbol,
+        expected_digit: symbolKey[symbol],
+        response: digit,
+        correct: symbolKey[symbol] === digit,
+        reaction_time: now - stimulusOnsetRef.current
+      }
+    ];
+
+    stimulusOnsetRef.current = now;
+    setSymbol(nextSymbol(symbol));
+  };
+
+  // Number keys answer directly, which is faster and steadier than pointing
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const digit = Number(event.key);
+      if (digit >= 1 && digit <= 9) respond(digit);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="max-w-2xl mx-auto text-center"
+    >
+      <div className="akilii-glass-premium p-8 rounded-3xl border border-border/40">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+            <Zap className="h-5 w-5 text-primary" />
+            Symbol Coding
+          </h2>
+          {started && (
+            <div className="text-sm akilii-two-tone-text-subtle">
+              {Math.ceil(remainingMs / 1000)}s
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-9 gap-2 mb-8">
+          {CODING_SYMBOLS.map(keySymbol => (
+            <div key={keySymbol} className="rounded-xl akilii-glass-elevated border border-border/30 py-2">
+              <div className="text-2xl text-foreground">{keySymbol}</div>
+              <div className="text-sm font-bold text-primary">{symbolKey[keySymbol]}</div>
+            </div>
+          ))}
+        </div>
+
+        {!started ? (
+          <div>
+            <p className="text-lg text-foreground mb-8 leading-relaxed">
+              Each symbol has a number in the key above. When a symbol appears, enter its number
+              as quickly as you can. You have {CODING_DURATION_MS / 1000} seconds.
+            </p>
+            <motion.button
+              onClick={() => setStarted(true)}
+              className="px-8 py-3 rounded-2xl akilii-gradient-animated-button text-primary-foreground font-bold"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              Start
+            </motion.button>
+          </div>
+        ) : (
+          <div>
+            <div className="text-7xl text-foreground mb-8 h-24 flex items-center justify-center">
+              {symbol}
+            </div>
+
+            <div className="grid grid-cols-9 gap-2">
+              {CODING_SYMBOLS.map((_, index) => (
+                <motion.button
+                  key={index}
+                  onClick={() => respond(index + 1)}
+                  className="h-12 rounded-xl akilii-glass-elevated border border-border/30 text-lg font-bold text-foreground hover:akilii-glass-premium transition-all duration-200"
+                  whileTap={{ scale: 0.95 }}
+                >
+                  {index + 1}
+                </motion.button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { QuestionnaireItem, QuestionnaireResponses, LIKERT_MIN, LIKERT_MAX } from '../../utils/psychometrics/questionnaire';
+
+interface QuestionnaireTaskProps {
+  title: string;
+  items: QuestionnaireItem[];
+  // Where an earlier, interrupted visit stopped
+  initialResponses?: QuestionnaireResponses;
+  initialIndex?: number;
+  onProgress?: (responses: QuestionnaireResponses, nextIndex: number) => void;
+  onComplete: (responses: QuestionnaireResponses) => void;
+}
+
+const LIKERT_VALUES = Array.from({ length: LIKERT_MAX - LIKERT_MIN + 1 }, (_, index) => LIKERT_MIN + index);
+
+export function QuestionnaireTask({
+  title,
+  items,
+  initialResponses = {},
+  initialIndex = 0,
+  onProgress,
+  onComplete
+}: QuestionnaireTaskProps) {
+  const [itemIndex, setItemIndex] = useState(Math.min(initialIndex, items.length - 1));
+  const [responses, setResponses] = useState<QuestionnaireResponses>(initialResponses);
+
+  const item = items[itemIndex];
+
+  // A skipped item is left out of the responses and scored as missing
+  const answer = (value: number | null) => {
+    const nextResponses = { ...responses };
+    if (value !== null) {
+      nextResponses[item.id] = value;
+    }
+    setResponses(nextResponses);
+    onProgress?.(nextResponses, itemIndex + 1);
+
+    if (itemIndex + 1 < items.length) {
+      setItemIndex(itemIndex + 1);
+    } else {
+      onComplete(nextResponses);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="max-w-3xl mx-auto"
+    >
+      <div className="akilii-glass-premium p-8 rounded-3xl border border-border/40">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-foreground">{title}</h2>
+          <div className="text-sm akilii-two-tone-text-subtle">
+            {itemIndex + 1} / {items.length}
+          </div>
+        </div>
+
+        <div className="mb-8">
+          <p className="text-lg text-foreground mb-6 leading-relaxed">
+            "{item.text}"
+          </p>
+
+          <div className="text-sm akilii-two-tone-text-subtle mb-4">
+            How much do you agree with this statement?
+          </div>
+
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-foreground">Strongly Disagree</span>
+            <div className="flex gap-2">
+              {LIKERT_VALUES.map(value => (
+                <motion.button
+                  key={value}
+                  onClick={() => answer(value)}
+                  className="w-12 h-12 rounded-full akilii-glass-elevated border border-border/30 flex items-center justify-center text-sm font-bold text-foreground hover:akilii-glass-premium transition-all duration-200"
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                >
+                  {value}
+                </motion.button>
+              ))}
+            </div>
+            <span className="text-sm text-foreground">Strongly Agree</span>
+          </div>
+        </div>
+
+        <div className="text-center">
+          <button
+            onClick={() => answer(null)}
+            className="text-sm akilii-two-tone-text-subtle hover:text-foreground transition-colors"
+          >
+            Skip this question
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
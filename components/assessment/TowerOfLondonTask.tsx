@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'motion/react';
+import { Layers } from 'lucide-react';
+import { TowerOfLondonTrial } from '../../utils/nprTypes';
+import {
+  TowerBall,
+  TowerState,
+  PEG_CAPACITIES,
+  START_STATE,
+  MAX_MOVES_PER_PROBLEM,
+  PROBLEM_TIME_LIMIT_MS,
+  TOWER_OF_LONDON_PROBLEMS,
+  canMove,
+  applyMove,
+  statesEqual
+} from '../../utils/psychometrics/towerOfLondon';
+
+interface TowerOfLondonTaskProps {
+  // Problems already attempted in an earlier visit; the task resumes at the next one
+  initialTrials?: TowerOfLondonTrial[];
+  onTrial?: (trials: TowerOfLondonTrial[]) => void;
+  onComplete: (trials: TowerOfLondonTrial[]) => void;
+}
+
+const BALL_COLORS: Record<TowerBall, string> = {
+  red: '#ef4444',
+  green: '#22c55e',
+  blue: '#3b82f6'
+};
+
+export function TowerOfLondonTask({ initialTrials = [], onTrial, onComplete }: TowerOfLondonTaskProps) {
+  const [problemIndex, setProblemIndex] = useState(initialTrials.length);
+  const [state, setState] = useState<TowerState>(START_STATE);
+  const [moves, setMoves] = useState(0);
+  const [selectedPeg, setSelectedPeg] = useState<number | null>(null);
+
+  // Refs, so the time-limit callback sees the current problem rather than a stale render
+  const trialsRef = useRef<TowerOfLondonTrial[]>(initialTrials);
+  const movesRef = useRef(0);
+  const problemFinishedRef = useRef(false);
+  const problemStartRef = useRef(performance.now());
+  const firstMoveRef = useRef<number | null>(null);
+
+  const problem = TOWER_OF_LONDON_PROBLEMS[problemIndex];
+
+  // A checkpoint taken after the last problem leaves nothing to attempt, so finish straight away
+  useEffect(() => {
+    if (!problem) {
+      onComplete(initialTrials);
+    }
+  }, []);
+
+  // Reset the board and timers for each new problem
+  useEffect(() => {
+    if (!problem) return;
+
+    setState(START_STATE);
+    setMoves(0);
+    setSelectedPeg(null);
+    movesRef.current = 0;
+    problemFinishedRef.current = false;
+    problemStartRef.current = performance.now();
+    firstMoveRef.current = null;
+
+    const timeout = setTimeout(() => finishProblem(false), PROBLEM_TIME_LIMIT_MS);
+    return () => clearTimeout(timeout);
+  }, [problemIndex]);
+
+  const finishProblem = (solved: boolean) => {
+    if (problemFinishedRef.current) return;
+    problemFinishedRef.current = true;
+
+    const now = performance.now();
+    const trial: TowerOfLondonTrial = {
+      problem_id: problem.id,
+      minimum_moves: problem.minimum_moves,
+      moves: movesRef.current,
+      solved,
+      planning_time: (firstMoveRef.current ?? now) - problemStartRef.current,
+      execution_time: now - problemStartRef.current
+    };
+
+    trialsRef.current = [...trialsRef.current, trial];
+    onTrial?.(trialsRef.current);
+
+    if (problemIndex + 1 < TOWER_OF_LONDON_PROBLEMS.length) {
+      setTimeout(() => setProblemIndex(problemIndex + 1), 600);
+    } else {
+      onComplete(trialsRef.current);
+    }
+  };
+
+  const moveBall = (from: number, to: number) => {
+    setSelectedPeg(null);
+    if (problemFinishedRef.current || !canMove(state, from, to)) return;
+
+    if (firstMoveRef.current === null) {
+      firstMoveRef.current = performance.now();
+    }
+
+    const nextState = applyMove(state, from, to);
+    movesRef.current += 1;
+    setState(nextState);
+    setMoves(movesRef.current);
+
+    if (statesEqual(nextState, problem.goal)) {
+      finishProblem(true);
+    } else if (movesRef.current >= MAX_MOVES_PER_PROBLEM) {
+      finishProblem(false);
+    }
+  };
+
+  // Click a peg to pick up its top ball, then click another peg to drop it (touch-friendly)
+  const handlePegClick = (peg: number) => {
+    if (selectedPeg === null) {
+      if (state[peg].length > 0) setSelectedPeg(peg);
+    } else {
+      moveBall(selectedPeg, peg);
+    }
+  };
+
+  const renderBoard = (board: TowerState, interactive: boolean, scale: number) => (
+    <div className="flex items-end justify-center gap-6">
+      {board.map((peg, pegIndex) => (
+        <div
+          key={pegIndex}
+          onClick={interactive ? () => handlePegClick(pegIndex) : undefined}
+          onDragOver={interactive ? (event) => event.preventDefault() : undefined}
+          onDrop={interactive ? (event) => {
+            event.preventDefault();
+            moveBall(Number(event.dataTransfer.getData('text/plain')), pegIndex);
+          } : undefined}
+          className={`relative flex flex-col-reverse items-center ${interactive ? 'cursor-pointer' : ''}`}
+          style={{ width: 64 * scale, height: (PEG_CAPACITIES[pegIndex] * 52 + 16) * scale }}
+        >
+          <div
+            className={`absolute bottom-0 rounded-full ${selectedPeg === pegIndex && interactive ? 'bg-primary' : 'bg-muted-foreground/40'}`}
+            style={{ width: 8 * scale, height: '100%' }}
+          />
+          {peg.map((ball, ballIndex) => {
+            const isTop = ballIndex === peg.length - 1;
+            return (
+              <motion.div
+                key={ball}
+                layout
+                draggable={interactive && isTop}
+                onDragStart={(event: any) => event.dataTransfer.setData('text/plain', String(pegIndex))}
+                className={`relative rounded-full border-2 border-white/40 ${interactive && isTop ? 'cursor-grab' : ''}`}
+                style={{
+                  width: 48 * scale,
+                  height: 48 * scale,
+                  marginBottom: 4 * scale,
+                  backgroundColor: BALL_COLORS[ball]
+                }}
+              />
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+
+  if (!problem) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="max-w-2xl mx-auto text-center"
+    >
+      <div className="akilii-glass-premium p-8 rounded-3xl border border-border/40">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-foreground flex items-center gap-2">
+            <Layers className="h-5 w-5 text-primary" />
+            Tower of London
+          </h2>
+          <div className="text-sm akilii-two-tone-text-subtle">
+            {problemIndex + 1} / {TOWER_OF_LONDON_PROBLEMS.length}
+          </div>
+        </div>
+
+        <p className="text-sm akilii-two-tone-text-subtle mb-6">
+          Rearrange the balls to match the goal in exactly {problem.minimum_moves} moves.
+          Plan first, then drag the top ball of a peg onto another peg.
+        </p>
+
+        <div className="mb-8">
+          <p className="text-xs akilii-two-tone-text-subtle mb-2">Goal</p>
+          {renderBoard(problem.goal, false, 0.5)}
+        </div>
+
+        {renderBoard(state, true, 1)}
+
+        <div className="mt-6 text-sm akilii-two-tone-text-subtle">
+          Moves: {moves}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -30,19 +30,28 @@ import {
   Plus,
   Lightbulb,
   ArrowUp,
-  MessageCircle
+  MessageCircle,
+  Square
 } from 'lucide-react';
 import { AnimatedAkiliiLogo } from '../AnimatedAkiliiLogo';
 import { ThemeToggle } from '../ThemeToggle';
 import { PremiumBackgroundElements } from '../PremiumBackgroundElements';
 import { SpeechToText } from '../SpeechToText';
-import { AuthUser, NPRUserProfile } from '../../utils/nprTypes';
+import { AuthUser, NPRResponseResult, NPRUserProfile } from '../../utils/nprTypes';
 import { nprService } from '../../utils/nprService';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
 import { Progress } from '../ui/progress';
 import { toast } from 'sonner@2.0.3';
 
+function replyNotice(response: NPRResponseResult): string | undefined {
+  if (response.partial) return 'This reply was cut off before it finished - try asking again';
+  if (response.offline) return 'Offline reply - the AI service could not be reached';
+  if (response.fallback === 'no_provider_configured') return 'Basic reply - no AI provider is configured';
+  if (response.fallback === 'provider_error') return 'Basic reply - the AI provider is unavailable right now';
+  return undefined;
+}
+
 interface NPRAIChatInterfaceProps {
   user: AuthUser;
   nprProfile: NPRUserProfile;
@@ -55,6 +64,9 @@ interface ChatMessage {
   content: string;
   timestamp: Date;
   isLoading?: boolean;
+  isStreaming?: boolean;
+  // Shown under replies that did not come from the AI provider
+  notice?: string;
   attachments?: FileAttachment[];
   audioUrl?: string;
   isPlaying?: boolean;
@@ -96,6 +108,7 @@ export function NPRAIChatInterface({ user, nprProfile, onBack }: NPRAIChatInterf
   const inputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const speechSynthRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     initializeChat();
@@ -111,6 +124,7 @@ export function NPRAIChatInterface({ user, nprProfile, onBack }: NPRAIChatInterf
       if (speechSynthRef.current) {
         speechSynthesis.cancel();
       }
+      streamAbortRef.current?.abort();
     };
   }, []);
 
@@ -464,26 +478,53 @@ export function NPRAIChatInterface({ user, nprProfile, onBack }: NPRAIChatInterf
     setError(null);
     setShowFollowUps(false);
 
+    const abortController = new AbortController();
+    streamAbortRef.current = abortController;
+
     try {
       const contextualPrompt = buildContextualPrompt(currentInput || 'Please analyze the attached files', currentFiles);
-      const response = await nprService.generateAIResponse(contextualPrompt);
+      const response = await nprService.streamAIResponse(contextualPrompt, {
+        signal: abortController.signal,
+        onToken: (_token, content) => {
+          // Render tokens progressively in place of the loading indicator
+          setMessages(prev => prev.map(msg =>
+            msg.id === loadingMessage.id
+              ? { ...msg, content, isLoading: false, isStreaming: true }
+              : msg
+          ));
+        }
+      });
       
-      if (response.success && response.content) {
+      if (response.success && (response.content || response.cancelled)) {
+        const finalContent = response.content || '';
+
         setMessages(prev => {
-          const withoutLoading = prev.filter(msg => msg.id !== loadingMessage.id);
-          const assistantMessage: ChatMessage = {
-            id: `assistant-${Date.now()}`,
-            role: 'assistant',
-            content: response.content,
-            timestamp: new Date()
-          };
+          if (!finalContent) {
+            return prev.filter(msg => msg.id !== loadingMessage.id);
+          }
+
+          const updated = prev.map(msg =>
+            msg.id === loadingMessage.id
+              ? {
+                  ...msg,
+                  id: `assistant-${Date.now()}`,
+                  content: finalContent,
+                  isLoading: false,
+                  isStreaming: false,
+                  notice: replyNotice(response),
+                  timestamp: new Date()
+                }
+              : msg
+          );
           
           // Generate contextual follow-ups
-          setTimeout(() => {
-            generateContextualFollowUps(response.content, [...withoutLoading, assistantMessage]);
-          }, 1000);
+          if (!response.cancelled) {
+            setTimeout(() => {
+              generateContextualFollowUps(finalContent, updated);
+            }, 1000);
+          }
           
-          return [...withoutLoading, assistantMessage];
+          return updated;
         });
       } else {
         throw new Error(response.error || 'Failed to generate response');
@@ -505,10 +546,15 @@ export function NPRAIChatInterface({ user, nprProfile, onBack }: NPRAIChatInterf
         return [...withoutLoading, errorMsg];
       });
     } finally {
+      streamAbortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleStopGenerating = () => {
+    streamAbortRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -749,10 +795,17 @@ export function NPRAIChatInterface({ user, nprProfile, onBack }: NPRAIChatInterf
                         <div>
                           <p className="text-sm leading-relaxed whitespace-pre-wrap">
                             {message.content}
+                            {message.isStreaming && (
+                              <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-primary/70 animate-pulse" />
+                            )}
                           </p>
+
+                          {message.notice && (
+                            <p className="text-xs mt-2 opacity-70 italic">{message.notice}</p>
+                          )}
                           
                           {/* TTS Controls for Assistant Messages */}
-                          {message.role === 'assistant' && !message.isLoading && (
+                          {message.role === 'assistant' && !message.isLoading && !message.isStreaming && (
                             <div className="flex items-center gap-2 mt-3 pt-3 border-t border-white/10">
                               <Button
                                 size="sm"
@@ -960,16 +1013,17 @@ export function NPRAIChatInterface({ user, nprProfile, onBack }: NPRAIChatInterf
               />
             </div>
             
-            {/* Send Button */}
+            {/* Send / Stop Button */}
             <motion.button
-              onClick={handleSendMessage}
-              disabled={(!inputValue.trim() && attachedFiles.length === 0) || isLoading}
+              onClick={isLoading ? handleStopGenerating : handleSendMessage}
+              disabled={!isLoading && !inputValue.trim() && attachedFiles.length === 0}
               className="w-12 h-12 rounded-2xl akilii-gradient-animated-button flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300"
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
+              title={isLoading ? 'Stop generating' : 'Send message'}
             >
               {isLoading ? (
-                <Loader2 className="h-5 w-5 text-primary-foreground animate-spin" />
+                <Square className="h-4 w-4 text-primary-foreground fill-current" />
               ) : (
                 <Send className="h-5 w-5 text-primary-foreground" />
               )}
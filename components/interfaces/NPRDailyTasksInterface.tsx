@@ -1,12 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { ArrowLeft, Plus, Check, X, Sparkles, Brain, Target, Calendar, Clock, Star, Zap, Trash2, Edit3, MoreVertical } from 'lucide-react';
+import { ArrowLeft, Plus, Check, X, Sparkles, Brain, Target, Calendar, Clock, Star, Zap, Trash2, Edit3, MoreVertical, Repeat, Flame, SkipForward, AlarmClock } from 'lucide-react';
 import { AnimatedAkiliiLogo } from '../AnimatedAkiliiLogo';
 import { ThemeToggle } from '../ThemeToggle';
 import { PremiumBackgroundElements } from '../PremiumBackgroundElements';
-import { AuthUser, NPRUserProfile, NPRTask } from '../../utils/nprTypes';
+import { AuthUser, NPRUserProfile, NPRTask, NPRTaskSeries, NPRRecurrenceRule } from '../../utils/nprTypes';
 import { nprService } from '../../utils/nprService';
 
+type RepeatOption = 'none' | 'daily' | 'weekdays' | 'interval' | 'monthly';
+
+const REPEAT_OPTIONS: Array<{ value: RepeatOption; label: string }> = [
+  { value: 'none', label: 'Once' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekdays', label: 'Weekdays' },
+  { value: 'interval', label: 'Every N days' },
+  { value: 'monthly', label: 'Monthly' }
+];
+
 interface NPRDailyTasksInterfaceProps {
   user: AuthUser;
   nprProfile: NPRUserProfile;
@@ -19,8 +29,12 @@ export function NPRDailyTasksInterface({ user, nprProfile, onBack }: NPRDailyTas
   const [isLoading, setIsLoading] = useState(true);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isAddingTask, setIsAddingTask] = useState(false);
+  const [series, setSeries] = useState<NPRTaskSeries[]>([]);
+  const [repeatOption, setRepeatOption] = useState<RepeatOption>('none');
+  const [repeatInterval, setRepeatInterval] = useState(2);
 
   useEffect(() => {
+    nprService.setUserId(user.id);
     loadTasks();
   }, []);
 
@@ -29,6 +43,7 @@ export function NPRDailyTasksInterface({ user, nprProfile, onBack }: NPRDailyTas
       const result = await nprService.getTasks(user.id);
       if (result.success && result.tasks) {
         setTasks(result.tasks);
+        setSeries(result.series || []);
       }
     } catch (error) {
       console.error('Load tasks error:', error);
@@ -41,24 +56,48 @@ export function NPRDailyTasksInterface({ user, nprProfile, onBack }: NPRDailyTas
     if (!newTaskText.trim()) return;
 
     try {
+      if (repeatOption !== 'none') {
+        const recurrence: NPRRecurrenceRule = repeatOption === 'interval'
+          ? { frequency: 'interval', interval: repeatInterval }
+          : { frequency: repeatOption };
+
+        const result = await nprService.createRecurringTask(newTaskText.trim(), recurrence);
+        if (result.success) {
+          setTasks(prev => [...result.tasks, ...prev]);
+          setSeries(prev => [...prev, ...(result.series || [])]);
+          resetAddTaskForm();
+        }
+        return;
+      }
+
       const result = await nprService.createTask(newTaskText.trim());
       if (result.success && result.task) {
         setTasks(prev => [result.task!, ...prev]);
-        setNewTaskText('');
-        setIsAddingTask(false);
+        resetAddTaskForm();
       }
     } catch (error) {
       console.error('Create task error:', error);
     }
   };
 
+  const resetAddTaskForm = () => {
+    setNewTaskText('');
+    setRepeatOption('none');
+    setIsAddingTask(false);
+  };
+
   const handleToggleTask = async (taskId: string, isCompleted: boolean) => {
     try {
       const result = await nprService.updateTaskCompletion(taskId, isCompleted);
       if (result.success) {
         setTasks(prev => prev.map(task => 
-          task.id === taskId ? { ...task, is_completed: isCompleted } : task
+          task.id === taskId ? (result.task || { ...task, is_completed: isCompleted }) : task
         ));
+
+        // Streaks are derived on the server, so refresh them after a recurring task changes
+        if (result.task?.series_id) {
+          loadTasks();
+        }
       }
     } catch (error) {
       console.error('Toggle task error:', error);
@@ -76,6 +115,40 @@ export function NPRDailyTasksInterface({ user, nprProfile, onBack }: NPRDailyTas
     }
   };
 
+  const handleSkipOccurrence = async (task: NPRTask, snooze: boolean) => {
+    if (!task.series_id || !task.occurrence_date) return;
+
+    try {
+      const result = snooze
+        ? await nprService.snoozeOccurrence(task.series_id, task.occurrence_date)
+        : await nprService.skipOccurrence(task.series_id, task.occurrence_date);
+
+      if (result.success && result.offline) {
+        // Queued for replay - the server's view of today's tasks is not available yet
+        setTasks(prev => prev.filter(entry => entry.id !== task.id));
+      } else if (result.success) {
+        setTasks(result.tasks);
+        setSeries(prev => prev.map(entry => result.series?.find(updated => updated.id === entry.id) || entry));
+      }
+    } catch (error) {
+      console.error('Skip occurrence error:', error);
+    }
+  };
+
+  const handleClearCompleted = async () => {
+    const completedIds = tasks.filter(task => task.is_completed).map(task => task.id);
+    if (completedIds.length === 0) return;
+
+    try {
+      const result = await nprService.bulkDeleteTasks(completedIds);
+      if (result.success) {
+        setTasks(prev => prev.filter(task => !completedIds.includes(task.id)));
+      }
+    } catch (error) {
+      console.error('Clear completed tasks error:', error);
+    }
+  };
+
   const handleGenerateAITask = async () => {
     setIsGenerating(true);
     try {
@@ -90,6 +163,7 @@ export function NPRDailyTasksInterface({ user, nprProfile, onBack }: NPRDailyTas
     }
   };
 
+  const seriesById = new Map(series.map(entry => [entry.id, entry]));
   const activeTasks = tasks.filter(task => !task.is_completed);
   const completedTasks = tasks.filter(task => task.is_completed);
   const aiTasks = tasks.filter(task => task.is_ai_generated);
@@ -325,10 +399,7 @@ export function NPRDailyTasksInterface({ user, nprProfile, onBack }: NPRDailyTas
                   </motion.button>
                   
                   <motion.button
-                    onClick={() => {
-                      setIsAddingTask(false);
-                      setNewTaskText('');
-                    }}
+                    onClick={resetAddTaskForm}
                     className="px-6 py-3 akilii-glass-elevated border border-border/50 rounded-xl hover:akilii-glass-premium transition-all duration-300"
                     whileHover={{ scale: 1.05 }}
                     whileTap={{ scale: 0.95 }}
@@ -336,6 +407,35 @@ export function NPRDailyTasksInterface({ user, nprProfile, onBack }: NPRDailyTas
                     <X className="h-4 w-4 text-muted-foreground" />
                   </motion.button>
                 </div>
+
+                {/* Repeat options */}
+                <div className="flex flex-wrap items-center gap-2 mt-4">
+                  <Repeat className="h-4 w-4 text-primary" />
+                  {REPEAT_OPTIONS.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setRepeatOption(option.value)}
+                      className={`px-3 py-1 rounded-lg text-xs font-medium transition-all duration-300 ${
+                        repeatOption === option.value
+                          ? 'bg-primary/20 text-primary'
+                          : 'akilii-glass border border-border/50 akilii-two-tone-text-subtle hover:text-primary'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                  {repeatOption === 'interval' && (
+                    <input
+                      type="number"
+                      min={2}
+                      max={365}
+                      value={repeatInterval}
+                      onChange={(e) => setRepeatInterval(Math.max(2, Math.min(365, Number(e.target.value) || 2)))}
+                      className="w-16 px-2 py-1 akilii-glass border border-border/50 rounded-lg text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
+                      aria-label="Repeat every N days"
+                    />
+                  )}
+                </div>
               </div>
             </motion.section>
           )}
@@ -385,7 +485,7 @@ export function NPRDailyTasksInterface({ user, nprProfile, onBack }: NPRDailyTas
                         
                         <div className="flex-1">
                           <p className="text-foreground leading-relaxed">
-                            {task.task_text}
+                            {task.title}
                           </p>
                           
                           <div className="flex items-center gap-2 mt-2">
@@ -395,12 +495,43 @@ export function NPRDailyTasksInterface({ user, nprProfile, onBack }: NPRDailyTas
                                 <span className="text-xs text-yellow-500 font-medium">AI</span>
                               </div>
                             )}
+                            {task.series_id && (
+                              <div className="flex items-center gap-1 px-2 py-1 rounded-lg bg-orange-500/10">
+                                <Flame className="h-3 w-3 text-orange-500" />
+                                <span className="text-xs text-orange-500 font-medium">
+                                  {seriesById.get(task.series_id)?.streak.current || 0}
+                                </span>
+                              </div>
+                            )}
                             <span className="text-xs akilii-two-tone-text-subtle">
-                              {new Date(task.created_at).toLocaleDateString()}
+                              {new Date(task.due_date || task.created_at).toLocaleDateString()}
                             </span>
                           </div>
                         </div>
                         
+                        {task.series_id && (
+                          <>
+                            <motion.button
+                              onClick={() => handleSkipOccurrence(task, true)}
+                              className="w-8 h-8 rounded-xl bg-blue-500/10 hover:bg-blue-500/20 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-all duration-300"
+                              whileHover={{ scale: 1.1 }}
+                              whileTap={{ scale: 0.9 }}
+                              title="Snooze until tomorrow"
+                            >
+                              <AlarmClock className="h-3 w-3 text-blue-500" />
+                            </motion.button>
+                            <motion.button
+                              onClick={() => handleSkipOccurrence(task, false)}
+                              className="w-8 h-8 rounded-xl bg-yellow-500/10 hover:bg-yellow-500/20 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-all duration-300"
+                              whileHover={{ scale: 1.1 }}
+                              whileTap={{ scale: 0.9 }}
+                              title="Skip this time"
+                            >
+                              <SkipForward className="h-3 w-3 text-yellow-500" />
+                            </motion.button>
+                          </>
+                        )}
+                        
                         <motion.button
                           onClick={() => handleDeleteTask(task.id)}
                           className="w-8 h-8 rounded-xl bg-red-500/10 hover:bg-red-500/20 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-all duration-300"
@@ -444,10 +575,21 @@ export function NPRDailyTasksInterface({ user, nprProfile, onBack }: NPRDailyTas
                 <div className="w-10 h-10 rounded-2xl bg-green-500/20 flex items-center justify-center">
                   <Check className="h-5 w-5 text-green-500" />
                 </div>
-                <div>
+                <div className="flex-1">
                   <h2 className="font-bold text-foreground">Completed</h2>
                   <p className="text-sm akilii-two-tone-text-subtle">{completedTasks.length} done</p>
                 </div>
+                {completedTasks.length > 0 && (
+                  <motion.button
+                    onClick={handleClearCompleted}
+                    className="flex items-center gap-2 px-3 py-2 rounded-xl bg-red-500/10 hover:bg-red-500/20 transition-all duration-300"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    <Trash2 className="h-3 w-3 text-red-500" />
+                    <span className="text-xs text-red-500 font-medium">Clear</span>
+                  </motion.button>
+                )}
               </div>
               
               <div className="space-y-4">
@@ -473,7 +615,7 @@ export function NPRDailyTasksInterface({ user, nprProfile, onBack }: NPRDailyTas
                         
                         <div className="flex-1">
                           <p className="text-foreground leading-relaxed line-through">
-                            {task.task_text}
+                            {task.title}
                           </p>
                           
                           <div className="flex items-center gap-2 mt-2">
@@ -484,7 +626,7 @@ export function NPRDailyTasksInterface({ user, nprProfile, onBack }: NPRDailyTas
                               </div>
                             )}
                             <span className="text-xs akilii-two-tone-text-subtle">
-                              Completed {new Date(task.created_at).toLocaleDateString()}
+                              Completed {new Date(task.completed_at || task.created_at).toLocaleDateString()}
                             </span>
                           </div>
                         </div>
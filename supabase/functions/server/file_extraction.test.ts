@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import {
+  detectFormat,
+  excerptForPrompt,
+  extractDocumentText,
+  MAX_DOCX_XML_BYTES,
+  MAX_EXTRACTED_CHARS
+} from './file_extraction.tsx';
+
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+function docx(body: string): File {
+  const xml = `<?xml version="1.0"?><w:document><w:body>${body}</w:body></w:document>`;
+  return new File([zipSync({ 'word/document.xml': strToU8(xml) })], 'notes.docx', { type: DOCX_TYPE });
+}
+
+function paragraph(text: string, style?: string): string {
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+  return `<w:p>${properties}<w:r><w:t>${text}</w:t></w:r></w:p>`;
+}
+
+describe('detectFormat', () => {
+  it('uses the MIME type, then the extension', () => {
+    expect(detectFormat('text/csv; charset=utf-8', 'data')).toBe('csv');
+    expect(detectFormat('application/octet-stream', 'README.md')).toBe('markdown');
+    expect(detectFormat('text/x-log', 'server.log')).toBe('text');
+    expect(detectFormat('image/png', 'photo.png')).toBeNull();
+  });
+});
+
+describe('CSV extraction', () => {
+  it('handles quoted fields and repeats the header in every section', async () => {
+    const rows = Array.from({ length: 250 }, (_, index) => `${index + 1},"Smith, J","said ""hi"""`);
+    const file = new File([['id,name,quote', ...rows].join('\r\n')], 'people.csv', { type: 'text/csv' });
+
+    const result = (await extractDocumentText(file))!;
+    expect(result.sections.map(section => section.label)).toEqual(['Rows 1-200', 'Rows 201-250']);
+    expect(result.text).toContain('1 | Smith, J | said "hi"');
+
+    const second = result.text.slice(result.sections[1].start, result.sections[1].end);
+    expect(second.split('\n')[0]).toBe('id | name | quote');
+    expect(result.truncated).toBe(false);
+  });
+
+  it('stops at the extraction limit', async () => {
+    const row = `${'x'.repeat(1000)},y\n`;
+    const file = new File(['a,b\n' + row.repeat(MAX_EXTRACTED_CHARS / 1000 + 500)], 'big.csv', { type: 'text/csv' });
+
+    const result = (await extractDocumentText(file))!;
+    expect(result.truncated).toBe(true);
+    expect(result.text.length).toBeLessThanOrEqual(MAX_EXTRACTED_CHARS);
+  });
+});
+
+describe('DOCX extraction', () => {
+  it('turns headings into sections, and lists and tables into text', async () => {
+    const result = (await extractDocumentText(docx([
+      paragraph('Intro text &amp; more'),
+      paragraph('Goals', 'Heading1'),
+      paragraph('Run a 10k', 'ListParagraph'),
+      '<w:tbl><w:tr><w:tc>' + paragraph('Week') + '</w:tc><w:tc>' + paragraph('Distance') + '</w:tc></w:tr></w:tbl>'
+    ].join(''))))!;
+
+    expect(result.format).toBe('docx');
+    expect(result.sections.map(section => section.label)).toEqual(['Document', 'Goals']);
+    expect(result.text).toBe('Intro text & more\n\n# Goals\n- Run a 10k\nWeek | Distance');
+  });
+
+  it('refuses a document that would inflate past the limit', async () => {
+    const bomb = zipSync({ 'word/document.xml': new Uint8Array(MAX_DOCX_XML_BYTES + 1) }, { level: 1 });
+    const file = new File([bomb], 'bomb.docx', { type: DOCX_TYPE });
+
+    await expect(extractDocumentText(file)).rejects.toThrow(/over the \d+ byte limit/);
+  });
+
+  it('rejects a zip without a document body', async () => {
+    const file = new File([zipSync({ 'other.xml': strToU8('<x/>') })], 'fake.docx', { type: DOCX_TYPE });
+    await expect(extractDocumentText(file)).rejects.toThrow(/word\/document.xml is missing/);
+  });
+});
+
+describe('excerptForPrompt', () => {
+  it('includes whole sections and names the ones left out', () => {
+    const result = {
+      text: 'aaaa\n\nbbbb',
+      sections: [{ label: 'A', start: 0, end: 4 }, { label: 'B', start: 6, end: 10 }],
+      truncated: false
+    };
+    expect(excerptForPrompt(result, 8)).toBe('aaaa\n[Showing 4 of 10 characters; not shown: B]');
+    expect(excerptForPrompt({ ...result, truncated: true }, 100)).toContain('[The rest of the document was not extracted]');
+  });
+});
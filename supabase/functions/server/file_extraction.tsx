@@ -0,0 +1,444 @@
+// Text extraction for uploaded documents.
+//
+// extractDocumentText turns a PDF, DOCX, Markdown, CSV, HTML or plain text upload into text an LLM
+// can read, keeping the document's structure: every PDF page starts with a `[Page n]` line,
+// headings in DOCX and HTML become Markdown headings, and CSV rows are grouped under a repeated
+// header. Each of these parts is also listed in `sections` with its character range, so callers
+// can cite or trim by page or section. Extraction stops at MAX_EXTRACTED_CHARS and says so in
+// `truncated`; nothing past that point is parsed. A large PDF is read a page at a time, text
+// formats only read as much of the file as the limit can use, and a DOCX whose document part
+// would inflate past MAX_DOCX_XML_BYTES is refused before it is unzipped.
+//
+// The upload route stores the result at `file:${fileId}:text`, next to the file's metadata, and
+// excerptForPrompt picks whole sections from it for the prompt.
+
+import { unzipSync } from 'npm:fflate@0.8.2';
+import { getDocumentProxy } from 'npm:unpdf@0.12.1';
+
+export type ExtractionFormat = 'pdf' | 'docx' | 'markdown' | 'csv' | 'html' | 'text';
+
+export interface ExtractedSection {
+  label: string;
+  start: number;
+  end: number;
+}
+
+export interface ExtractionResult {
+  format: ExtractionFormat;
+  text: string;
+  sections: ExtractedSection[];
+  truncated: boolean;
+  page_count: number | null;
+}
+
+// About 100k tokens; more than any prompt takes, so this bounds storage rather than context
+export const MAX_EXTRACTED_CHARS = 400_000;
+
+// word/document.xml holds a DOCX's text; a real one this large is rare, a zip bomb is not
+export const MAX_DOCX_XML_BYTES = 50 * 1024 * 1024;
+
+const CSV_ROWS_PER_SECTION = 200;
+
+const FORMATS_BY_TYPE: Record<string, ExtractionFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'csv',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html'
+};
+
+// Browsers often send no type, or a generic one, for Markdown and CSV files
+const FORMATS_BY_EXTENSION: Record<string, ExtractionFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown',
+  csv: 'csv',
+  tsv: 'csv',
+  html: 'html',
+  htm: 'html',
+  txt: 'text'
+};
+
+const FORMAT_LABELS: Record<ExtractionFormat, string> = {
+  pdf: 'PDF document',
+  docx: 'Word document',
+  markdown: 'Markdown document',
+  csv: 'CSV file',
+  html: 'HTML document',
+  text: 'Text file'
+};
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+export function fileTextKey(fileId: string): string {
+  return `file:${fileId}:text`;
+}
+
+/**
+ * The format to extract a file as, or null if its text cannot be extracted
+ */
+export function detectFormat(type: string, name: string): ExtractionFormat | null {
+  const byType = FORMATS_BY_TYPE[type.split(';')[0].trim().toLowerCase()];
+  if (byType) {
+    return byType;
+  }
+
+  const extension = name.toLowerCase().split('.').pop() || '';
+  return FORMATS_BY_EXTENSION[extension] ?? (type.startsWith('text/') ? 'text' : null);
+}
+
+// An opening <w:p> tag, not a self-closing empty paragraph
+const DOCX_PARAGRAPH = /<w:p\b(?:[^>]*[^\/>])?>[\s\S]*?<\/w:p>/g;
+
+// Collects sections into one text, stopping once MAX_EXTRACTED_CHARS is reached
+class SectionWriter {
+  text = '';
+  sections: ExtractedSection[] = [];
+  truncated = false;
+
+  add(label: string, body: string): void {
+    const content = body.trim();
+    if (this.truncated || !content) {
+      return;
+    }
+
+    const separator = this.text ? '\n\n' : '';
+    const room = MAX_EXTRACTED_CHARS - this.text.length - separator.length;
+    if (room <= 0) {
+      this.truncated = true;
+      return;
+    }
+
+    const start = this.text.length + separator.length;
+    this.text += separator + content.slice(0, room);
+    this.sections.push({ label, start, end: this.text.length });
+    this.truncated = content.length > room;
+  }
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Split Markdown-style text at its headings; text before the first heading is its own section
+function writeHeadingSections(writer: SectionWriter, text: string, untitledLabel: string): void {
+  let label = untitledLabel;
+  let lines: string[] = [];
+  let inFence = false;
+
+  for (const line of text.split('\n')) {
+    if (writer.truncated) {
+      return;
+    }
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const heading = inFence ? null : /^#{1,6}\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      writer.add(label, lines.join('\n'));
+      label = heading[1];
+      lines = [];
+    }
+    lines.push(line);
+  }
+
+  writer.add(label, lines.join('\n'));
+}
+
+async function extractPDF(bytes: Uint8Array, writer: SectionWriter): Promise<number> {
+  const pdf = await getDocumentProxy(bytes);
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages && !writer.truncated; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map((item: any) => (item.str ?? '') + (item.hasEOL ? '\n' : ''))
+        .join('')
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n');
+
+      // Pages without a text layer (scans) are skipped; the labels keep the real page numbers
+      if (text.trim()) {
+        writer.add(`Page ${pageNumber}`, `[Page ${pageNumber}]\n${text}`);
+      }
+      page.cleanup();
+    }
+    return pdf.numPages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+function docxParagraph(xml: string): string {
+  const style = /<w:pStyle w:val="([^"]+)"/.exec(xml)?.[1] ?? '';
+  let text = '';
+  for (const match of xml.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br\b[^>]*\/>|<w:cr\/>/g)) {
+    if (match[1] !== undefined) {
+      text += decodeEntities(match[1]);
+    } else {
+      text += match[0].startsWith('<w:tab') ? '\t' : '\n';
+    }
+  }
+
+  const level = style === 'Title' ? 1 : Number(/^Heading(\d)$/i.exec(style)?.[1] ?? 0);
+  if (level > 0 && text.trim()) {
+    return `${'#'.repeat(Math.min(level, 6))} ${text.trim()}`;
+  }
+  if (/^ListParagraph$/i.test(style) || xml.includes('<w:numPr>')) {
+    return `- ${text}`;
+  }
+  return text;
+}
+
+function extractDOCX(bytes: Uint8Array, writer: SectionWriter): void {
+  // The size is read from the zip's directory, before anything is inflated
+  let declaredSize = 0;
+  const archive = unzipSync(bytes, {
+    filter: file => {
+      if (file.name !== 'word/document.xml') return false;
+      declaredSize = file.originalSize;
+      return declaredSize <= MAX_DOCX_XML_BYTES;
+    }
+  });
+  if (declaredSize > MAX_DOCX_XML_BYTES) {
+    throw new Error(`Word document text would inflate to ${declaredSize} bytes, over the ${MAX_DOCX_XML_BYTES} byte limit`);
+  }
+
+  const documentXML = archive['word/document.xml'];
+  if (!documentXML) {
+    throw new Error('Not a Word document: word/document.xml is missing');
+  }
+
+  const xml = new TextDecoder().decode(documentXML);
+  const blocks: string[] = [];
+  for (const [block] of xml.matchAll(new RegExp(`<w:tbl>[\\s\\S]*?<\\/w:tbl>|${DOCX_PARAGRAPH.source}`, 'g'))) {
+    if (block.startsWith('<w:tbl>')) {
+      // One line per row, cells separated as in a Markdown table
+      const rows = [...block.matchAll(/<w:tr\b[\s\S]*?<\/w:tr>/g)].map(([row]) =>
+        [...row.matchAll(/<w:tc\b[\s\S]*?<\/w:tc>/g)]
+          .map(([cell]) => [...cell.matchAll(DOCX_PARAGRAPH)].map(([p]) => docxParagraph(p)).join(' ').trim())
+          .join(' | '));
+      blocks.push(rows.join('\n'));
+    } else {
+      blocks.push(docxParagraph(block));
+    }
+  }
+
+  writeHeadingSections(writer, blocks.join('\n'), 'Document');
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, inner) =>
+        `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim()}\n\n`)
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<\/t[dh]>\s*<t[dh]\b[^>]*>/gi, ' | ')
+      .replace(/<\/?(p|div|section|article|header|footer|main|nav|aside|ul|ol|table|tr|blockquote|pre|figure|dl|dt|dd)\b[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n');
+}
+
+// RFC 4180: quoted fields may hold delimiters, doubled quotes and line breaks. Rows are produced
+// one at a time so the caller can stop early; blank rows are skipped.
+function* parseDelimited(text: string, delimiter: string): Generator<string[]> {
+  const isBlank = (cells: string[]) => !cells.some(cell => cell.trim());
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (!isBlank(row)) yield row;
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    if (!isBlank(row)) yield row;
+  }
+}
+
+function extractCSV(text: string, name: string, writer: SectionWriter): void {
+  const firstLine = text.split('\n', 1)[0];
+  const delimiter = name.toLowerCase().endsWith('.tsv') || firstLine.includes('\t')
+    ? '\t'
+    : (firstLine.split(';').length > firstLine.split(',').length ? ';' : ',');
+
+  const formatRow = (cells: string[]) => cells.map(cell => cell.replace(/\s+/g, ' ').trim()).join(' | ');
+  let header: string | null = null;
+  let chunk: string[] = [];
+  let rowCount = 0;
+
+  // The header is repeated in every section so each one can be read on its own
+  const writeChunk = () => {
+    writer.add(`Rows ${rowCount - chunk.length + 1}-${rowCount}`, [header, ...chunk].join('\n'));
+    chunk = [];
+  };
+
+  for (const cells of parseDelimited(text, delimiter)) {
+    if (header === null) {
+      header = formatRow(cells);
+      continue;
+    }
+
+    chunk.push(formatRow(cells));
+    rowCount++;
+    if (chunk.length === CSV_ROWS_PER_SECTION) {
+      writeChunk();
+      if (writer.truncated) return;
+    }
+  }
+
+  if (chunk.length > 0) {
+    writeChunk();
+  } else if (header !== null && rowCount === 0) {
+    writer.add('Header', header);
+  }
+}
+
+// Extracted text is never longer than the text it comes from, so no more of a text file is read
+// than MAX_EXTRACTED_CHARS characters can take up in UTF-8
+async function readTextHead(file: File): Promise<{ text: string; cut: boolean }> {
+  const maxBytes = MAX_EXTRACTED_CHARS * 4;
+  if (file.size <= maxBytes) {
+    return { text: await file.text(), cut: false };
+  }
+  return { text: await file.slice(0, maxBytes).text(), cut: true };
+}
+
+/**
+ * The text of an uploaded document with its page or section boundaries, or null if the file is
+ * not a format text can be extracted from
+ */
+export async function extractDocumentText(file: File): Promise<ExtractionResult | null> {
+  const format = detectFormat(file.type, file.name);
+  if (!format) {
+    return null;
+  }
+
+  const writer = new SectionWriter();
+  let pageCount: number | null = null;
+  let cut = false;
+
+  // Markup shrinks as it is converted, so HTML is read whole; plain text formats only in part
+  const readText = async () => {
+    const head = await readTextHead(file);
+    cut = head.cut;
+    return head.text;
+  };
+
+  switch (format) {
+    case 'pdf':
+      pageCount = await extractPDF(new Uint8Array(await file.arrayBuffer()), writer);
+      break;
+    case 'docx':
+      extractDOCX(new Uint8Array(await file.arrayBuffer()), writer);
+      break;
+    case 'markdown':
+      writeHeadingSections(writer, (await readText()).replace(/\r\n?/g, '\n'), 'Introduction');
+      break;
+    case 'csv':
+      extractCSV(await readText(), file.name, writer);
+      break;
+    case 'html':
+      writeHeadingSections(writer, htmlToText(await file.text()), 'Page');
+      break;
+    case 'text':
+      writer.add('Text', (await readText()).replace(/\r\n?/g, '\n'));
+      break;
+  }
+  writer.truncated ||= cut;
+
+  return {
+    format,
+    text: writer.text,
+    sections: writer.sections,
+    truncated: writer.truncated,
+    page_count: pageCount
+  };
+}
+
+/**
+ * A one-line description of what was extracted, for the file's analysis
+ */
+export function describeExtraction(result: ExtractionResult, sizeBytes: number): string {
+  const parts = [FORMAT_LABELS[result.format]];
+  if (result.page_count !== null) {
+    parts.push(`${result.page_count} ${result.page_count === 1 ? 'page' : 'pages'}`);
+  }
+  parts.push(`${Math.floor(sizeBytes / 1024)}KB`);
+
+  let description = `${parts.join(', ')}: ${result.text.length} characters in ${result.sections.length} ` +
+    (result.sections.length === 1 ? 'section' : 'sections');
+  if (result.truncated) {
+    description += `, cut off at ${MAX_EXTRACTED_CHARS} characters`;
+  }
+  if (!result.text && result.format === 'pdf') {
+    description += '. It has no text layer, so it may be a scan';
+  }
+  return description;
+}
+
+/**
+ * As many whole sections as fit in maxChars, starting from the first, with a note naming the
+ * sections left out. A first section longer than maxChars is cut.
+ */
+export function excerptForPrompt(result: Pick<ExtractionResult, 'text' | 'sections' | 'truncated'>, maxChars: number): string {
+  if (result.text.length <= maxChars) {
+    return result.truncated ? `${result.text}\n[The rest of the document was not extracted]` : result.text;
+  }
+
+  const included = result.sections.filter(section => section.end <= maxChars);
+  const end = included.length > 0 ? included[included.length - 1].end : maxChars;
+  const omitted = result.sections.slice(included.length).map(section => section.label);
+
+  const shown = omitted.slice(0, 20).join(', ') + (omitted.length > 20 ? ` and ${omitted.length - 20} more` : '');
+  return `${result.text.slice(0, end)}\n[Showing ${end} of ${result.text.length} characters; not shown: ${shown}]`;
+}
@@ -1,16 +1,103 @@
 import { Hono } from 'npm:hono';
+import type { Context } from 'npm:hono';
 import { cors } from 'npm:hono/cors';
 import { logger } from 'npm:hono/logger';
-import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { streamSSE } from 'npm:hono/streaming';
+import { createClient, SupabaseClient, User } from 'npm:@supabase/supabase-js@2';
 import * as kv from './kv_store.tsx';
-
-const app = new Hono();
+import {
+  resolveProvider,
+  LLMFallback,
+  LLMMessage,
+  LLMRequest,
+  LLMSelection,
+  LLMSelectionError,
+  LLMStreamInterruptedError,
+  ResolvedProvider,
+  streamWithFallback
+} from './llm_providers.tsx';
+import { appendToLedger, verifyEntrySignature, verifyLedger, LedgerConflictError } from './npr_ledger.tsx';
+import { idempotency, reencryptIdempotencyRecords } from './npr_idempotency.tsx';
+import {
+  AssessmentSessionError,
+  checkpointSession,
+  completeSession,
+  discardSession,
+  loadOpenSession,
+  startSession
+} from './npr_assessment_sessions.tsx';
+import { loadInsights, recordAssessment } from './npr_reassessment.tsx';
+import { emptyProfileDocument, loadProfileDocument, saveProfileDocument } from './npr_profile_schema.tsx';
+import { validateProfile } from './npr_profile_validation.tsx';
+import {
+  decryptDeep,
+  encryptConversation,
+  encryptEntry,
+  encryptFileText,
+  encryptInteraction,
+  encryptNPRProfile,
+  EncryptionError,
+  Keyring,
+  rewrapDataKeys,
+  rotateDataKey
+} from './npr_encryption.tsx';
+import {
+  ConsentType,
+  ConsentValidationError,
+  consentGuard,
+  hasConsent,
+  loadConsent,
+  loadConsentHistory,
+  profileForAI,
+  updateConsent
+} from './npr_consent.tsx';
+import { buildExport, verifyExport } from './npr_export.tsx';
+import { loadFileKeys, loadRecordsByPrefix } from './npr_kv_query.tsx';
+import {
+  describeExtraction,
+  excerptForPrompt,
+  extractDocumentText,
+  ExtractionResult,
+  fileTextKey
+} from './file_extraction.tsx';
+import {
+  cancelDeletion,
+  DeletionError,
+  getDeletion,
+  processDueDeletions,
+  requestDeletion
+} from './npr_deletion.tsx';
+import { signData } from './npr_signatures.tsx';
+import {
+  applyTaskUpdates,
+  assertTaskUpdates,
+  loadTasks,
+  prepareNewTask,
+  reorderTasks,
+  saveTasks,
+  TaskValidationError
+} from './npr_tasks.tsx';
+import {
+  createSeries,
+  expandSeries,
+  instanceId,
+  isValidDate,
+  loadSeries,
+  occursOn,
+  saveSeries,
+  skipDeletedInstances,
+  syncCompletions,
+  todayUTC,
+  withStreak
+} from './npr_recurrence.tsx';
+
+const app = new Hono<{ Variables: { user: User } }>();
 
 // Enable CORS and logging
 app.use('*', cors({
   origin: '*',
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization'],
+  allowHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key'],
 }));
 
 app.use('*', logger(console.log));
@@ -34,49 +121,123 @@ function getSupabaseClient(): SupabaseClient {
 
 const supabase = getSupabaseClient();
 
+const UPLOAD_BUCKET = 'make-feeffd69-uploads';
+
+// Routes that can be called without a session. Admin routes check the service role key themselves.
+const PUBLIC_ROUTES = new Set([
+  '/make-server-feeffd69/health',
+  '/make-server-feeffd69/auth/signup',
+  '/make-server-feeffd69/admin/process-deletions',
+  '/make-server-feeffd69/admin/rotate-data-key',
+  '/make-server-feeffd69/admin/rewrap-data-keys'
+]);
+
+function isServiceRoleRequest(c: Context): boolean {
+  const token = c.req.header('Authorization')?.split(' ')[1];
+  return !!token && token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+}
+
+// Verify the bearer token once for every route and put its user on the context. Routes act on
+// c.get('user') only; a userId in the request body is ignored.
+app.use('*', async (c, next) => {
+  if (PUBLIC_ROUTES.has(c.req.path)) {
+    return next();
+  }
+
+  const accessToken = c.req.header('Authorization')?.split(' ')[1];
+  if (!accessToken) {
+    return c.json({ error: 'Authorization required' }, 401);
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(accessToken);
+  if (error || !user) {
+    return c.json({ error: 'Invalid or expired token' }, 401);
+  }
+
+  c.set('user', user);
+  await next();
+});
+
+// Routes that cannot run at all without a consent. Routes that can run with less (AI responses
+// without the profile, no interaction log) check consent themselves.
+const CONSENT_GUARDED_ROUTES: Record<string, ConsentType> = {
+  'save-entry': 'dataCollection',
+  'save-psychometric-assessment': 'dataCollection',
+  'start-assessment-session': 'dataCollection',
+  'checkpoint-assessment-session': 'dataCollection',
+  'complete-assessment-session': 'dataCollection',
+  'get-insights': 'cognitiveInsights'
+};
+
+for (const [route, consentType] of Object.entries(CONSENT_GUARDED_ROUTES)) {
+  app.use(`/make-server-feeffd69/npr/${route}`, consentGuard(consentType));
+}
+
+// Mutating routes replay their stored response when a client retries with the same Idempotency-Key
+const IDEMPOTENT_ROUTES = [
+  'save-entry',
+  'request-deletion',
+  'cancel-deletion',
+  'update-consent',
+  'save-psychometric-assessment',
+  'start-assessment-session',
+  'checkpoint-assessment-session',
+  'complete-assessment-session',
+  'discard-assessment-session',
+  'generate-ai-response',
+  'generate-ai-response-with-files',
+  'generate-tasks',
+  'generate-enhanced-tasks',
+  'save-task',
+  'update-task',
+  'delete-task',
+  'reorder-tasks',
+  'bulk-update-tasks',
+  'bulk-delete-tasks',
+  'create-recurring-task',
+  'skip-occurrence',
+  'snooze-occurrence',
+  'delete-task-series'
+];
+
+for (const route of IDEMPOTENT_ROUTES) {
+  app.use(`/make-server-feeffd69/npr/${route}`, idempotency());
+}
+
 // Health check endpoint
 app.get('/make-server-feeffd69/health', (c) => {
   return c.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+function entryKey(userId: string, entryId: string): string {
+  return `npr:${userId}:entry:${entryId}`;
+}
+
+function psychometricKey(userId: string): string {
+  return `npr:${userId}:psychometric`;
+}
+
 // NPR Profile endpoints
 app.post('/make-server-feeffd69/npr/save-entry', async (c) => {
   try {
-    // Check for authorization
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader) {
-      return c.json({ error: 'Authorization required' }, 401);
-    }
-
-    const accessToken = authHeader.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: 'Invalid authorization header' }, 401);
-    }
-
-    // Verify the token with Supabase
-    const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken);
-    if (authError || !user) {
-      return c.json({ error: 'Invalid or expired token' }, 401);
-    }
-
-    const { userId, entry } = await c.req.json();
+    const userId = c.get('user').id;
+    const { entry } = await c.req.json();
     
-    if (!userId || !entry) {
-      return c.json({ error: 'Missing userId or entry' }, 400);
+    if (!entry) {
+      return c.json({ error: 'Missing entry' }, 400);
     }
 
-    // Ensure the user can only access their own data
-    if (user.id !== userId) {
-      return c.json({ error: 'Unauthorized access to user data' }, 403);
+    if (!entry.id || !(await verifyEntrySignature(entry))) {
+      return c.json({ error: 'Entry signature does not match its content' }, 422);
     }
 
-    // Save entry to KV store
-    const key = `npr:${userId}:entry:${entry.id}`;
-    await kv.set(key, entry);
+    // Encrypt and load everything first: once the entry is in the ledger it must also be stored,
+    // or /npr/verify reports it as tampered and every retry is a ledger conflict
+    const keyring = new Keyring(userId);
+    const storedEntry = await encryptEntry(keyring, entry);
 
     // Update user profile entries list
-    const profileKey = `npr:${userId}:profile`;
-    let profile = await kv.get(profileKey) || { entries: {}, allEntries: [] };
+    let profile = await loadProfileDocument(userId, keyring) || emptyProfileDocument();
     
     // Add to type-specific entry
     profile.entries[entry.type] = entry;
@@ -85,48 +246,42 @@ app.post('/make-server-feeffd69/npr/save-entry', async (c) => {
     if (!profile.allEntries) profile.allEntries = [];
     profile.allEntries.push(entry);
 
-    await kv.set(profileKey, profile);
+    // Record the entry in the append-only ledger before storing it
+    let ledgerResult;
+    try {
+      ledgerResult = await appendToLedger(userId, [entry]);
+    } catch (error) {
+      if (error instanceof LedgerConflictError) {
+        return c.json({ error: error.message }, 409);
+      }
+      throw error;
+    }
+
+    // Save entry to KV store, its sensitive fields encrypted
+    await kv.set(entryKey(userId, entry.id), storedEntry);
+    await saveProfileDocument(userId, profile, keyring);
 
     console.log(`NPR entry saved for user ${userId}: ${entry.type}`);
-    return c.json({ success: true, entry });
+    return c.json({
+      success: true,
+      entry,
+      merkle_root: ledgerResult.ledger.merkle_root,
+      merkle_proof: ledgerResult.proofs[0]
+    });
   } catch (error) {
     console.error('Save NPR entry error:', error);
+    if (error instanceof EncryptionError) {
+      return c.json({ error: 'Entries cannot be stored securely right now' }, 503);
+    }
     return c.json({ error: 'Failed to save entry' }, 500);
   }
 });
 
 app.post('/make-server-feeffd69/npr/get-profile', async (c) => {
   try {
-    // Check for authorization
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader) {
-      return c.json({ error: 'Authorization required' }, 401);
-    }
-
-    const accessToken = authHeader.split(' ')[1];
-    if (!accessToken) {
-      return c.json({ error: 'Invalid authorization header' }, 401);
-    }
-
-    // Verify the token with Supabase
-    const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken);
-    if (authError || !user) {
-      return c.json({ error: 'Invalid or expired token' }, 401);
-    }
-
-    const { userId } = await c.req.json();
-    
-    if (!userId) {
-      return c.json({ error: 'Missing userId' }, 400);
-    }
-
-    // Ensure the user can only access their own data
-    if (user.id !== userId) {
-      return c.json({ error: 'Unauthorized access to user data' }, 403);
-    }
+    const userId = c.get('user').id;
 
-    const profileKey = `npr:${userId}:profile`;
-    const profile = await kv.get(profileKey);
+    const profile = await loadProfileDocument(userId);
 
     if (!profile) {
       return c.json({ 
@@ -139,61 +294,105 @@ app.post('/make-server-feeffd69/npr/get-profile', async (c) => {
       });
     }
 
+    // Attest integrity server-side; proofs are only returned by /npr/verify
+    const verification = await verifyLedger(userId, await collectStoredEntries(userId, profile), []);
+
     console.log(`NPR profile retrieved for user ${userId}`);
-    return c.json({ success: true, profile });
+    return c.json({ success: true, profile, verification });
   } catch (error) {
     console.error('Get NPR profile error:', error);
     return c.json({ error: 'Failed to get profile' }, 500);
   }
 });
 
+// Every stored copy of the user's entries, decrypted: their own keys plus the profile's entry lists
+async function collectStoredEntries(userId: string, profile: any): Promise<any[]> {
+  const entries = await decryptDeep(new Keyring(userId), await kv.getByPrefix(`npr:${userId}:entry:`));
+  return [
+    ...entries,
+    ...(profile?.allEntries || []),
+    ...Object.values(profile?.entries || {})
+  ];
+}
+
+// Integrity verification endpoint
+app.post('/make-server-feeffd69/npr/verify', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { entryIds } = await c.req.json();
+
+    if (entryIds !== undefined && !Array.isArray(entryIds)) {
+      return c.json({ error: 'entryIds must be an array' }, 400);
+    }
+
+    const profile = await loadProfileDocument(userId);
+    const verification = await verifyLedger(userId, await collectStoredEntries(userId, profile), entryIds);
+
+    if (!verification.valid) {
+      console.warn(`NPR integrity check failed for user ${userId}:`, verification.tampered_entry_ids);
+    }
+
+    return c.json({ success: true, ...verification });
+  } catch (error) {
+    console.error('Verify NPR integrity error:', error);
+    return c.json({ error: 'Failed to verify integrity' }, 500);
+  }
+});
+
+// Record a prompt and its reply; both are encrypted, since a prompt can say anything
+async function logInteraction(userId: string, interaction: Record<string, unknown>) {
+  await kv.set(`npr:${userId}:interaction:${Date.now()}`, await encryptInteraction(new Keyring(userId), interaction));
+}
+
 // AI Response Generation endpoint
 app.post('/make-server-feeffd69/npr/generate-ai-response', async (c) => {
   try {
-    const { userId, prompt } = await c.req.json();
+    const userId = c.get('user').id;
+    const { prompt, provider, model } = await c.req.json();
     
-    if (!userId || !prompt) {
-      return c.json({ error: 'Missing userId or prompt' }, 400);
+    if (!prompt) {
+      return c.json({ error: 'Missing prompt' }, 400);
     }
 
-    // Get user's NPR profile for context
-    const profileKey = `npr:${userId}:profile`;
-    const profile = await kv.get(profileKey);
+    // Get user's NPR profile for context, if they allow it to be used
+    const consent = await loadConsent(userId);
+    const profile = profileForAI(await loadProfileDocument(userId), consent);
 
-    // Generate contextual response using OpenAI
-    const openaiResponse = await generateOpenAIResponse(prompt, profile);
+    // Generate contextual response using the selected LLM provider
+    const aiResponse = await generateAIResponse(prompt, profile, { llm: { provider, model } });
 
     // Log the interaction
-    const interactionKey = `npr:${userId}:interaction:${Date.now()}`;
-    await kv.set(interactionKey, {
-      prompt,
-      response: openaiResponse,
-      timestamp: new Date().toISOString()
-    });
+    if (hasConsent(consent, 'dataCollection')) {
+      await logInteraction(userId, {
+        prompt,
+        response: aiResponse.content,
+        provider: aiResponse.provider,
+        model: aiResponse.model,
+        fallback: aiResponse.fallback,
+        timestamp: new Date().toISOString()
+      });
+    }
 
     return c.json({ 
       success: true, 
-      response: openaiResponse,
-      content: openaiResponse 
+      response: aiResponse.content,
+      content: aiResponse.content,
+      provider: aiResponse.provider,
+      model: aiResponse.model,
+      fallback: aiResponse.fallback
     });
   } catch (error) {
+    if (error instanceof LLMSelectionError) {
+      return c.json({ error: error.message }, error.status);
+    }
     console.error('Generate AI response error:', error);
     return c.json({ error: 'Failed to generate AI response' }, 500);
   }
 });
 
-// OpenAI Response Generation Function
-async function generateOpenAIResponse(prompt: string, profile: any): Promise<string> {
-  try {
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-    
-    if (!openaiApiKey) {
-      console.warn('OpenAI API key not found, using fallback response');
-      return generateFallbackResponse(prompt, profile);
-    }
-
-    // Build context from NPR profile
-    let systemPrompt = `You are akilii™, an NPR-enhanced AI companion designed to provide personalized, cognitively-adaptive responses. You help users achieve their goals through thoughtful guidance.
+// Build the akilii™ system prompt from the user's stored NPR profile
+function buildSystemPrompt(profile: any): string {
+  let systemPrompt = `You are akilii™, an NPR-enhanced AI companion designed to provide personalized, cognitively-adaptive responses. You help users achieve their goals through thoughtful guidance.
 
 Brand Identity:
 - You represent akilii™ with the slogan "AI for every unique mind"
@@ -202,62 +401,71 @@ Brand Identity:
 
 `;
 
-    if (profile && profile.entries) {
-      if (profile.entries.goal) {
-        systemPrompt += `User's Primary Goal: ${profile.entries.goal.content}\n`;
-      }
-      if (profile.entries.challenge) {
-        systemPrompt += `User's Current Challenge: ${profile.entries.challenge.content}\n`;
-      }
-      if (profile.entries.strength) {
-        systemPrompt += `User's Key Strength: ${profile.entries.strength.content}\n`;
-      }
-      if (profile.profile?.comm_preference) {
-        const commStyle = profile.profile.comm_preference;
-        systemPrompt += `Communication Style: ${commStyle === 'direct' ? 'Direct and straightforward' : 'Analogical with examples and metaphors'}\n`;
-      }
+  if (profile && profile.entries) {
+    if (profile.entries.goal) {
+      systemPrompt += `User's Primary Goal: ${profile.entries.goal.content}\n`;
+    }
+    if (profile.entries.challenge) {
+      systemPrompt += `User's Current Challenge: ${profile.entries.challenge.content}\n`;
+    }
+    if (profile.entries.strength) {
+      systemPrompt += `User's Key Strength: ${profile.entries.strength.content}\n`;
+    }
+    if (profile.profile?.comm_preference) {
+      const commStyle = profile.profile.comm_preference;
+      systemPrompt += `Communication Style: ${commStyle === 'direct' ? 'Direct and straightforward' : 'Analogical with examples and metaphors'}\n`;
     }
+  }
 
-    systemPrompt += `
+  systemPrompt += `
 Respond in a helpful, supportive manner that acknowledges the user's unique cognitive profile. Keep responses conversational, insightful, and actionable.`;
 
-    const requestBody = {
-      model: "gpt-3.5-turbo",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: prompt }
-      ],
-      max_tokens: 500,
-      temperature: 0.7
-    };
+  return systemPrompt;
+}
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${openaiApiKey}`
-      },
-      body: JSON.stringify(requestBody)
-    });
+type ChatHistory = Array<{ role: 'user' | 'assistant'; content: string }>;
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('OpenAI API error:', response.status, errorData);
-      return generateFallbackResponse(prompt, profile);
-    }
+interface AIResponse {
+  content: string;
+  provider: string;
+  model: string;
+  // Set when the reply is not from the provider that was asked for or configured
+  fallback: LLMFallback | null;
+}
 
-    const data = await response.json();
-    
-    if (data.choices && data.choices[0] && data.choices[0].message) {
-      return data.choices[0].message.content.trim();
-    } else {
-      console.error('Unexpected OpenAI response format:', data);
-      return generateFallbackResponse(prompt, profile);
-    }
+// Answers when the provider fails; the reply is flagged with fallback 'provider_error'
+const FALLBACK_PROVIDER = { provider: 'fallback', model: 'keyword-matching', fallback: 'provider_error' as LLMFallback };
+
+function buildLLMRequest(
+  prompt: string,
+  profile: any,
+  model: string,
+  history: ChatHistory = [],
+  signal?: AbortSignal
+): LLMRequest {
+  const messages: LLMMessage[] = [
+    { role: 'system', content: buildSystemPrompt(profile) },
+    ...history.map(turn => ({ role: turn.role, content: turn.content })),
+    { role: 'user', content: prompt }
+  ];
+
+  return { model, messages, maxTokens: 500, temperature: 0.7, signal };
+}
+
+// AI Response Generation Function - routed through the selected LLM provider
+async function generateAIResponse(
+  prompt: string,
+  profile: any,
+  options: { history?: ChatHistory; llm?: LLMSelection } = {}
+): Promise<AIResponse> {
+  const { provider, model, fallback } = resolveProvider(options.llm);
 
+  try {
+    const content = await provider.complete(buildLLMRequest(prompt, profile, model, options.history));
+    return { content, provider: provider.name, model, fallback };
   } catch (error) {
-    console.error('OpenAI request failed:', error);
-    return generateFallbackResponse(prompt, profile);
+    console.error(`LLM request failed (${provider.name}/${model}), using fallback response:`, error);
+    return { content: generateFallbackResponse(prompt, profile), ...FALLBACK_PROVIDER };
   }
 }
 
@@ -320,45 +528,460 @@ function generateFallbackResponse(prompt: string, profile: any): string {
   return response;
 }
 
+// Streaming AI Response Generation Function - yields content tokens as they arrive; onFallback is
+// called when the provider fails before its first token and the fallback response is streamed instead
+function streamProviderResponse(
+  resolved: ResolvedProvider,
+  prompt: string,
+  profile: any,
+  options: { history?: ChatHistory; signal?: AbortSignal; onFallback?: () => void } = {}
+): AsyncGenerator<string> {
+  const { provider, model } = resolved;
+  return streamWithFallback(
+    provider,
+    buildLLMRequest(prompt, profile, model, options.history, options.signal),
+    () => streamFallbackResponse(prompt, profile),
+    options.onFallback
+  );
+}
+
+// Stream the fallback response word by word so clients render it the same way
+async function* streamFallbackResponse(prompt: string, profile: any): AsyncGenerator<string> {
+  const response = generateFallbackResponse(prompt, profile);
+
+  for (const chunk of response.match(/\S+\s*/g) || []) {
+    await new Promise(resolve => setTimeout(resolve, 30));
+    yield chunk;
+  }
+}
+
+// Write an AI response to the client as server-sent events and log the completed interaction.
+// onComplete runs once the full reply is known; the fields it returns are added to the done event
+function streamAIResponseSSE(
+  c: any,
+  userId: string,
+  prompt: string,
+  profile: any,
+  options: {
+    // The prompt as the user wrote it, logged in place of a prompt that has file text added
+    loggedPrompt?: string;
+    fileIds?: string[];
+    history?: ChatHistory;
+    llm?: LLMSelection;
+    logInteraction?: boolean;
+    onComplete?: (
+      content: string,
+      info: { provider: string; model: string; fallback: LLMFallback | null }
+    ) => Promise<Record<string, unknown>>;
+  } = {}
+) {
+  // Resolved before the stream opens, so a bad provider or model is still a plain 400
+  const resolved = resolveProvider(options.llm);
+  let providerInfo = { provider: resolved.provider.name, model: resolved.model, fallback: resolved.fallback };
+  const useFallback = () => {
+    providerInfo = FALLBACK_PROVIDER;
+  };
+
+  return streamSSE(c, async (stream) => {
+    const controller = new AbortController();
+    stream.onAbort(() => controller.abort());
+
+    let fullResponse = '';
+
+    try {
+      const tokens = streamProviderResponse(resolved, prompt, profile, {
+        history: options.history,
+        signal: controller.signal,
+        onFallback: useFallback
+      });
+
+      for await (const token of tokens) {
+        if (controller.signal.aborted) break;
+        fullResponse += token;
+        await stream.writeSSE({ event: 'token', data: JSON.stringify({ content: token }) });
+      }
+
+      if (controller.signal.aborted) {
+        console.log(`AI response stream cancelled by client for user ${userId}`);
+        return;
+      }
+
+      const content = fullResponse.trim();
+
+      // Log the interaction
+      if (options.logInteraction) {
+        await logInteraction(userId, {
+          prompt: options.loggedPrompt ?? prompt,
+          response: content,
+          ...(options.fileIds ? { fileIds: options.fileIds } : {}),
+          ...providerInfo,
+          streamed: true,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const completion = options.onComplete ? await options.onComplete(content, providerInfo) : {};
+
+      await stream.writeSSE({
+        event: 'done',
+        data: JSON.stringify({ success: true, content, ...providerInfo, ...completion })
+      });
+    } catch (error) {
+      // A reply cut off part-way is neither logged nor saved; the client keeps it marked as incomplete
+      if (error instanceof LLMStreamInterruptedError) {
+        await stream.writeSSE({
+          event: 'error',
+          data: JSON.stringify({ error: 'The reply was cut off before it finished' })
+        });
+        return;
+      }
+      console.error('Stream AI response error:', error);
+      await stream.writeSSE({ event: 'error', data: JSON.stringify({ error: 'Failed to generate AI response' }) });
+    }
+  });
+}
+
+// Chat endpoints
+const MAX_CHAT_CONTEXT_TURNS = 20;
+
+interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  provider?: string;
+  model?: string;
+  fallback?: LLMFallback | null;
+}
+
+interface ChatConversation {
+  id: string;
+  title: string;
+  messages: ChatTurn[];
+  created_at: string;
+  updated_at: string;
+}
+
+function isValidChatId(chatId: unknown): chatId is string {
+  return typeof chatId === 'string' && /^[A-Za-z0-9_-]{1,128}$/.test(chatId);
+}
+
+function chatKey(userId: string, chatId: string): string {
+  return `npr:${userId}:chat:${chatId}`;
+}
+
+// Conversations are stored with their title and messages encrypted
+async function loadConversation(keyring: Keyring, key: string): Promise<ChatConversation | null> {
+  return decryptDeep(keyring, await kv.get(key));
+}
+
+async function saveConversation(keyring: Keyring, key: string, conversation: ChatConversation) {
+  await kv.set(key, await encryptConversation(keyring, conversation));
+}
+
+function summarizeConversation(conversation: ChatConversation) {
+  const lastTurn = conversation.messages[conversation.messages.length - 1];
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    message_count: conversation.messages.length,
+    last_message: lastTurn ? lastTurn.content.substring(0, 120) : null,
+    created_at: conversation.created_at,
+    updated_at: conversation.updated_at
+  };
+}
+
+interface ChatTurnContext {
+  keyring: Keyring;
+  key: string;
+  chatId: string;
+  message: string;
+  conversation: ChatConversation;
+  consent: any;
+  profile: any;
+  history: ChatHistory;
+  now: string;
+}
+
+// Load (or seed) the conversation a chat message belongs to, with the profile and context turns
+// the reply is generated from; returns an error message when the request body is invalid
+async function prepareChatTurn(userId: string, body: any): Promise<ChatTurnContext | { error: string }> {
+  const { message, chatId, history } = body ?? {};
+
+  if (!message || typeof message !== 'string') {
+    return { error: 'Missing message' };
+  }
+
+  if (!isValidChatId(chatId)) {
+    return { error: 'Invalid chatId' };
+  }
+
+  const keyring = new Keyring(userId);
+  const key = chatKey(userId, chatId);
+  const now = new Date().toISOString();
+  let conversation = await loadConversation(keyring, key);
+
+  if (!conversation) {
+    // Seed a brand-new conversation with whatever history the client already shows
+    const seededHistory: ChatTurn[] = Array.isArray(history)
+      ? history
+          .filter((turn: any) => (turn?.role === 'user' || turn?.role === 'assistant') && typeof turn.content === 'string')
+          .map((turn: any) => ({ role: turn.role, content: turn.content, timestamp: now }))
+      : [];
+
+    conversation = {
+      id: chatId,
+      title: message.trim().substring(0, 60) || 'New conversation',
+      messages: seededHistory,
+      created_at: now,
+      updated_at: now
+    };
+  }
+
+  // Get user's NPR profile for context, if they allow it to be used
+  const consent = await loadConsent(userId);
+  const profile = profileForAI(await loadProfileDocument(userId), consent);
+
+  const context = conversation.messages
+    .slice(-MAX_CHAT_CONTEXT_TURNS)
+    .map(turn => ({ role: turn.role, content: turn.content }));
+
+  return { keyring, key, chatId, message, conversation, consent, profile, history: context, now };
+}
+
+// Append the exchange to the conversation and return the fields chat responses share
+async function recordChatTurn(
+  turn: ChatTurnContext,
+  text: string,
+  info: { provider: string; model: string; fallback: LLMFallback | null }
+) {
+  const { conversation } = turn;
+
+  conversation.messages.push(
+    { role: 'user', content: turn.message, timestamp: turn.now },
+    {
+      role: 'assistant',
+      content: text,
+      timestamp: new Date().toISOString(),
+      provider: info.provider,
+      model: info.model,
+      fallback: info.fallback
+    }
+  );
+  conversation.updated_at = new Date().toISOString();
+
+  // Without consent to store data the conversation lives only in the client's history
+  if (hasConsent(turn.consent, 'dataCollection')) {
+    await saveConversation(turn.keyring, turn.key, conversation);
+  }
+
+  return {
+    chatId: turn.chatId,
+    npr_adapted: !!(turn.profile?.entries && Object.keys(turn.profile.entries).length > 0) || !!turn.profile?.profile,
+    provider: info.provider,
+    model: info.model,
+    fallback: info.fallback,
+    timestamp: conversation.updated_at
+  };
+}
+
+app.post('/make-server-feeffd69/chat', async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+
+    const turn = await prepareChatTurn(user.id, body);
+    if ('error' in turn) {
+      return c.json({ success: false, error: turn.error }, 400);
+    }
+
+    const aiResponse = await generateAIResponse(turn.message, turn.profile, {
+      history: turn.history,
+      llm: { provider: body.provider, model: body.model }
+    });
+    const text = aiResponse.content;
+
+    return c.json({
+      success: true,
+      text,
+      ...await recordChatTurn(turn, text, aiResponse)
+    });
+  } catch (error) {
+    if (error instanceof LLMSelectionError) {
+      return c.json({ success: false, error: error.message }, error.status);
+    }
+    console.error('Chat error:', error);
+    return c.json({ success: false, error: 'Failed to process chat message' }, 500);
+  }
+});
+
+// Streaming variant of /chat: tokens arrive as server-sent events, and the exchange is saved
+// once the reply is complete
+app.post('/make-server-feeffd69/chat-stream', async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+
+    const turn = await prepareChatTurn(user.id, body);
+    if ('error' in turn) {
+      return c.json({ success: false, error: turn.error }, 400);
+    }
+
+    return streamAIResponseSSE(c, user.id, turn.message, turn.profile, {
+      history: turn.history,
+      llm: { provider: body.provider, model: body.model },
+      onComplete: (content, info) => recordChatTurn(turn, content, info)
+    });
+  } catch (error) {
+    if (error instanceof LLMSelectionError) {
+      return c.json({ success: false, error: error.message }, error.status);
+    }
+    console.error('Chat stream error:', error);
+    return c.json({ success: false, error: 'Failed to process chat message' }, 500);
+  }
+});
+
+app.get('/make-server-feeffd69/chat/conversations', async (c) => {
+  try {
+    const user = c.get('user');
+
+    const conversations: ChatConversation[] = await decryptDeep(
+      new Keyring(user.id),
+      await kv.getByPrefix(`npr:${user.id}:chat:`)
+    );
+    const summaries = conversations
+      .map(summarizeConversation)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+
+    return c.json({ success: true, conversations: summaries });
+  } catch (error) {
+    console.error('List conversations error:', error);
+    return c.json({ success: false, error: 'Failed to list conversations' }, 500);
+  }
+});
+
+app.get('/make-server-feeffd69/chat/conversations/:chatId', async (c) => {
+  try {
+    const user = c.get('user');
+
+    const chatId = c.req.param('chatId');
+    if (!isValidChatId(chatId)) {
+      return c.json({ success: false, error: 'Invalid chatId' }, 400);
+    }
+
+    const conversation = await loadConversation(new Keyring(user.id), chatKey(user.id, chatId));
+    if (!conversation) {
+      return c.json({ success: false, error: 'Conversation not found' }, 404);
+    }
+
+    return c.json({ success: true, conversation });
+  } catch (error) {
+    console.error('Get conversation error:', error);
+    return c.json({ success: false, error: 'Failed to get conversation' }, 500);
+  }
+});
+
+app.put('/make-server-feeffd69/chat/conversations/:chatId', async (c) => {
+  try {
+    const user = c.get('user');
+
+    const chatId = c.req.param('chatId');
+    if (!isValidChatId(chatId)) {
+      return c.json({ success: false, error: 'Invalid chatId' }, 400);
+    }
+
+    const { title } = await c.req.json();
+    if (!title || typeof title !== 'string' || !title.trim()) {
+      return c.json({ success: false, error: 'Missing title' }, 400);
+    }
+
+    const keyring = new Keyring(user.id);
+    const key = chatKey(user.id, chatId);
+    const conversation = await loadConversation(keyring, key);
+    if (!conversation) {
+      return c.json({ success: false, error: 'Conversation not found' }, 404);
+    }
+
+    conversation.title = title.trim().substring(0, 120);
+    conversation.updated_at = new Date().toISOString();
+    await saveConversation(keyring, key, conversation);
+
+    return c.json({ success: true, conversation: summarizeConversation(conversation) });
+  } catch (error) {
+    console.error('Rename conversation error:', error);
+    return c.json({ success: false, error: 'Failed to rename conversation' }, 500);
+  }
+});
+
+app.delete('/make-server-feeffd69/chat/conversations/:chatId', async (c) => {
+  try {
+    const user = c.get('user');
+
+    const chatId = c.req.param('chatId');
+    if (!isValidChatId(chatId)) {
+      return c.json({ success: false, error: 'Invalid chatId' }, 400);
+    }
+
+    const key = chatKey(user.id, chatId);
+    const conversation = await kv.get(key);
+    if (!conversation) {
+      return c.json({ success: false, error: 'Conversation not found' }, 404);
+    }
+
+    await kv.del(key);
+
+    return c.json({ success: true, chatId });
+  } catch (error) {
+    console.error('Delete conversation error:', error);
+    return c.json({ success: false, error: 'Failed to delete conversation' }, 500);
+  }
+});
+
 // Task endpoints
 app.post('/make-server-feeffd69/npr/generate-tasks', async (c) => {
   try {
-    const { userId, profile } = await c.req.json();
+    const userId = c.get('user').id;
+    const { profile } = await c.req.json();
     
-    if (!userId || !profile) {
-      return c.json({ error: 'Missing userId or profile' }, 400);
+    if (!profile) {
+      return c.json({ error: 'Missing profile' }, 400);
     }
 
     // Generate AI-powered tasks based on profile
-    const tasks = await generatePersonalizedTasks(profile);
+    const tasks = await Promise.all((await generatePersonalizedTasks(profile)).map(prepareNewTask));
 
     // Save tasks to KV store
-    const tasksKey = `npr:${userId}:tasks`;
-    let existingTasks = await kv.get(tasksKey) || [];
+    const existingTasks = await loadTasks(userId);
     
     // Add new tasks
-    const updatedTasks = [...existingTasks, ...tasks];
-    await kv.set(tasksKey, updatedTasks);
+    const updatedTasks = await saveTasks(userId, [...existingTasks, ...tasks]);
 
-    return c.json({ success: true, tasks });
+    return c.json({ success: true, tasks: updatedTasks.slice(existingTasks.length) });
   } catch (error) {
     console.error('Generate tasks error:', error);
     return c.json({ error: 'Failed to generate tasks' }, 500);
   }
 });
 
+// `date` is the client's local calendar day; recurring series are expanded for it
 app.post('/make-server-feeffd69/npr/get-tasks', async (c) => {
   try {
-    const { userId } = await c.req.json();
+    const userId = c.get('user').id;
+    const { date } = await c.req.json();
     
-    if (!userId) {
-      return c.json({ error: 'Missing userId' }, 400);
-    }
+    const today = isValidDate(date) ? date : todayUTC();
+    const series = await loadSeries(userId);
+    let tasks = await loadTasks(userId);
 
-    const tasksKey = `npr:${userId}:tasks`;
-    const tasks = await kv.get(tasksKey) || [];
+    const dueInstances = await expandSeries(series, tasks, today);
+    if (dueInstances.length > 0) {
+      tasks = await saveTasks(userId, [...dueInstances, ...tasks]);
+    }
 
-    return c.json({ success: true, tasks });
+    return c.json({
+      success: true,
+      tasks,
+      series: series.map(entry => withStreak(entry, today))
+    });
   } catch (error) {
     console.error('Get tasks error:', error);
     return c.json({ error: 'Failed to get tasks' }, 500);
@@ -367,20 +990,26 @@ app.post('/make-server-feeffd69/npr/get-tasks', async (c) => {
 
 app.post('/make-server-feeffd69/npr/save-task', async (c) => {
   try {
-    const { userId, task } = await c.req.json();
+    const userId = c.get('user').id;
+    const { task } = await c.req.json();
     
-    if (!userId || !task) {
-      return c.json({ error: 'Missing userId or task' }, 400);
+    if (!task) {
+      return c.json({ error: 'Missing task' }, 400);
     }
 
-    const tasksKey = `npr:${userId}:tasks`;
-    let tasks = await kv.get(tasksKey) || [];
-    
-    tasks.push(task);
-    await kv.set(tasksKey, tasks);
+    const tasks = await loadTasks(userId);
+    if (tasks.some((t: any) => t.id === task.id)) {
+      return c.json({ error: 'Task already exists' }, 409);
+    }
+
+    // New tasks go to the top of the list
+    const savedTasks = await saveTasks(userId, [await prepareNewTask(task), ...tasks]);
 
-    return c.json({ success: true, task });
+    return c.json({ success: true, task: savedTasks[0] });
   } catch (error) {
+    if (error instanceof TaskValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
     console.error('Save task error:', error);
     return c.json({ error: 'Failed to save task' }, 500);
   }
@@ -388,88 +1017,658 @@ app.post('/make-server-feeffd69/npr/save-task', async (c) => {
 
 app.post('/make-server-feeffd69/npr/update-task', async (c) => {
   try {
-    const { userId, taskId, updates } = await c.req.json();
+    const userId = c.get('user').id;
+    const { taskId, updates } = await c.req.json();
     
-    if (!userId || !taskId || !updates) {
+    if (!taskId || !updates) {
       return c.json({ error: 'Missing required parameters' }, 400);
     }
 
-    const tasksKey = `npr:${userId}:tasks`;
-    let tasks = await kv.get(tasksKey) || [];
+    const tasks = await loadTasks(userId);
     
     const taskIndex = tasks.findIndex((t: any) => t.id === taskId);
     if (taskIndex === -1) {
       return c.json({ error: 'Task not found' }, 404);
     }
 
-    tasks[taskIndex] = { ...tasks[taskIndex], ...updates };
-    await kv.set(tasksKey, tasks);
+    tasks[taskIndex] = await applyTaskUpdates(tasks[taskIndex], updates);
+    const savedTasks = await saveTasks(userId, tasks);
+
+    const series = await loadSeries(userId);
+    if (syncCompletions(series, [tasks[taskIndex]])) {
+      await saveSeries(userId, series);
+    }
 
-    return c.json({ success: true, task: tasks[taskIndex] });
+    return c.json({ success: true, task: savedTasks[taskIndex] });
   } catch (error) {
+    if (error instanceof TaskValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
     console.error('Update task error:', error);
     return c.json({ error: 'Failed to update task' }, 500);
   }
 });
 
-// Psychometric Assessment endpoint
-app.post('/make-server-feeffd69/npr/save-psychometric-assessment', async (c) => {
+app.post('/make-server-feeffd69/npr/delete-task', async (c) => {
   try {
-    const { userId, profile } = await c.req.json();
+    const userId = c.get('user').id;
+    const { taskId } = await c.req.json();
     
-    if (!userId || !profile) {
-      return c.json({ error: 'Missing userId or profile' }, 400);
+    if (!taskId) {
+      return c.json({ error: 'Missing taskId' }, 400);
     }
 
-    // Save comprehensive profile
-    const profileKey = `npr:${userId}:profile`;
-    let existingProfile = await kv.get(profileKey) || { entries: {}, allEntries: [] };
-    
-    // Update with psychometric data
-    existingProfile.profile = profile;
-    existingProfile.psychometric_battery = {
-      completion_status: {
-        cognitive_assessment: !!profile.cognitive_assessment,
-        personality_profile: !!profile.personality_profile,
-        emotional_intelligence: !!profile.emotional_intelligence,
-        standardized_assessments: !!profile.standardized_assessments
-      },
-      last_assessment_date: new Date(),
-      next_scheduled_assessment: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000) // 90 days
-    };
-
-    await kv.set(profileKey, existingProfile);
+    const tasks = await loadTasks(userId);
+    const remainingTasks = tasks.filter((t: any) => t.id !== taskId);
+    if (remainingTasks.length === tasks.length) {
+      return c.json({ error: 'Task not found' }, 404);
+    }
 
-    // Also save as separate psychometric data
-    const psychometricKey = `npr:${userId}:psychometric`;
-    await kv.set(psychometricKey, profile);
+    await saveTasks(userId, remainingTasks);
 
-    console.log('Psychometric assessment saved successfully for user:', userId);
+    const series = await loadSeries(userId);
+    if (skipDeletedInstances(series, tasks.filter((t: any) => t.id === taskId))) {
+      await saveSeries(userId, series);
+    }
 
-    return c.json({ success: true, profile: existingProfile });
+    return c.json({ success: true, taskId });
   } catch (error) {
-    console.error('Save psychometric assessment error:', error);
-    return c.json({ error: 'Failed to save psychometric assessment' }, 500);
+    console.error('Delete task error:', error);
+    return c.json({ error: 'Failed to delete task' }, 500);
   }
 });
 
-// Enhanced tasks generation endpoint
-app.post('/make-server-feeffd69/npr/generate-enhanced-tasks', async (c) => {
+app.post('/make-server-feeffd69/npr/reorder-tasks', async (c) => {
   try {
-    const { userId, profile, tasks } = await c.req.json();
+    const userId = c.get('user').id;
+    const { taskIds } = await c.req.json();
     
-    if (!userId || !profile) {
-      return c.json({ error: 'Missing userId or profile' }, 400);
+    if (!Array.isArray(taskIds)) {
+      return c.json({ error: 'Missing taskIds' }, 400);
     }
 
-    // Save enhanced tasks to KV store
-    const tasksKey = `npr:${userId}:tasks`;
-    let existingTasks = await kv.get(tasksKey) || [];
-    
-    // Add new enhanced tasks
-    const enhancedTasks = tasks || await generatePersonalizedTasks(profile);
-    const updatedTasks = [...existingTasks, ...enhancedTasks];
-    await kv.set(tasksKey, updatedTasks);
+    const tasks = await saveTasks(userId, reorderTasks(await loadTasks(userId), taskIds));
+
+    return c.json({ success: true, tasks });
+  } catch (error) {
+    if (error instanceof TaskValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error('Reorder tasks error:', error);
+    return c.json({ error: 'Failed to reorder tasks' }, 500);
+  }
+});
+
+// Bulk task operations apply to every listed task or none of them
+app.post('/make-server-feeffd69/npr/bulk-update-tasks', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { taskIds, updates } = await c.req.json();
+    
+    if (!Array.isArray(taskIds) || !updates) {
+      return c.json({ error: 'Missing required parameters' }, 400);
+    }
+    assertTaskUpdates(updates);
+
+    const tasks = await loadTasks(userId);
+    const missing = taskIds.filter((id: string) => !tasks.some((t: any) => t.id === id));
+    if (missing.length > 0) {
+      return c.json({ error: `Tasks not found: ${missing.join(', ')}` }, 404);
+    }
+
+    const selected = new Set(taskIds);
+    const updatedTasks = await Promise.all(
+      tasks.map((task: any) => (selected.has(task.id) ? applyTaskUpdates(task, updates) : task))
+    );
+    const savedTasks = await saveTasks(userId, updatedTasks);
+
+    const series = await loadSeries(userId);
+    if (syncCompletions(series, updatedTasks.filter((task: any) => selected.has(task.id)))) {
+      await saveSeries(userId, series);
+    }
+
+    return c.json({
+      success: true,
+      tasks: savedTasks.filter((task: any) => selected.has(task.id))
+    });
+  } catch (error) {
+    if (error instanceof TaskValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error('Bulk update tasks error:', error);
+    return c.json({ error: 'Failed to update tasks' }, 500);
+  }
+});
+
+app.post('/make-server-feeffd69/npr/bulk-delete-tasks', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { taskIds } = await c.req.json();
+    
+    if (!Array.isArray(taskIds)) {
+      return c.json({ error: 'Missing taskIds' }, 400);
+    }
+
+    const selected = new Set(taskIds);
+    const tasks = await loadTasks(userId);
+    const remainingTasks = tasks.filter((t: any) => !selected.has(t.id));
+    await saveTasks(userId, remainingTasks);
+
+    const series = await loadSeries(userId);
+    if (skipDeletedInstances(series, tasks.filter((t: any) => selected.has(t.id)))) {
+      await saveSeries(userId, series);
+    }
+
+    return c.json({
+      success: true,
+      deletedTaskIds: tasks.filter((t: any) => selected.has(t.id)).map((t: any) => t.id)
+    });
+  } catch (error) {
+    console.error('Bulk delete tasks error:', error);
+    return c.json({ error: 'Failed to delete tasks' }, 500);
+  }
+});
+
+// Recurring task endpoints
+app.post('/make-server-feeffd69/npr/create-recurring-task', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { task, recurrence, date } = await c.req.json();
+    
+    if (!task || !recurrence) {
+      return c.json({ error: 'Missing task or recurrence' }, 400);
+    }
+
+    const today = isValidDate(date) ? date : todayUTC();
+    const entry = createSeries(task, recurrence, today);
+
+    const series = await loadSeries(userId);
+    await saveSeries(userId, [...series, entry]);
+
+    const tasks = await loadTasks(userId);
+    const dueInstances = await expandSeries([entry], tasks, today);
+    if (dueInstances.length > 0) {
+      await saveTasks(userId, [...dueInstances, ...tasks]);
+    }
+
+    return c.json({ success: true, series: withStreak(entry, today), tasks: dueInstances });
+  } catch (error) {
+    if (error instanceof TaskValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error('Create recurring task error:', error);
+    return c.json({ error: 'Failed to create recurring task' }, 500);
+  }
+});
+
+// Skip or snooze one occurrence; the series and its streak carry on
+app.post('/make-server-feeffd69/npr/skip-occurrence', async (c) => {
+  return updateOccurrence(c, 'skipped');
+});
+
+app.post('/make-server-feeffd69/npr/snooze-occurrence', async (c) => {
+  return updateOccurrence(c, 'snoozed');
+});
+
+async function updateOccurrence(c: any, status: 'skipped' | 'snoozed') {
+  try {
+    const userId = c.get('user').id;
+    const { seriesId, occurrenceDate, until, date } = await c.req.json();
+    
+    if (!seriesId || !isValidDate(occurrenceDate)) {
+      return c.json({ error: 'Missing seriesId or occurrenceDate' }, 400);
+    }
+
+    if (status === 'snoozed' && (!isValidDate(until) || until <= occurrenceDate)) {
+      return c.json({ error: 'until must be a YYYY-MM-DD date after the occurrence' }, 400);
+    }
+
+    const series = await loadSeries(userId);
+    const entry = series.find(candidate => candidate.id === seriesId);
+    if (!entry) {
+      return c.json({ error: 'Series not found' }, 404);
+    }
+
+    if (!occursOn(entry.recurrence, occurrenceDate)) {
+      return c.json({ error: 'The series has no occurrence on that date' }, 400);
+    }
+
+    if (entry.completed_dates.includes(occurrenceDate)) {
+      return c.json({ error: 'That occurrence is already completed' }, 409);
+    }
+
+    entry.exceptions = {
+      ...entry.exceptions,
+      [occurrenceDate]: status === 'snoozed' ? { status, until } : { status }
+    };
+    await saveSeries(userId, series);
+
+    // Drop the pending instance; a snoozed one comes back when its new date is reached
+    const today = isValidDate(date) ? date : todayUTC();
+    const tasks = (await loadTasks(userId)).filter((t: any) => t.id !== instanceId(seriesId, occurrenceDate));
+    const dueInstances = await expandSeries([entry], tasks, today);
+    const savedTasks = await saveTasks(userId, [...dueInstances, ...tasks]);
+
+    return c.json({ success: true, series: withStreak(entry, today), tasks: savedTasks });
+  } catch (error) {
+    console.error(`Update occurrence (${status}) error:`, error);
+    return c.json({ error: 'Failed to update occurrence' }, 500);
+  }
+}
+
+app.post('/make-server-feeffd69/npr/delete-task-series', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { seriesId } = await c.req.json();
+    
+    if (!seriesId) {
+      return c.json({ error: 'Missing seriesId' }, 400);
+    }
+
+    const series = await loadSeries(userId);
+    const remainingSeries = series.filter(entry => entry.id !== seriesId);
+    if (remainingSeries.length === series.length) {
+      return c.json({ error: 'Series not found' }, 404);
+    }
+    await saveSeries(userId, remainingSeries);
+
+    // Completed instances stay as history; pending ones go with the series
+    const tasks = await loadTasks(userId);
+    const savedTasks = await saveTasks(
+      userId,
+      tasks.filter((t: any) => t.series_id !== seriesId || t.is_completed)
+    );
+
+    return c.json({ success: true, seriesId, tasks: savedTasks });
+  } catch (error) {
+    console.error('Delete task series error:', error);
+    return c.json({ error: 'Failed to delete task series' }, 500);
+  }
+});
+
+// Psychometric Assessment endpoint
+app.post('/make-server-feeffd69/npr/save-psychometric-assessment', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { profile } = await c.req.json();
+    
+    if (!profile) {
+      return c.json({ error: 'Missing profile' }, 400);
+    }
+
+    const issues = validateProfile(profile);
+    if (issues.length > 0) {
+      return c.json({ error: 'Invalid profile', issues }, 400);
+    }
+
+    // Save comprehensive profile
+    let existingProfile = await loadProfileDocument(userId) || emptyProfileDocument();
+    
+    // Snapshot the battery, compare it with the last one and schedule the next
+    const consent = await loadConsent(userId);
+    const reassessment = await recordAssessment(userId, profile, {
+      insights: hasConsent(consent, 'cognitiveInsights')
+    });
+    const nextDue = Object.values<any>(reassessment.schedule)
+      .map(entry => entry.next_due)
+      .sort()[0] ?? null;
+
+    // The trends are added here, so the profile is signed again to cover them
+    const { profile_signature, ...profileData } = profile;
+    profileData.learning_history = {
+      ...profileData.learning_history,
+      performance_trends: reassessment.performance_trends
+    };
+    const signedProfile = { ...profileData, profile_signature: await signData(profileData) };
+
+    // Update with psychometric data
+    existingProfile.profile = signedProfile;
+    existingProfile.psychometric_battery = {
+      completion_status: {
+        cognitive_assessment: !!profile.cognitive_assessment,
+        personality_profile: !!profile.personality_profile,
+        emotional_intelligence: !!profile.emotional_intelligence,
+        standardized_assessments: !!profile.standardized_assessments
+      },
+      last_assessment_date: new Date(),
+      next_scheduled_assessment: nextDue,
+      reassessment_schedule: reassessment.schedule
+    };
+
+    await saveProfileDocument(userId, existingProfile);
+
+    // Also save as separate psychometric data
+    await kv.set(psychometricKey(userId), await encryptNPRProfile(new Keyring(userId), signedProfile));
+
+    console.log('Psychometric assessment saved successfully for user:', userId);
+
+    return c.json({
+      success: true,
+      profile: existingProfile,
+      changes: reassessment.changes,
+      insights: reassessment.insights
+    });
+  } catch (error) {
+    console.error('Save psychometric assessment error:', error);
+    return c.json({ error: 'Failed to save psychometric assessment' }, 500);
+  }
+});
+
+// Consent endpoints
+app.post('/make-server-feeffd69/npr/get-consent', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    return c.json({
+      success: true,
+      consent: await loadConsent(userId),
+      history: await loadConsentHistory(userId)
+    });
+  } catch (error) {
+    console.error('Get consent error:', error);
+    return c.json({ error: 'Failed to get consent' }, 500);
+  }
+});
+
+app.post('/make-server-feeffd69/npr/update-consent', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { grants, source } = await c.req.json();
+
+    const consent = await updateConsent(userId, grants, typeof source === 'string' ? source : 'settings');
+    return c.json({ success: true, consent });
+  } catch (error) {
+    if (error instanceof ConsentValidationError) {
+      return c.json({ error: error.message }, 400);
+    }
+    console.error('Update consent error:', error);
+    return c.json({ error: 'Failed to update consent' }, 500);
+  }
+});
+
+// Everything stored about the user, as a zip archive. Not consent-gated: access is the user's right
+// whatever they have consented to.
+app.post('/make-server-feeffd69/npr/export-data', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { archive, manifest } = await buildExport(supabase, UPLOAD_BUCKET, userId);
+
+    return c.body(archive, 200, {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="akilii-export-${manifest.generated_at.slice(0, 10)}.zip"`
+    });
+  } catch (error) {
+    console.error('Export data error:', error);
+    return c.json({ error: 'Failed to export data' }, 500);
+  }
+});
+
+// Check a Merkle root recomputed from an export archive against the one recorded at export time
+app.post('/make-server-feeffd69/npr/verify-export', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { exportId, merkleRoot } = await c.req.json();
+
+    if (typeof exportId !== 'string' || typeof merkleRoot !== 'string') {
+      return c.json({ error: 'exportId and merkleRoot are required' }, 400);
+    }
+
+    return c.json({ success: true, verification: await verifyExport(userId, exportId, merkleRoot) });
+  } catch (error) {
+    console.error('Verify export error:', error);
+    return c.json({ error: 'Failed to verify export' }, 500);
+  }
+});
+
+// Schedule the user's account and data for deletion after a grace period in which it can be undone
+app.post('/make-server-feeffd69/npr/request-deletion', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { confirmation } = await c.req.json();
+
+    return c.json({ success: true, deletion: await requestDeletion(userId, confirmation) });
+  } catch (error) {
+    if (error instanceof DeletionError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Request deletion error:', error);
+    return c.json({ error: 'Failed to schedule deletion' }, 500);
+  }
+});
+
+app.post('/make-server-feeffd69/npr/cancel-deletion', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    return c.json({ success: true, deletion: await cancelDeletion(userId) });
+  } catch (error) {
+    if (error instanceof DeletionError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Cancel deletion error:', error);
+    return c.json({ error: 'Failed to cancel deletion' }, 500);
+  }
+});
+
+app.post('/make-server-feeffd69/npr/get-deletion', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    return c.json({ success: true, deletion: await getDeletion(userId) });
+  } catch (error) {
+    console.error('Get deletion error:', error);
+    return c.json({ error: 'Failed to get deletion status' }, 500);
+  }
+});
+
+// Purge accounts whose grace period has ended. Called by a scheduled job with the service role key.
+app.post('/make-server-feeffd69/admin/process-deletions', async (c) => {
+  if (!isServiceRoleRequest(c)) {
+    return c.json({ error: 'Authorization required' }, 401);
+  }
+
+  try {
+    const results = await processDueDeletions(supabase, UPLOAD_BUCKET);
+    return c.json({ success: true, processed: results.length, results });
+  } catch (error) {
+    console.error('Process deletions error:', error);
+    return c.json({ error: 'Failed to process deletions' }, 500);
+  }
+});
+
+// Everything stored with a user's data keys, re-encrypted under the keyring's current key. The old
+// keys are dropped afterwards, so records are listed in full rather than through kv.getByPrefix.
+async function reencryptUserData(userId: string, keyring: Keyring) {
+  for (const { key, value } of await loadRecordsByPrefix(supabase, `npr:${userId}:entry:`)) {
+    await kv.set(key, await encryptEntry(keyring, await decryptDeep(keyring, value)));
+  }
+
+  const profile = await loadProfileDocument(userId, keyring);
+  if (profile) {
+    await saveProfileDocument(userId, profile, keyring);
+  }
+
+  const psychometric = await kv.get(psychometricKey(userId));
+  if (psychometric) {
+    await kv.set(psychometricKey(userId), await encryptNPRProfile(keyring, await decryptDeep(keyring, psychometric)));
+  }
+
+  for (const { key, value } of await loadRecordsByPrefix(supabase, `npr:${userId}:chat:`)) {
+    await kv.set(key, await encryptConversation(keyring, await decryptDeep(keyring, value)));
+  }
+
+  for (const { key, value } of await loadRecordsByPrefix(supabase, `npr:${userId}:interaction:`)) {
+    await kv.set(key, await encryptInteraction(keyring, await decryptDeep(keyring, value)));
+  }
+
+  const tasks = await loadTasks(userId, keyring);
+  if (tasks.length > 0) {
+    await saveTasks(userId, tasks, keyring);
+  }
+
+  const series = await loadSeries(userId, keyring);
+  if (series.length > 0) {
+    await saveSeries(userId, series, keyring);
+  }
+
+  // Extracted document text; the metadata records next to it hold nothing encrypted
+  for (const key of (await loadFileKeys(supabase, userId)).filter(key => key.endsWith(':text'))) {
+    const fileText = await kv.get(key);
+    if (fileText) {
+      await kv.set(key, await encryptFileText(keyring, await decryptDeep(keyring, fileText)));
+    }
+  }
+
+  await reencryptIdempotencyRecords(supabase, userId, keyring);
+}
+
+// Give a user a new data key and re-encrypt their data with it, e.g. after a suspected leak
+app.post('/make-server-feeffd69/admin/rotate-data-key', async (c) => {
+  if (!isServiceRoleRequest(c)) {
+    return c.json({ error: 'Authorization required' }, 401);
+  }
+
+  try {
+    const { userId } = await c.req.json();
+    if (!userId || typeof userId !== 'string') {
+      return c.json({ error: 'userId is required' }, 400);
+    }
+
+    const kid = await rotateDataKey(userId, keyring => reencryptUserData(userId, keyring));
+    return c.json({ success: true, user_id: userId, kid });
+  } catch (error) {
+    console.error('Rotate data key error:', error);
+    return c.json({ error: 'Failed to rotate data key' }, 500);
+  }
+});
+
+// Rewrap every data key after NPR_MASTER_KEY changed; the old key must be in NPR_PREVIOUS_MASTER_KEY
+app.post('/make-server-feeffd69/admin/rewrap-data-keys', async (c) => {
+  if (!isServiceRoleRequest(c)) {
+    return c.json({ error: 'Authorization required' }, 401);
+  }
+
+  try {
+    return c.json({ success: true, ...(await rewrapDataKeys(supabase)) });
+  } catch (error) {
+    console.error('Rewrap data keys error:', error);
+    return c.json({ error: 'Failed to rewrap data keys' }, 500);
+  }
+});
+
+// Insights from comparing assessments over time
+app.post('/make-server-feeffd69/npr/get-insights', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    return c.json({ success: true, insights: await loadInsights(userId) });
+  } catch (error) {
+    console.error('Get insights error:', error);
+    return c.json({ error: 'Failed to get insights' }, 500);
+  }
+});
+
+// Assessment session endpoints: checkpointed after every trial so a battery can be resumed
+app.post('/make-server-feeffd69/npr/start-assessment-session', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { session } = await c.req.json();
+
+    if (!session) {
+      return c.json({ error: 'Missing session' }, 400);
+    }
+
+    return c.json({ success: true, session: await startSession(userId, session) });
+  } catch (error) {
+    if (error instanceof AssessmentSessionError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Start assessment session error:', error);
+    return c.json({ error: 'Failed to start assessment session' }, 500);
+  }
+});
+
+app.post('/make-server-feeffd69/npr/get-assessment-session', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    return c.json({ success: true, session: await loadOpenSession(userId) });
+  } catch (error) {
+    console.error('Get assessment session error:', error);
+    return c.json({ error: 'Failed to get assessment session' }, 500);
+  }
+});
+
+app.post('/make-server-feeffd69/npr/checkpoint-assessment-session', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { sessionId, checkpoint } = await c.req.json();
+
+    if (!sessionId || !checkpoint) {
+      return c.json({ error: 'Missing required parameters' }, 400);
+    }
+
+    const session = await checkpointSession(userId, sessionId, checkpoint);
+    return c.json({ success: true, checkpoint_seq: session.checkpoint_seq, expires_at: session.expires_at });
+  } catch (error) {
+    if (error instanceof AssessmentSessionError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Checkpoint assessment session error:', error);
+    return c.json({ error: 'Failed to checkpoint assessment session' }, 500);
+  }
+});
+
+app.post('/make-server-feeffd69/npr/complete-assessment-session', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { sessionId, results } = await c.req.json();
+
+    if (!sessionId || !results) {
+      return c.json({ error: 'Missing required parameters' }, 400);
+    }
+
+    return c.json({ success: true, session: await completeSession(userId, sessionId, results) });
+  } catch (error) {
+    if (error instanceof AssessmentSessionError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Complete assessment session error:', error);
+    return c.json({ error: 'Failed to complete assessment session' }, 500);
+  }
+});
+
+app.post('/make-server-feeffd69/npr/discard-assessment-session', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { sessionId } = await c.req.json();
+
+    if (!sessionId) {
+      return c.json({ error: 'Missing sessionId' }, 400);
+    }
+
+    await discardSession(userId, sessionId);
+    return c.json({ success: true });
+  } catch (error) {
+    if (error instanceof AssessmentSessionError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Discard assessment session error:', error);
+    return c.json({ error: 'Failed to discard assessment session' }, 500);
+  }
+});
+
+// Enhanced tasks generation endpoint
+app.post('/make-server-feeffd69/npr/generate-enhanced-tasks', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { profile, tasks } = await c.req.json();
+    
+    if (!profile) {
+      return c.json({ error: 'Missing profile' }, 400);
+    }
+
+    // Save enhanced tasks to KV store
+    const existingTasks = await loadTasks(userId);
+    
+    // Add new enhanced tasks, signed as stored
+    const enhancedTasks = await Promise.all((tasks || await generatePersonalizedTasks(profile)).map(prepareNewTask));
+    await saveTasks(userId, [...existingTasks, ...enhancedTasks]);
 
     console.log('Enhanced tasks generated for user:', userId, 'Count:', enhancedTasks.length);
 
@@ -513,6 +1712,7 @@ app.post('/make-server-feeffd69/auth/signup', async (c) => {
 // File upload and processing endpoints
 app.post('/make-server-feeffd69/files/upload', async (c) => {
   try {
+    const userId = c.get('user').id;
     const formData = await c.req.formData();
     const file = formData.get('file') as File;
     
@@ -528,20 +1728,19 @@ app.post('/make-server-feeffd69/files/upload', async (c) => {
 
     // Generate unique file ID
     const fileId = `file_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const fileName = `${fileId}_${file.name}`;
+    const fileName = `${userId}/${fileId}_${file.name}`;
     
     // Create bucket if it doesn't exist
-    const bucketName = 'make-feeffd69-uploads';
     const { data: buckets } = await supabase.storage.listBuckets();
-    const bucketExists = buckets?.some(bucket => bucket.name === bucketName);
+    const bucketExists = buckets?.some(bucket => bucket.name === UPLOAD_BUCKET);
     
     if (!bucketExists) {
-      await supabase.storage.createBucket(bucketName, { public: false });
+      await supabase.storage.createBucket(UPLOAD_BUCKET, { public: false });
     }
 
     // Upload file to Supabase Storage
     const { data: uploadData, error: uploadError } = await supabase.storage
-      .from(bucketName)
+      .from(UPLOAD_BUCKET)
       .upload(fileName, file, {
         cacheControl: '3600',
         upsert: false,
@@ -555,7 +1754,7 @@ app.post('/make-server-feeffd69/files/upload', async (c) => {
 
     // Generate signed URL for private access
     const { data: signedUrlData, error: urlError } = await supabase.storage
-      .from(bucketName)
+      .from(UPLOAD_BUCKET)
       .createSignedUrl(fileName, 3600); // 1 hour expiry
 
     if (urlError) {
@@ -565,30 +1764,57 @@ app.post('/make-server-feeffd69/files/upload', async (c) => {
 
     // Process file based on type
     let analysis = null;
-    let extractedText = null;
+    let extraction: ExtractionResult | null = null;
+
+    if (file.type.startsWith('image/')) {
+      analysis = await analyzeImage(file);
+    } else {
+      try {
+        extraction = await extractDocumentText(file);
+        if (extraction) {
+          analysis = describeExtraction(extraction, file.size);
+        }
+      } catch (error) {
+        // The upload itself succeeded; the file is kept without its text
+        console.warn(`Text extraction failed for ${file.name}:`, error);
+        analysis = `Document (${Math.floor(file.size / 1024)}KB); its text could not be extracted`;
+      }
+    }
 
-    if (file.type.startsWith('text/')) {
+    // Extracted text is kept apart from the metadata, which is read far more often, and encrypted
+    // like entries are; without encryption the file is kept but its text is not
+    if (extraction) {
       try {
-        extractedText = await file.text();
-        analysis = `Text file with ${extractedText.length} characters`;
+        await kv.set(fileTextKey(fileId), await encryptFileText(new Keyring(userId), {
+          file_id: fileId,
+          owner_id: userId,
+          ...extraction,
+          extracted_at: new Date().toISOString()
+        }));
       } catch (error) {
-        console.warn('Text extraction failed:', error);
+        if (!(error instanceof EncryptionError)) throw error;
+        console.error(`Text of ${file.name} not stored, it cannot be encrypted:`, error);
+        analysis = `${analysis}. Its text could not be stored securely`;
+        extraction = null;
       }
-    } else if (file.type.startsWith('image/')) {
-      analysis = await analyzeImage(file);
-    } else if (file.type === 'application/pdf') {
-      analysis = `PDF document (${Math.floor(file.size / 1024)}KB)`;
     }
 
     // Store file metadata
     await kv.set(`file:${fileId}`, {
       id: fileId,
+      owner_id: userId,
       name: file.name,
       type: file.type,
       size: file.size,
       url: signedUrlData.signedUrl,
       storagePath: fileName,
-      extractedText,
+      extraction: extraction && {
+        format: extraction.format,
+        characters: extraction.text.length,
+        sections: extraction.sections.length,
+        page_count: extraction.page_count,
+        truncated: extraction.truncated
+      },
       analysis,
       uploadedAt: new Date().toISOString()
     });
@@ -597,7 +1823,7 @@ app.post('/make-server-feeffd69/files/upload', async (c) => {
       fileId,
       url: signedUrlData.signedUrl,
       analysis,
-      extractedText: extractedText?.substring(0, 500) // First 500 chars for preview
+      extractedText: extraction?.text.substring(0, 500) // First 500 chars for preview
     });
 
   } catch (error) {
@@ -621,62 +1847,140 @@ async function analyzeImage(imageFile: File): Promise<string> {
   }
 }
 
+// Characters of each file's text that go into a prompt; the files share no budget
+const MAX_FILE_CONTEXT_CHARS = 24_000;
+
+// Build prompt context from previously uploaded files; other users' files are skipped
+async function buildFileContext(userId: string, fileIds?: string[]): Promise<string> {
+  let fileContext = '';
+  const keyring = new Keyring(userId);
+  if (fileIds && fileIds.length > 0) {
+    for (const fileId of fileIds) {
+      const fileData = await kv.get(`file:${fileId}`);
+      if (fileData && fileData.owner_id === userId) {
+        fileContext += `\n\nFile: ${fileData.name} (${fileData.type})\n`;
+        // Files uploaded before text was stored separately keep it on the metadata
+        const fileText = fileData.extraction ? await decryptDeep(keyring, await kv.get(fileTextKey(fileId))) : null;
+        if (fileText?.text) {
+          fileContext += `Content:\n${excerptForPrompt(fileText, MAX_FILE_CONTEXT_CHARS)}\n`;
+        } else if (fileData.extractedText) {
+          fileContext += `Content: ${fileData.extractedText}\n`;
+        }
+        if (fileData.analysis) {
+          fileContext += `Analysis: ${fileData.analysis}\n`;
+        }
+      }
+    }
+  }
+  return fileContext;
+}
+
 // Enhanced AI Response Generation with file context
 app.post('/make-server-feeffd69/npr/generate-ai-response-with-files', async (c) => {
   try {
-    const { userId, prompt, fileIds } = await c.req.json();
+    const userId = c.get('user').id;
+    const { prompt, fileIds, provider, model } = await c.req.json();
     
-    if (!userId || !prompt) {
-      return c.json({ error: 'Missing userId or prompt' }, 400);
-    }
-
-    // Get user's NPR profile for context
-    const profileKey = `npr:${userId}:profile`;
-    const profile = await kv.get(profileKey);
-
-    // Get file context if files are provided
-    let fileContext = '';
-    if (fileIds && fileIds.length > 0) {
-      for (const fileId of fileIds) {
-        const fileData = await kv.get(`file:${fileId}`);
-        if (fileData) {
-          fileContext += `\n\nFile: ${fileData.name} (${fileData.type})\n`;
-          if (fileData.extractedText) {
-            fileContext += `Content: ${fileData.extractedText}\n`;
-          }
-          if (fileData.analysis) {
-            fileContext += `Analysis: ${fileData.analysis}\n`;
-          }
-        }
-      }
+    if (!prompt) {
+      return c.json({ error: 'Missing prompt' }, 400);
     }
 
-    // Enhanced context with file information
-    const enhancedPrompt = prompt + fileContext;
+    // Get user's NPR profile for context, if they allow it to be used
+    const consent = await loadConsent(userId);
+    const profile = profileForAI(await loadProfileDocument(userId), consent);
 
-    // Generate contextual response using OpenAI
-    const openaiResponse = await generateOpenAIResponse(enhancedPrompt, profile);
-
-    // Log the interaction with file context
-    const interactionKey = `npr:${userId}:interaction:${Date.now()}`;
-    await kv.set(interactionKey, {
-      prompt: enhancedPrompt,
-      response: openaiResponse,
-      fileIds: fileIds || [],
-      timestamp: new Date().toISOString()
-    });
+    // Enhanced context with file information
+    const enhancedPrompt = prompt + await buildFileContext(userId, fileIds);
+
+    // Generate contextual response using the selected LLM provider
+    const aiResponse = await generateAIResponse(enhancedPrompt, profile, { llm: { provider, model } });
+
+    // Log the interaction with the files it used; their text stays in the encrypted file records
+    if (hasConsent(consent, 'dataCollection')) {
+      await logInteraction(userId, {
+        prompt,
+        response: aiResponse.content,
+        fileIds: fileIds || [],
+        provider: aiResponse.provider,
+        model: aiResponse.model,
+        fallback: aiResponse.fallback,
+        timestamp: new Date().toISOString()
+      });
+    }
 
     return c.json({ 
       success: true, 
-      response: openaiResponse,
-      content: openaiResponse 
+      response: aiResponse.content,
+      content: aiResponse.content,
+      provider: aiResponse.provider,
+      model: aiResponse.model,
+      fallback: aiResponse.fallback
     });
   } catch (error) {
+    if (error instanceof LLMSelectionError) {
+      return c.json({ error: error.message }, error.status);
+    }
     console.error('Generate AI response with files error:', error);
     return c.json({ error: 'Failed to generate AI response' }, 500);
   }
 });
 
+// Streaming AI Response Generation endpoints (server-sent events)
+app.post('/make-server-feeffd69/npr/generate-ai-response-stream', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { prompt, provider, model } = await c.req.json();
+    
+    if (!prompt) {
+      return c.json({ error: 'Missing prompt' }, 400);
+    }
+
+    // Get user's NPR profile for context, if they allow it to be used
+    const consent = await loadConsent(userId);
+    const profile = profileForAI(await loadProfileDocument(userId), consent);
+
+    return streamAIResponseSSE(c, userId, prompt, profile, {
+      llm: { provider, model },
+      logInteraction: hasConsent(consent, 'dataCollection')
+    });
+  } catch (error) {
+    if (error instanceof LLMSelectionError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Stream AI response error:', error);
+    return c.json({ error: 'Failed to generate AI response' }, 500);
+  }
+});
+
+app.post('/make-server-feeffd69/npr/generate-ai-response-with-files-stream', async (c) => {
+  try {
+    const userId = c.get('user').id;
+    const { prompt, fileIds, provider, model } = await c.req.json();
+    
+    if (!prompt) {
+      return c.json({ error: 'Missing prompt' }, 400);
+    }
+
+    // Get user's NPR profile for context, if they allow it to be used
+    const consent = await loadConsent(userId);
+    const profile = profileForAI(await loadProfileDocument(userId), consent);
+    const enhancedPrompt = prompt + await buildFileContext(userId, fileIds);
+
+    return streamAIResponseSSE(c, userId, enhancedPrompt, profile, {
+      loggedPrompt: prompt,
+      fileIds: fileIds || [],
+      llm: { provider, model },
+      logInteraction: hasConsent(consent, 'dataCollection')
+    });
+  } catch (error) {
+    if (error instanceof LLMSelectionError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    console.error('Stream AI response with files error:', error);
+    return c.json({ error: 'Failed to generate AI response' }, 500);
+  }
+});
+
 // Text-to-speech endpoint
 app.post('/make-server-feeffd69/tts/generate', async (c) => {
   try {
@@ -710,15 +2014,15 @@ app.post('/make-server-feeffd69/tts/generate', async (c) => {
 // Enhanced follow-up prompts generation
 app.post('/make-server-feeffd69/npr/generate-followups', async (c) => {
   try {
-    const { userId, conversationContext, lastResponse } = await c.req.json();
+    const userId = c.get('user').id;
+    const { conversationContext, lastResponse } = await c.req.json();
     
-    if (!userId || !lastResponse) {
+    if (!lastResponse) {
       return c.json({ error: 'Missing required parameters' }, 400);
     }
 
-    // Get user profile for personalization
-    const profileKey = `npr:${userId}:profile`;
-    const profile = await kv.get(profileKey);
+    // Get user profile for personalization, if they allow it to be used
+    const profile = profileForAI(await loadProfileDocument(userId), await loadConsent(userId));
 
     // Generate contextual follow-up prompts
     const followUps = await generateFollowUpPrompts(lastResponse, profile, conversationContext);
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  LLMProvider,
+  LLMRequest,
+  LLMSelectionError,
+  LLMStreamInterruptedError,
+  resolveProvider,
+  streamWithFallback
+} from './llm_providers.tsx';
+
+let env: Record<string, string> = {};
+
+beforeEach(() => {
+  env = {};
+  vi.stubGlobal('Deno', { env: { get: (key: string) => env[key] } });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+function request(content: string): LLMRequest {
+  return {
+    model: 'mock-1',
+    messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content }],
+    maxTokens: 100,
+    temperature: 0
+  };
+}
+
+describe('resolveProvider', () => {
+  it('answers with the mock, flagged, when nothing is configured', () => {
+    const resolved = resolveProvider();
+    expect(resolved.provider.name).toBe('mock');
+    expect(resolved.fallback).toBe('no_provider_configured');
+  });
+
+  it('uses whichever hosted provider has credentials, with LLM_MODEL', () => {
+    env = { ANTHROPIC_API_KEY: 'key', LLM_MODEL: 'claude-test' };
+    const resolved = resolveProvider();
+    expect([resolved.provider.name, resolved.model, resolved.fallback]).toEqual(['anthropic', 'claude-test', null]);
+  });
+
+  it('rejects an unknown or unconfigured provider named by the request', () => {
+    expect(() => resolveProvider({ provider: 'other' })).toThrow(LLMSelectionError);
+    expect(() => resolveProvider({ provider: 'openai' })).toThrow(/not configured/);
+    expect(() => resolveProvider({ provider: 'constructor' })).toThrow(LLMSelectionError);
+  });
+
+  it('only accepts request models on the provider\'s allow-list', () => {
+    env = { OPENAI_API_KEY: 'key', OPENAI_ALLOWED_MODELS: 'gpt-4o-mini, gpt-4o' };
+
+    expect(resolveProvider({ provider: 'openai', model: 'gpt-4o' }).model).toBe('gpt-4o');
+    expect(resolveProvider({ provider: 'openai' }).model).toBe('gpt-3.5-turbo');
+    expect(() => resolveProvider({ provider: 'openai', model: 'gpt-4-32k' })).toThrow(LLMSelectionError);
+  });
+});
+
+describe('mock provider', () => {
+  it('replies deterministically and streams the same text', async () => {
+    const { provider } = resolveProvider({ provider: 'mock' });
+
+    const reply = await provider.complete(request('Plan my   week'));
+    expect(reply).toBe(await provider.complete(request('Plan my   week')));
+    expect(reply).toContain('You said: "Plan my week"');
+
+    let streamed = '';
+    for await (const chunk of provider.stream(request('Plan my   week'))) {
+      streamed += chunk;
+    }
+    expect(streamed).toBe(reply);
+  });
+});
+
+// A provider that sends `tokens` and then fails
+function failingProvider(tokens: string[]): LLMProvider {
+  return {
+    name: 'openai',
+    defaultModel: 'gpt-test',
+    isConfigured: () => true,
+    complete: async () => tokens.join(''),
+    async *stream() {
+      yield* tokens;
+      throw new Error('connection reset');
+    }
+  };
+}
+
+async function* fallbackReply() {
+  yield 'fallback';
+}
+
+async function collect(tokens: AsyncIterable<string>, into: string[]) {
+  for await (const token of tokens) {
+    into.push(token);
+  }
+}
+
+describe('streamWithFallback', () => {
+  it('streams the fallback when the provider fails before its first token', async () => {
+    const onFallback = vi.fn();
+    const received: string[] = [];
+
+    await collect(streamWithFallback(failingProvider([]), request('Hi'), fallbackReply, onFallback), received);
+    expect(received).toEqual(['fallback']);
+    expect(onFallback).toHaveBeenCalledOnce();
+  });
+
+  it('throws when the provider fails part-way through a reply', async () => {
+    const onFallback = vi.fn();
+    const received: string[] = [];
+
+    await expect(collect(
+      streamWithFallback(failingProvider(['Half ', 'a ']), request('Hi'), fallbackReply, onFallback),
+      received
+    )).rejects.toBeInstanceOf(LLMStreamInterruptedError);
+    expect(received).toEqual(['Half ', 'a ']);
+    expect(onFallback).not.toHaveBeenCalled();
+  });
+
+  it('stops quietly once the request is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const received: string[] = [];
+
+    await collect(
+      streamWithFallback(failingProvider(['Half']), { ...request('Hi'), signal: controller.signal }, fallbackReply),
+      received
+    );
+    expect(received).toEqual(['Half']);
+  });
+});
@@ -0,0 +1,357 @@
+// Pluggable LLM provider layer for the edge function.
+//
+// Providers are selected per request (`provider` / `model` in the request body) or by env:
+//   LLM_PROVIDER      - 'openai' | 'anthropic' | 'mock'
+//   LLM_MODEL         - model override for the env-selected provider
+//   OPENAI_API_KEY, OPENAI_BASE_URL, OPENAI_MODEL           - any OpenAI-compatible endpoint
+//   ANTHROPIC_API_KEY, ANTHROPIC_BASE_URL, ANTHROPIC_MODEL  - Anthropic Messages API
+//   OPENAI_ALLOWED_MODELS, ANTHROPIC_ALLOWED_MODELS         - comma-separated models a request may
+//                                                             name, on top of the configured default
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'mock';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  model: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  defaultModel: string;
+  isConfigured(): boolean;
+  complete(request: LLMRequest): Promise<string>;
+  stream(request: LLMRequest): AsyncGenerator<string>;
+}
+
+export interface LLMSelection {
+  provider?: string;
+  model?: string;
+}
+
+// Why a reply came from somewhere other than the provider that was asked for or configured
+export type LLMFallback = 'no_provider_configured' | 'provider_error';
+
+export interface ResolvedProvider {
+  provider: LLMProvider;
+  model: string;
+  fallback: LLMFallback | null;
+}
+
+// A request named a provider or model this server cannot use; the client should not retry it
+export class LLMSelectionError extends Error {
+  constructor(message: string, public status: 400 = 400) {
+    super(message);
+    this.name = 'LLMSelectionError';
+  }
+}
+
+export class LLMProviderError extends Error {
+  constructor(public provider: LLMProviderName, message: string, public status?: number) {
+    super(`${provider}: ${message}`);
+    this.name = 'LLMProviderError';
+  }
+}
+
+// The provider failed after part of its reply had been sent, so what the client has is incomplete
+export class LLMStreamInterruptedError extends Error {
+  constructor(public provider: LLMProviderName) {
+    super(`${provider}: stream ended before the reply was complete`);
+    this.name = 'LLMStreamInterruptedError';
+  }
+}
+
+// Split a streamed response body into lines, keeping partial lines buffered between chunks
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      yield line.trim();
+    }
+  }
+
+  if (buffer.trim()) {
+    yield buffer.trim();
+  }
+}
+
+// OpenAI-compatible chat completions (OpenAI, Azure-style proxies, local servers, etc.)
+const openAIProvider: LLMProvider = {
+  name: 'openai',
+  get defaultModel() {
+    return Deno.env.get('OPENAI_MODEL') || 'gpt-3.5-turbo';
+  },
+
+  isConfigured() {
+    return !!Deno.env.get('OPENAI_API_KEY');
+  },
+
+  async complete(request) {
+    const response = await openAIFetch(request, false);
+    const data = await response.json();
+
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LLMProviderError('openai', 'Unexpected response format');
+    }
+
+    return content.trim();
+  },
+
+  async *stream(request) {
+    const response = await openAIFetch(request, true);
+
+    for await (const line of readLines(response.body!)) {
+      if (!line.startsWith('data:')) continue;
+
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') return;
+
+      const token = JSON.parse(payload).choices?.[0]?.delta?.content;
+      if (token) yield token;
+    }
+  }
+};
+
+async function openAIFetch(request: LLMRequest, stream: boolean): Promise<Response> {
+  const baseUrl = Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1';
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`
+    },
+    body: JSON.stringify({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(stream ? { stream: true } : {})
+    }),
+    signal: request.signal
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.text();
+    throw new LLMProviderError('openai', errorData || 'Request failed', response.status);
+  }
+
+  return response;
+}
+
+// Anthropic Messages API - the system prompt travels separately from the turns
+const anthropicProvider: LLMProvider = {
+  name: 'anthropic',
+  get defaultModel() {
+    return Deno.env.get('ANTHROPIC_MODEL') || 'claude-3-5-haiku-latest';
+  },
+
+  isConfigured() {
+    return !!Deno.env.get('ANTHROPIC_API_KEY');
+  },
+
+  async complete(request) {
+    const response = await anthropicFetch(request, false);
+    const data = await response.json();
+
+    if (!Array.isArray(data.content)) {
+      throw new LLMProviderError('anthropic', 'Unexpected response format');
+    }
+
+    return data.content
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('')
+      .trim();
+  },
+
+  async *stream(request) {
+    const response = await anthropicFetch(request, true);
+
+    for await (const line of readLines(response.body!)) {
+      if (!line.startsWith('data:')) continue;
+
+      const event = JSON.parse(line.slice(5).trim());
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        yield event.delta.text;
+      } else if (event.type === 'message_stop') {
+        return;
+      } else if (event.type === 'error') {
+        throw new LLMProviderError('anthropic', event.error?.message || 'Stream error');
+      }
+    }
+  }
+};
+
+async function anthropicFetch(request: LLMRequest, stream: boolean): Promise<Response> {
+  const baseUrl = Deno.env.get('ANTHROPIC_BASE_URL') || 'https://api.anthropic.com/v1';
+  const system = request.messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n\n');
+
+  const response = await fetch(`${baseUrl}/messages`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': Deno.env.get('ANTHROPIC_API_KEY')!,
+      'anthropic-version': '2023-06-01'
+    },
+    body: JSON.stringify({
+      model: request.model,
+      system: system || undefined,
+      messages: request.messages.filter(message => message.role !== 'system'),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(stream ? { stream: true } : {})
+    }),
+    signal: request.signal
+  });
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.text();
+    throw new LLMProviderError('anthropic', errorData || 'Request failed', response.status);
+  }
+
+  return response;
+}
+
+// Deterministic offline provider - the same messages always produce the same reply
+const mockProvider: LLMProvider = {
+  name: 'mock',
+  defaultModel: 'mock-1',
+
+  isConfigured() {
+    return true;
+  },
+
+  async complete(request) {
+    return buildMockResponse(request);
+  },
+
+  async *stream(request) {
+    for (const chunk of buildMockResponse(request).match(/\S+\s*/g) || []) {
+      if (request.signal?.aborted) return;
+      yield chunk;
+    }
+  }
+};
+
+function buildMockResponse(request: LLMRequest): string {
+  const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+  const prompt = (lastUserMessage?.content || '').replace(/\s+/g, ' ').trim();
+  const turnCount = request.messages.filter(message => message.role !== 'system').length;
+  const preview = prompt.length > 80 ? `${prompt.substring(0, 80)}...` : prompt;
+
+  return `[${request.model}] You said: "${preview}". This is turn ${turnCount} of the conversation, ` +
+    `answered by the offline mock provider.`;
+}
+
+const providers: Record<LLMProviderName, LLMProvider> = {
+  openai: openAIProvider,
+  anthropic: anthropicProvider,
+  mock: mockProvider
+};
+
+export function isProviderName(name: unknown): name is LLMProviderName {
+  return typeof name === 'string' && Object.hasOwn(providers, name);
+}
+
+// A request may only name a model the operator has allowed, since it is billed to the server's key
+function allowedModels(provider: LLMProvider, envModel?: string): Set<string> {
+  const configured = Deno.env.get(`${provider.name.toUpperCase()}_ALLOWED_MODELS`) || '';
+  const models = new Set(configured.split(',').map(model => model.trim()).filter(Boolean));
+  models.add(provider.defaultModel);
+  if (envModel) models.add(envModel);
+  return models;
+}
+
+/**
+ * Resolve the provider and model for a request. Per-request selection wins over env. A provider
+ * or model the request names must exist, be configured and be allowed, or LLMSelectionError is
+ * thrown. When nothing is configured the mock answers, and `fallback` says so.
+ */
+export function resolveProvider(selection: LLMSelection = {}): ResolvedProvider {
+  const envProvider = Deno.env.get('LLM_PROVIDER');
+  let provider: LLMProvider | undefined;
+  let envModel: string | undefined;
+
+  if (selection.provider !== undefined && selection.provider !== null && selection.provider !== '') {
+    if (!isProviderName(selection.provider)) {
+      throw new LLMSelectionError(`Unknown LLM provider: ${String(selection.provider)}`);
+    }
+    provider = providers[selection.provider];
+    if (!provider.isConfigured()) {
+      throw new LLMSelectionError(`LLM provider ${provider.name} is not configured on this server`);
+    }
+  } else {
+    if (isProviderName(envProvider)) {
+      provider = providers[envProvider];
+    } else {
+      // No explicit choice - use whichever hosted provider has credentials
+      provider = [openAIProvider, anthropicProvider].find(candidate => candidate.isConfigured());
+    }
+    // LLM_MODEL only applies to the env-selected provider, never to a per-request override
+    envModel = Deno.env.get('LLM_MODEL') || undefined;
+
+    if (!provider || !provider.isConfigured()) {
+      console.warn('No LLM provider configured (set LLM_PROVIDER or a provider API key), answering with the mock provider');
+      return { provider: mockProvider, model: mockProvider.defaultModel, fallback: 'no_provider_configured' };
+    }
+  }
+
+  if (selection.model && !allowedModels(provider, envModel).has(selection.model)) {
+    throw new LLMSelectionError(`Model ${selection.model} is not allowed for LLM provider ${provider.name}`);
+  }
+
+  const model = selection.model || envModel || provider.defaultModel;
+  return { provider, model, fallback: null };
+}
+
+/**
+ * Stream a reply from the provider. If it fails before sending anything, `fallback` is streamed
+ * instead and `onFallback` is called; if it fails part-way through, LLMStreamInterruptedError is
+ * thrown so the caller can end the reply as incomplete. An aborted request just stops.
+ */
+export async function* streamWithFallback(
+  provider: LLMProvider,
+  request: LLMRequest,
+  fallback: () => AsyncIterable<string>,
+  onFallback?: () => void
+): AsyncGenerator<string> {
+  let hasEmitted = false;
+
+  try {
+    for await (const token of provider.stream(request)) {
+      hasEmitted = true;
+      yield token;
+    }
+  } catch (error) {
+    if (request.signal?.aborted) return;
+
+    console.error(`LLM streaming request failed (${provider.name}/${request.model}):`, error);
+    // Only fall back if the user hasn't already seen part of a real answer
+    if (hasEmitted) {
+      throw new LLMStreamInterruptedError(provider.name);
+    }
+    onFallback?.();
+    yield* fallback();
+  }
+}
@@ -0,0 +1,169 @@
+// Resumable psychometric assessment sessions.
+//
+// A user has at most one open session, at `npr:${userId}:assessment-session`. The client
+// checkpoints it after every trial so a refresh or crash can resume where it stopped. A session
+// that has not been checkpointed for SESSION_TTL_MS is abandoned: it is dropped the next time it
+// is read. Completing a session signs its results and moves it to
+// `npr:${userId}:assessment-session:${sessionId}`.
+
+import * as kv from './kv_store.tsx';
+import { signData } from './npr_signatures.tsx';
+
+export const SESSION_TTL_MS = 72 * 60 * 60 * 1000;
+
+const SESSION_TYPES = ['cognitive', 'personality', 'emotional_intelligence', 'standardized'];
+
+export class AssessmentSessionError extends Error {
+  constructor(message: string, public status: 400 | 404 | 409) {
+    super(message);
+    this.name = 'AssessmentSessionError';
+  }
+}
+
+export function openSessionKey(userId: string): string {
+  return `npr:${userId}:assessment-session`;
+}
+
+export function completedSessionKey(userId: string, sessionId: string): string {
+  return `npr:${userId}:assessment-session:${sessionId}`;
+}
+
+function isExpired(session: any, now = Date.now()): boolean {
+  return !session.expires_at || new Date(session.expires_at).getTime() <= now;
+}
+
+/**
+ * The user's open session, or null if there is none or it has expired
+ */
+export async function loadOpenSession(userId: string): Promise<any | null> {
+  const session = await kv.get(openSessionKey(userId));
+  if (!session) {
+    return null;
+  }
+
+  if (isExpired(session)) {
+    console.log('Assessment session expired:', session.id);
+    await kv.del(openSessionKey(userId));
+    return null;
+  }
+
+  return session;
+}
+
+async function loadSessionForUpdate(userId: string, sessionId: string): Promise<any> {
+  const session = await loadOpenSession(userId);
+  if (!session) {
+    throw new AssessmentSessionError('No open assessment session', 404);
+  }
+  if (session.id !== sessionId) {
+    throw new AssessmentSessionError('A different assessment session is open', 409);
+  }
+  return session;
+}
+
+/**
+ * Open a new session, replacing any session the user had open
+ */
+export async function startSession(userId: string, session: any): Promise<any> {
+  if (!session?.id || typeof session.id !== 'string') {
+    throw new AssessmentSessionError('Session id is required', 400);
+  }
+  if (!SESSION_TYPES.includes(session.session_type)) {
+    throw new AssessmentSessionError(`session_type must be one of ${SESSION_TYPES.join(', ')}`, 400);
+  }
+
+  const now = new Date();
+  const stored = {
+    ...session,
+    user_id: userId,
+    status: 'in_progress',
+    started_at: session.started_at || now.toISOString(),
+    checkpoint_seq: 0,
+    checkpointed_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + SESSION_TTL_MS).toISOString()
+  };
+
+  await kv.set(openSessionKey(userId), stored);
+  return stored;
+}
+
+/**
+ * Store the client's progress. Checkpoints carry an increasing sequence number, so one that
+ * arrives late (a retry, or a replay from the offline outbox) cannot overwrite newer progress.
+ */
+export async function checkpointSession(
+  userId: string,
+  sessionId: string,
+  checkpoint: { seq: number; status?: string; current_step?: number; state: any }
+): Promise<any> {
+  if (!Number.isInteger(checkpoint?.seq) || checkpoint.seq < 1 || !checkpoint.state) {
+    throw new AssessmentSessionError('Checkpoint needs a positive integer seq and a state', 400);
+  }
+  if (checkpoint.status && !['in_progress', 'paused'].includes(checkpoint.status)) {
+    throw new AssessmentSessionError('Checkpoint status must be in_progress or paused', 400);
+  }
+
+  const session = await loadSessionForUpdate(userId, sessionId);
+  if (checkpoint.seq <= session.checkpoint_seq) {
+    return session;
+  }
+
+  const now = new Date();
+  const updated = {
+    ...session,
+    status: checkpoint.status || 'in_progress',
+    current_step: checkpoint.current_step ?? session.current_step,
+    checkpoint: checkpoint.state,
+    checkpoint_seq: checkpoint.seq,
+    checkpointed_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + SESSION_TTL_MS).toISOString()
+  };
+
+  await kv.set(openSessionKey(userId), updated);
+  return updated;
+}
+
+// Fields covered by session_signature for a completed session
+export function sessionSignaturePayload(session: any) {
+  return {
+    id: session.id,
+    user_id: session.user_id,
+    session_type: session.session_type,
+    started_at: session.started_at,
+    completed_at: session.completed_at,
+    results: session.results
+  };
+}
+
+/**
+ * Close the session with its final results, signed with session_signature
+ */
+export async function completeSession(userId: string, sessionId: string, results: any): Promise<any> {
+  if (!results || typeof results !== 'object') {
+    throw new AssessmentSessionError('Results are required', 400);
+  }
+
+  const session = await loadSessionForUpdate(userId, sessionId);
+  const { checkpoint, checkpoint_seq, checkpointed_at, expires_at, ...rest } = session;
+
+  const completed = {
+    ...rest,
+    status: 'completed',
+    current_step: session.total_steps,
+    completed_at: new Date().toISOString(),
+    results
+  };
+  completed.session_signature = await signData(sessionSignaturePayload(completed));
+
+  await kv.set(completedSessionKey(userId, sessionId), completed);
+  await kv.del(openSessionKey(userId));
+  return completed;
+}
+
+/**
+ * Drop the open session without results, e.g. when the user chooses to start over
+ */
+export async function discardSession(userId: string, sessionId: string): Promise<void> {
+  await loadSessionForUpdate(userId, sessionId);
+  await kv.del(openSessionKey(userId));
+}
@@ -0,0 +1,160 @@
+// Consent records and enforcement.
+//
+// A user's current consent is a versioned record at `npr:${userId}:consent`; every change is
+// appended to `npr:${userId}:consent-history` so the user can review what they agreed to and
+// when. Consent types are the ConsentType values in utils/apiTypes:
+//
+//   dataCollection         storing what the user enters: NPR entries, assessments, interaction logs
+//   adaptiveAI             using the stored profile (goal, challenge, strength, style) in AI prompts
+//   cognitiveInsights      deriving insights from assessment history
+//   researchParticipation  use in research; nothing is processed for research yet
+//
+// Without a record nothing is consented, except what the user agreed to in the legacy NPR
+// questionnaire, which seeds the first record.
+
+import type { Context, Next } from 'npm:hono';
+import * as kv from './kv_store.tsx';
+import { loadProfileDocument } from './npr_profile_schema.tsx';
+
+export const CONSENT_TYPES = ['dataCollection', 'adaptiveAI', 'cognitiveInsights', 'researchParticipation'] as const;
+
+export type ConsentType = typeof CONSENT_TYPES[number];
+
+const MAX_HISTORY = 200;
+
+export class ConsentValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConsentValidationError';
+  }
+}
+
+export class ConsentRequiredError extends Error {
+  constructor(public consentType: ConsentType) {
+    super(`This requires consent to ${consentType}`);
+    this.name = 'ConsentRequiredError';
+  }
+}
+
+export function consentKey(userId: string): string {
+  return `npr:${userId}:consent`;
+}
+
+export function consentHistoryKey(userId: string): string {
+  return `npr:${userId}:consent-history`;
+}
+
+function noConsent(): Record<ConsentType, boolean> {
+  return Object.fromEntries(CONSENT_TYPES.map(type => [type, false])) as Record<ConsentType, boolean>;
+}
+
+// The snake_case consent block a migrated questionnaire profile carries
+function fromProfileConsent(consent: any): Record<ConsentType, boolean> {
+  return {
+    dataCollection: consent.data_collection === true,
+    adaptiveAI: consent.adaptive_ai === true,
+    cognitiveInsights: consent.cognitive_insights === true,
+    researchParticipation: consent.research_participation === true
+  };
+}
+
+/**
+ * The user's current consent. Version 0 means the user has never recorded a choice.
+ */
+export async function loadConsent(userId: string) {
+  const record = await kv.get(consentKey(userId));
+  if (record) {
+    return record;
+  }
+
+  const legacy = (await loadProfileDocument(userId))?.profile?.consent;
+  return {
+    version: 0,
+    grants: legacy ? fromProfileConsent(legacy) : noConsent(),
+    updated_at: legacy?.timestamp ?? null,
+    source: legacy ? 'npr_questionnaire' : null
+  };
+}
+
+export function hasConsent(consent: any, type: ConsentType): boolean {
+  return consent?.grants?.[type] === true;
+}
+
+/**
+ * Record a change of consent. `grants` may name only the types that change; the result is a
+ * new version unless nothing changed.
+ */
+export async function updateConsent(userId: string, grants: any, source: string) {
+  if (!grants || typeof grants !== 'object') {
+    throw new ConsentValidationError('grants must be an object');
+  }
+  for (const [type, granted] of Object.entries(grants)) {
+    if (!(CONSENT_TYPES as readonly string[]).includes(type) || typeof granted !== 'boolean') {
+      throw new ConsentValidationError(`Invalid consent: ${type} must be one of ${CONSENT_TYPES.join(', ')} with a boolean value`);
+    }
+  }
+
+  const current = await loadConsent(userId);
+  const changes = CONSENT_TYPES
+    .filter(type => grants[type] !== undefined && grants[type] !== current.grants[type])
+    .map(type => ({ type, from: current.grants[type], to: grants[type] }));
+
+  if (changes.length === 0) {
+    return current;
+  }
+
+  const record = {
+    version: current.version + 1,
+    grants: { ...current.grants, ...grants },
+    updated_at: new Date().toISOString(),
+    source
+  };
+
+  const history = (await kv.get(consentHistoryKey(userId))) || [];
+  await kv.set(consentHistoryKey(userId), [...history, { ...record, changes }].slice(-MAX_HISTORY));
+  await kv.set(consentKey(userId), record);
+
+  console.log(`Consent for user ${userId} updated to version ${record.version}:`, changes);
+  return record;
+}
+
+/**
+ * Every recorded change, oldest first
+ */
+export async function loadConsentHistory(userId: string): Promise<any[]> {
+  return (await kv.get(consentHistoryKey(userId))) || [];
+}
+
+/**
+ * Throw unless the user has consented to `type`
+ */
+export async function requireConsent(userId: string, type: ConsentType): Promise<void> {
+  if (!hasConsent(await loadConsent(userId), type)) {
+    throw new ConsentRequiredError(type);
+  }
+}
+
+/**
+ * Middleware for routes that cannot run at all without `type`; they answer 403 with the
+ * missing consent so the client can ask for it.
+ */
+export function consentGuard(type: ConsentType) {
+  return async (c: Context, next: Next) => {
+    try {
+      await requireConsent(c.get('user').id, type);
+    } catch (error) {
+      if (error instanceof ConsentRequiredError) {
+        return c.json({ error: error.message, consent_required: error.consentType }, 403);
+      }
+      throw error;
+    }
+    await next();
+  };
+}
+
+/**
+ * The profile as AI prompts may use it: without adaptiveAI the model gets no profile at all
+ */
+export function profileForAI(profileDocument: any, consent: any): any | null {
+  return hasConsent(consent, 'adaptiveAI') ? profileDocument : null;
+}
@@ -0,0 +1,200 @@
+// Account deletion with a grace period.
+//
+// requestDeletion schedules a purge DELETION_GRACE_DAYS ahead at `deletion:${userId}`, and until
+// then the user can cancel it. purgeUser removes every `npr:${userId}:` key, the user's `file:`
+// records and uploaded objects, and last the auth user. It leaves a tombstone at
+// `tombstone:${subject}` recording what was purged and when. The subject is a hash of the user id,
+// so the tombstone holds no personal data. Due purges are run by processDueDeletions, which a
+// scheduled job calls through /admin/process-deletions.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import * as kv from './kv_store.tsx';
+import { listUploads } from './npr_export.tsx';
+import { loadFileKeys, loadRecordsByPrefix } from './npr_kv_query.tsx';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DELETION_GRACE_DAYS = 14;
+
+// What the user types to confirm; checked here too so a stray request cannot schedule a deletion
+export const DELETION_CONFIRMATION = 'DELETE';
+
+// kv.mdel and storage removal take at most this many keys or paths per call
+const BATCH_SIZE = 100;
+
+export class DeletionError extends Error {
+  constructor(message: string, public status: 400 | 404 = 400) {
+    super(message);
+    this.name = 'DeletionError';
+  }
+}
+
+export function deletionKey(userId: string): string {
+  return `deletion:${userId}`;
+}
+
+export function tombstoneKey(subject: string): string {
+  return `tombstone:${subject}`;
+}
+
+async function subjectHash(userId: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`npr-subject:${userId}`));
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function batches<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    result.push(items.slice(i, i + BATCH_SIZE));
+  }
+  return result;
+}
+
+/**
+ * The user's scheduled deletion, or null if none is scheduled
+ */
+export async function getDeletion(userId: string): Promise<any | null> {
+  return (await kv.get(deletionKey(userId))) || null;
+}
+
+/**
+ * Schedule the user's data and account for deletion. Asking again while one is scheduled returns
+ * the existing schedule rather than extending it.
+ */
+export async function requestDeletion(userId: string, confirmation: unknown, now = new Date()) {
+  if (confirmation !== DELETION_CONFIRMATION) {
+    throw new DeletionError(`Type ${DELETION_CONFIRMATION} to confirm the deletion`);
+  }
+
+  const existing = await getDeletion(userId);
+  if (existing) {
+    return existing;
+  }
+
+  const deletion = {
+    user_id: userId,
+    status: 'pending',
+    requested_at: now.toISOString(),
+    scheduled_for: new Date(now.getTime() + DELETION_GRACE_DAYS * DAY_MS).toISOString(),
+    attempts: 0,
+    last_error: null
+  };
+
+  await kv.set(deletionKey(userId), deletion);
+  console.log(`Deletion for user ${userId} scheduled for ${deletion.scheduled_for}`);
+  return deletion;
+}
+
+/**
+ * Undo a scheduled deletion during the grace period
+ */
+export async function cancelDeletion(userId: string) {
+  const existing = await getDeletion(userId);
+  if (!existing) {
+    throw new DeletionError('No deletion is scheduled', 404);
+  }
+
+  await kv.del(deletionKey(userId));
+  console.log(`Deletion for user ${userId} cancelled`);
+  return { ...existing, status: 'cancelled', cancelled_at: new Date().toISOString() };
+}
+
+// Everything still stored about the user; listings page through all of it and fail rather than
+// come back short, so an empty result means nothing is left
+async function findUserData(supabase: SupabaseClient, bucket: string, userId: string) {
+  return {
+    keys: (await loadRecordsByPrefix(supabase, `npr:${userId}:`)).map(record => record.key),
+    fileKeys: await loadFileKeys(supabase, userId),
+    objectPaths: (await listUploads(supabase, bucket, userId)).map(object => `${userId}/${object.name}`)
+  };
+}
+
+/**
+ * Remove everything stored about the user, then the auth user, and record a tombstone. The
+ * deletion record is kept until the purge is complete, so a failed or partial purge is retried.
+ */
+export async function purgeUser(supabase: SupabaseClient, bucket: string, userId: string, now = new Date()) {
+  const deletion = await getDeletion(userId);
+
+  try {
+    const { keys, fileKeys, objectPaths } = await findUserData(supabase, bucket, userId);
+
+    for (const batch of batches([...keys, ...fileKeys])) {
+      await kv.mdel(batch);
+    }
+
+    for (const batch of batches(objectPaths)) {
+      const { error } = await supabase.storage.from(bucket).remove(batch);
+      if (error) {
+        throw new Error(`Failed to remove uploads: ${error.message}`);
+      }
+    }
+
+    // Writes made while the purge ran, or deletes that did not take, show up here
+    const remaining = await findUserData(supabase, bucket, userId);
+    const remainingCount = remaining.keys.length + remaining.fileKeys.length + remaining.objectPaths.length;
+    if (remainingCount > 0) {
+      throw new Error(`${remainingCount} records or files were still present after the purge`);
+    }
+
+    const { error: authError } = await supabase.auth.admin.deleteUser(userId);
+    // A second attempt after a partial failure finds the auth user already gone
+    if (authError && authError.status !== 404) {
+      throw new Error(`Failed to delete auth user: ${authError.message}`);
+    }
+
+    const subject = await subjectHash(userId);
+    const tombstone = {
+      subject,
+      requested_at: deletion?.requested_at ?? null,
+      scheduled_for: deletion?.scheduled_for ?? null,
+      purged_at: now.toISOString(),
+      purged: {
+        kv_keys: keys.length,
+        file_records: fileKeys.length,
+        storage_objects: objectPaths.length,
+        auth_user: true
+      },
+      attempts: (deletion?.attempts ?? 0) + 1
+    };
+
+    await kv.set(tombstoneKey(subject), tombstone);
+    await kv.del(deletionKey(userId));
+
+    console.log(`User ${userId} purged:`, tombstone.purged);
+    return tombstone;
+  } catch (error) {
+    if (deletion) {
+      await kv.set(deletionKey(userId), {
+        ...deletion,
+        attempts: deletion.attempts + 1,
+        last_error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Purge every user whose grace period has ended. One failure does not stop the others.
+ */
+export async function processDueDeletions(supabase: SupabaseClient, bucket: string, now = new Date()) {
+  const due = (await loadRecordsByPrefix(supabase, 'deletion:'))
+    .map(record => record.value)
+    .filter(deletion => deletion?.user_id && new Date(deletion.scheduled_for).getTime() <= now.getTime());
+
+  const results = [];
+  for (const deletion of due) {
+    try {
+      const tombstone = await purgeUser(supabase, bucket, deletion.user_id, now);
+      results.push({ subject: tombstone.subject, purged: true });
+    } catch (error) {
+      console.error(`Purge of user ${deletion.user_id} failed:`, error);
+      results.push({ subject: await subjectHash(deletion.user_id), purged: false });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,427 @@
+// Envelope encryption of sensitive fields at rest.
+//
+// Each user has AES-256-GCM data keys, stored at `npr:${userId}:data-key` wrapped by the server
+// master key in NPR_MASTER_KEY (32 bytes, base64). A sensitive field is stored as an envelope
+// { $enc, kid, iv, ct } holding its JSON value, so a dump of the KV table shows no entry text,
+// notes, neurodiversity details, uploaded document text, chats, AI prompts and replies, or task
+// titles. What counts as sensitive is decided by the encrypt* functions below; decryptDeep opens
+// every envelope in a value.
+//
+// Rotation: rotateDataKey gives a user a new data key, has the caller re-encrypt their data and
+// then drops the old keys. When NPR_MASTER_KEY changes, the old key goes in
+// NPR_PREVIOUS_MASTER_KEY until rewrapDataKeys has rewrapped every data key under the new one.
+// Data keys are under the user's prefix, so purging the user also makes any copy of their
+// ciphertext unreadable.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import * as kv from './kv_store.tsx';
+import { loadRecordsLike } from './npr_kv_query.tsx';
+
+const ENVELOPE_ALGORITHM = 'A256GCM';
+
+// Free text can say anything, so every entry's content is sensitive; these metadata fields are too
+const SENSITIVE_METADATA_FIELDS = ['notes', 'conditions', 'diagnosis', 'support_needs', 'supportNeeds', 'challenges'];
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+export function dataKeyRecordKey(userId: string): string {
+  return `npr:${userId}:data-key`;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function seal(key: CryptoKey, plaintext: Uint8Array): Promise<{ iv: string; ct: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { iv: toBase64(iv), ct: toBase64(new Uint8Array(ciphertext)) };
+}
+
+async function open(key: CryptoKey, iv: string, ct: string): Promise<Uint8Array> {
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ct)));
+  } catch {
+    throw new EncryptionError('Ciphertext could not be decrypted');
+  }
+}
+
+type MasterKey = { id: string; key: CryptoKey };
+
+async function importMasterKey(variable: string): Promise<MasterKey | null> {
+  const encoded = Deno.env.get(variable);
+  if (!encoded) {
+    return null;
+  }
+
+  const raw = fromBase64(encoded);
+  if (raw.length !== 32) {
+    throw new EncryptionError(`${variable} must be 32 bytes, base64 encoded`);
+  }
+
+  return {
+    // Data keys record which master key wrapped them; the id is derived so it needs no configuration
+    id: (await sha256Hex(raw)).slice(0, 16),
+    key: await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt'])
+  };
+}
+
+let masterKeysPromise: Promise<{ current: MasterKey | null; previous: MasterKey | null }> | null = null;
+
+function masterKeys() {
+  masterKeysPromise ||= Promise.all([importMasterKey('NPR_MASTER_KEY'), importMasterKey('NPR_PREVIOUS_MASTER_KEY')])
+    .then(([current, previous]) => ({ current, previous }));
+  return masterKeysPromise;
+}
+
+export function encryptionConfigured(): boolean {
+  return !!Deno.env.get('NPR_MASTER_KEY');
+}
+
+async function currentMasterKey(): Promise<MasterKey> {
+  const { current } = await masterKeys();
+  if (!current) {
+    throw new EncryptionError('NPR_MASTER_KEY is not set, so sensitive data cannot be stored');
+  }
+  return current;
+}
+
+async function masterKeyById(id: string): Promise<MasterKey> {
+  const { current, previous } = await masterKeys();
+  const match = [current, previous].find(master => master?.id === id);
+  if (!match) {
+    throw new EncryptionError(`Master key ${id} is not configured`);
+  }
+  return match;
+}
+
+export function isEncrypted(value: any): boolean {
+  return !!value && typeof value === 'object' && value.$enc === ENVELOPE_ALGORITHM;
+}
+
+/**
+ * A user's data keys, loaded from KV on first use. Create one per request or operation; a new
+ * data key is made the first time something is encrypted for a user who has none.
+ */
+export class Keyring {
+  private record: any = null;
+  private loading: Promise<void> | null = null;
+  private unwrapped = new Map<string, CryptoKey>();
+
+  constructor(public userId: string) {}
+
+  private load(): Promise<void> {
+    this.loading ||= (async () => {
+      this.record = (await kv.get(dataKeyRecordKey(this.userId))) || null;
+    })();
+    return this.loading;
+  }
+
+  private async save(): Promise<void> {
+    await kv.set(dataKeyRecordKey(this.userId), this.record);
+  }
+
+  private async unwrap(kid: string): Promise<CryptoKey> {
+    await this.load();
+    const cached = this.unwrapped.get(kid);
+    if (cached) {
+      return cached;
+    }
+
+    const wrapped = this.record?.keys?.[kid];
+    if (!wrapped) {
+      throw new EncryptionError(`Data key ${kid} not found for user ${this.userId}`);
+    }
+
+    const master = await masterKeyById(wrapped.master_key_id);
+    const raw = await open(master.key, wrapped.iv, wrapped.wrapped);
+    const key = await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+    this.unwrapped.set(kid, key);
+    return key;
+  }
+
+  /**
+   * Make a new data key the current one; earlier keys stay until retireOtherKeys
+   */
+  async addKey(): Promise<string> {
+    await this.load();
+    return this.createKey();
+  }
+
+  private async createKey(): Promise<string> {
+    const master = await currentMasterKey();
+    const raw = crypto.getRandomValues(new Uint8Array(32));
+    const kid = `dk-${Date.now()}-${toBase64(crypto.getRandomValues(new Uint8Array(6))).replace(/[+/=]/g, '')}`;
+    const { iv, ct } = await seal(master.key, raw);
+
+    // Another request may have added a key since this keyring loaded; dropping it would lose its data
+    const latest = await kv.get(dataKeyRecordKey(this.userId));
+    this.record = {
+      user_id: this.userId,
+      current: kid,
+      keys: {
+        ...(latest?.keys || {}),
+        ...(this.record?.keys || {}),
+        [kid]: { wrapped: ct, iv, master_key_id: master.id, created_at: new Date().toISOString() }
+      }
+    };
+    await this.save();
+
+    this.unwrapped.set(kid, await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']));
+    return kid;
+  }
+
+  async retireOtherKeys(): Promise<void> {
+    await this.load();
+    if (!this.record) return;
+
+    this.record = { ...this.record, keys: { [this.record.current]: this.record.keys[this.record.current] } };
+    await this.save();
+  }
+
+  /**
+   * Wrap every data key with the current master key; returns how many were rewrapped
+   */
+  async rewrap(): Promise<number> {
+    await this.load();
+    const master = await currentMasterKey();
+    const stale = Object.keys(this.record?.keys || {}).filter(kid => this.record.keys[kid].master_key_id !== master.id);
+    if (stale.length === 0) return 0;
+
+    const keys = { ...this.record.keys };
+    for (const kid of stale) {
+      const previous = await masterKeyById(keys[kid].master_key_id);
+      const raw = await open(previous.key, keys[kid].iv, keys[kid].wrapped);
+      const { iv, ct } = await seal(master.key, raw);
+      keys[kid] = { ...keys[kid], wrapped: ct, iv, master_key_id: master.id };
+    }
+
+    this.record = { ...this.record, keys };
+    await this.save();
+    return stale.length;
+  }
+
+  async encrypt(value: any) {
+    await this.load();
+    // Only one caller may create the first key, so creation goes through the shared load promise
+    if (!this.record?.current) {
+      this.loading = this.loading!.then(async () => {
+        if (!this.record?.current) await this.createKey();
+      });
+      await this.loading;
+    }
+
+    const kid = this.record.current;
+    const { iv, ct } = await seal(await this.unwrap(kid), textEncoder.encode(JSON.stringify(value)));
+    return { $enc: ENVELOPE_ALGORITHM, kid, iv, ct };
+  }
+
+  async decrypt(envelope: any): Promise<any> {
+    const plaintext = await open(await this.unwrap(envelope.kid), envelope.iv, envelope.ct);
+    return JSON.parse(textDecoder.decode(plaintext));
+  }
+}
+
+/**
+ * The value with every envelope in it decrypted; plaintext passes through unchanged
+ */
+export async function decryptDeep(keyring: Keyring, value: any): Promise<any> {
+  if (isEncrypted(value)) {
+    return keyring.decrypt(value);
+  }
+  if (Array.isArray(value)) {
+    const items = [];
+    for (const item of value) {
+      items.push(await decryptDeep(keyring, item));
+    }
+    return items;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const result: Record<string, any> = {};
+    for (const [field, fieldValue] of Object.entries(value)) {
+      result[field] = await decryptDeep(keyring, fieldValue);
+    }
+    return result;
+  }
+  return value;
+}
+
+type FieldMapper = (value: any) => Promise<any>;
+
+function isEntry(value: any): boolean {
+  return !!value && typeof value === 'object' && typeof value.id === 'string' && 'type' in value && 'content' in value;
+}
+
+async function mapEntry(entry: any, map: FieldMapper) {
+  if (!isEntry(entry)) {
+    return entry;
+  }
+
+  let metadata = entry.metadata;
+  if (metadata && typeof metadata === 'object') {
+    metadata = { ...metadata };
+    for (const field of SENSITIVE_METADATA_FIELDS) {
+      if (field in metadata) {
+        metadata[field] = await map(metadata[field]);
+      }
+    }
+  }
+
+  return { ...entry, content: await map(entry.content), metadata };
+}
+
+async function mapNPRProfile(profile: any, map: FieldMapper) {
+  if (!profile?.self_report?.neurodiversity) {
+    return profile;
+  }
+  return {
+    ...profile,
+    self_report: { ...profile.self_report, neurodiversity: await map(profile.self_report.neurodiversity) }
+  };
+}
+
+async function mapEntryList(entries: any, map: FieldMapper) {
+  if (!Array.isArray(entries)) {
+    return entries;
+  }
+  const mapped = [];
+  for (const entry of entries) {
+    mapped.push(await mapEntry(entry, map));
+  }
+  return mapped;
+}
+
+// The server keeps allEntries on the document and the client under entries; both are covered
+async function mapProfileDocument(document: any, map: FieldMapper) {
+  if (!document || typeof document !== 'object') {
+    return document;
+  }
+
+  let entries = document.entries;
+  if (entries && typeof entries === 'object') {
+    entries = { ...entries };
+    for (const [type, value] of Object.entries(entries)) {
+      entries[type] = Array.isArray(value) ? await mapEntryList(value, map) : await mapEntry(value, map);
+    }
+  }
+
+  return {
+    ...document,
+    entries,
+    allEntries: await mapEntryList(document.allEntries, map),
+    profile: await mapNPRProfile(document.profile, map)
+  };
+}
+
+// Already encrypted and empty values are left as they are
+function encrypter(keyring: Keyring): FieldMapper {
+  return async value => (value === undefined || value === null || isEncrypted(value) ? value : keyring.encrypt(value));
+}
+
+export function encryptEntry(keyring: Keyring, entry: any) {
+  return mapEntry(entry, encrypter(keyring));
+}
+
+export function encryptNPRProfile(keyring: Keyring, profile: any) {
+  return mapNPRProfile(profile, encrypter(keyring));
+}
+
+export function encryptProfileDocument(keyring: Keyring, document: any) {
+  return mapProfileDocument(document, encrypter(keyring));
+}
+
+// A document's text and its section labels, which are its headings
+export async function encryptFileText(keyring: Keyring, record: any) {
+  const encrypt = encrypter(keyring);
+  return { ...record, text: await encrypt(record.text), sections: await encrypt(record.sections) };
+}
+
+// A conversation's messages, and its title, which is taken from the first message
+export async function encryptConversation(keyring: Keyring, conversation: any) {
+  const encrypt = encrypter(keyring);
+  return {
+    ...conversation,
+    title: await encrypt(conversation.title),
+    messages: await encrypt(conversation.messages)
+  };
+}
+
+// A logged AI interaction's prompt and reply
+export async function encryptInteraction(keyring: Keyring, record: any) {
+  const encrypt = encrypter(keyring);
+  return { ...record, prompt: await encrypt(record.prompt), response: await encrypt(record.response) };
+}
+
+// A task's (or a series template's) title and description, which often quote the user's goals
+export async function encryptTask(keyring: Keyring, task: any) {
+  const encrypt = encrypter(keyring);
+  return { ...task, title: await encrypt(task.title), description: await encrypt(task.description) };
+}
+
+/**
+ * Whether a stored profile document still has sensitive fields in plaintext
+ */
+export async function hasPlaintextFields(document: any): Promise<boolean> {
+  let found = false;
+  await mapProfileDocument(document, async value => {
+    if (value !== undefined && value !== null && !isEncrypted(value)) {
+      found = true;
+    }
+    return value;
+  });
+  return found;
+}
+
+/**
+ * Give the user a new data key. `reencrypt` must decrypt and re-encrypt everything stored with
+ * the old keys using the keyring it is given; the old keys are dropped once it returns.
+ */
+export async function rotateDataKey(userId: string, reencrypt: (keyring: Keyring) => Promise<void>): Promise<string> {
+  const keyring = new Keyring(userId);
+  const kid = await keyring.addKey();
+  await reencrypt(keyring);
+  await keyring.retireOtherKeys();
+
+  console.log(`Data key for user ${userId} rotated to ${kid}`);
+  return kid;
+}
+
+/**
+ * Rewrap every user's data keys with the current master key, after NPR_MASTER_KEY has changed
+ */
+export async function rewrapDataKeys(supabase: SupabaseClient) {
+  const records = await loadRecordsLike(supabase, 'npr:%:data-key');
+  let rewrapped = 0;
+
+  for (const { value } of records) {
+    if (value?.user_id) {
+      rewrapped += await new Keyring(value.user_id).rewrap();
+    }
+  }
+
+  console.log(`Rewrapped ${rewrapped} data keys for ${records.length} users`);
+  return { users: records.length, rewrapped };
+}
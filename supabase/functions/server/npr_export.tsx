@@ -0,0 +1,258 @@
+// Personal data export (GDPR subject access).
+//
+// buildExport gathers everything stored about a user - every KV key under `npr:${userId}:`, the
+// metadata and extracted text of their uploads at `file:${fileId}` and `file:${fileId}:text`, and the
+// uploaded objects themselves - into a zip
+// with a machine-readable manifest.json and a human-readable summary.md. Every file in the archive
+// apart from the manifest is a Merkle leaf, hashed as in npr_ledger, so the manifest's merkle_root
+// can be recomputed from the archive alone and compared with the receipt kept at
+// `npr:${userId}:exports`. Encrypted fields are exported decrypted; the wrapped data keys are
+// left out, as they are of no use outside the server.
+
+import { zipSync } from 'npm:fflate@0.8.2';
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import * as kv from './kv_store.tsx';
+import { getLedger, hashBytesLeaf, merkleRoot } from './npr_ledger.tsx';
+import { CONSENT_TYPES, loadConsent } from './npr_consent.tsx';
+import { loadRecordsByPrefix } from './npr_kv_query.tsx';
+import { fileTextKey } from './file_extraction.tsx';
+import { dataKeyRecordKey, decryptDeep, Keyring } from './npr_encryption.tsx';
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+// Uploaded objects beyond this total are listed in the manifest but left out of the archive
+const MAX_OBJECT_BYTES = 100 * 1024 * 1024;
+
+// Storage lists at most this many objects per request
+const LIST_PAGE_SIZE = 1000;
+const MAX_RECEIPTS = 50;
+
+// Uploads are stored as `${userId}/${fileId}_${originalName}`
+const UPLOAD_NAME = /^(file_\d+_[a-z0-9]+)_(.*)$/;
+
+const KIND_LABELS: Record<string, string> = {
+  entry: 'NPR entries',
+  profile: 'Profile',
+  psychometric: 'Psychometric assessment',
+  'assessment-snapshots': 'Assessment snapshots',
+  'assessment-session': 'Assessment sessions',
+  insights: 'Insights',
+  tasks: 'Tasks',
+  'task-series': 'Recurring task series',
+  interaction: 'AI interactions',
+  chat: 'Chat conversations',
+  consent: 'Consent',
+  'consent-history': 'Consent changes',
+  ledger: 'Integrity ledger',
+  idempotency: 'Cached request responses',
+  exports: 'Earlier exports'
+};
+
+const textEncoder = new TextEncoder();
+
+export function exportsKey(userId: string): string {
+  return `npr:${userId}:exports`;
+}
+
+function safeSegment(segment: string): string {
+  return segment.replace(/[^A-Za-z0-9._-]/g, '_') || '_';
+}
+
+// `npr:${userId}:entry:abc` is stored at kv/entry/abc.json
+function kvPath(key: string, prefix: string): string {
+  return `kv/${key.slice(prefix.length).split(':').map(safeSegment).join('/')}.json`;
+}
+
+/**
+ * Every object the user uploaded. Fails if they cannot be listed, so an export or purge is never
+ * based on a partial listing.
+ */
+export async function listUploads(supabase: SupabaseClient, bucket: string, userId: string): Promise<any[]> {
+  const objects = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage.from(bucket).list(userId, {
+      limit: LIST_PAGE_SIZE,
+      offset,
+      sortBy: { column: 'name', order: 'asc' }
+    });
+    if (error) {
+      // The bucket is only created with the first upload, so without it there is nothing to list
+      if (/bucket not found/i.test(error.message)) {
+        return [];
+      }
+      throw new Error(`Could not list uploads for user ${userId}: ${error.message}`);
+    }
+
+    // Folders are listed with a null id
+    objects.push(...(data ?? []).filter(object => object.id));
+    if (!data || data.length < LIST_PAGE_SIZE) {
+      return objects;
+    }
+  }
+}
+
+function summarize(manifest: any, records: Array<{ key: string; value: any }>, prefix: string, consent: any): string {
+  // Records per kind of key; a key holding a list counts each item
+  const kinds = new Map<string, number>();
+  for (const { key, value } of records) {
+    const kind = key.slice(prefix.length).split(':')[0];
+    kinds.set(kind, (kinds.get(kind) || 0) + (Array.isArray(value) ? value.length : 1));
+  }
+
+  const uploads = manifest.uploads;
+  const included = uploads.filter((upload: any) => upload.object_path).length;
+
+  return [
+    '# Your akilii data export',
+    '',
+    `Generated ${manifest.generated_at} for account ${manifest.user_id}.`,
+    '',
+    'This archive holds everything akilii stores about you. Each record is a JSON file under kv/,',
+    'named after the key it is stored under; uploaded files and their details are under files/.',
+    'manifest.json lists every file in the archive with its size and hash.',
+    '',
+    '## What is stored',
+    '',
+    ...[...kinds.entries()].map(([kind, count]) =>
+      `- ${KIND_LABELS[kind] || kind}: ${count} ${count === 1 ? 'record' : 'records'}`),
+    `- Uploaded files: ${uploads.length}` +
+      (included < uploads.length ? ` (${uploads.length - included} too large to include; listed in manifest.json)` : ''),
+    '',
+    '## Consent',
+    '',
+    ...CONSENT_TYPES.map(type => `- ${type}: ${consent.grants[type] ? 'granted' : 'not granted'}`),
+    ...(consent.version > 0 ? ['', `Consent record version ${consent.version}, last changed ${consent.updated_at}.`] : []),
+    '',
+    '## Verifying this export',
+    '',
+    'Every file except manifest.json is a leaf of a SHA-256 Merkle tree, taken in path order:',
+    'leaf = SHA-256(0x00 || file bytes), node = SHA-256(0x01 || left || right), and a node without',
+    'a partner is carried up unchanged. The root must equal merkle_root in manifest.json; akilii',
+    `keeps a copy of it under export ${manifest.export_id}, so the archive can be checked against it later.`,
+    ''
+  ].join('\n');
+}
+
+/**
+ * Everything stored about the user as a zip archive, with its manifest. A receipt with the
+ * archive's Merkle root is recorded so the export can be verified later.
+ */
+export async function buildExport(supabase: SupabaseClient, bucket: string, userId: string, now = new Date()) {
+  const prefix = `npr:${userId}:`;
+  const files: Record<string, Uint8Array> = {};
+  const addJSON = (path: string, value: any) => {
+    files[path] = textEncoder.encode(JSON.stringify(value, null, 2));
+  };
+
+  const keyring = new Keyring(userId);
+  const records = [];
+  for (const record of await loadRecordsByPrefix(supabase, prefix)) {
+    if (record.key !== dataKeyRecordKey(userId)) {
+      records.push({ key: record.key, value: await decryptDeep(keyring, record.value) });
+    }
+  }
+  const keys = records.map(({ key, value }) => {
+    const path = kvPath(key, prefix);
+    addJSON(path, value);
+    return { key, path };
+  });
+
+  const uploads = [];
+  let objectBytes = 0;
+  for (const object of await listUploads(supabase, bucket, userId)) {
+    const match = UPLOAD_NAME.exec(object.name);
+    const fileId = match?.[1] ?? null;
+    const metadata = fileId ? await kv.get(`file:${fileId}`) : null;
+    const size = object.metadata?.size ?? metadata?.size ?? 0;
+
+    const upload = {
+      file_id: fileId,
+      name: match?.[2] ?? object.name,
+      storage_path: `${userId}/${object.name}`,
+      size,
+      metadata_path: null as string | null,
+      text_path: null as string | null,
+      object_path: null as string | null
+    };
+
+    if (metadata?.owner_id === userId) {
+      upload.metadata_path = `files/metadata/${safeSegment(fileId!)}.json`;
+      addJSON(upload.metadata_path, metadata);
+
+      const fileText = await decryptDeep(keyring, await kv.get(fileTextKey(fileId!)));
+      if (fileText?.owner_id === userId) {
+        upload.text_path = `files/text/${safeSegment(fileId!)}.json`;
+        addJSON(upload.text_path, fileText);
+      }
+    }
+
+    if (objectBytes + size <= MAX_OBJECT_BYTES) {
+      const { data, error } = await supabase.storage.from(bucket).download(upload.storage_path);
+      // An archive silently missing a file would not be the full footprint it claims to be
+      if (error) {
+        throw new Error(`Could not download ${upload.storage_path} for export: ${error.message}`);
+      }
+      upload.object_path = `files/objects/${safeSegment(object.name)}`;
+      files[upload.object_path] = new Uint8Array(await data.arrayBuffer());
+      objectBytes += data.size;
+    }
+
+    uploads.push(upload);
+  }
+
+  const ledger = await getLedger(userId);
+  const manifest: any = {
+    format: 'akilii-npr-export',
+    format_version: EXPORT_FORMAT_VERSION,
+    export_id: `export-${now.getTime()}`,
+    user_id: userId,
+    generated_at: now.toISOString(),
+    keys,
+    uploads,
+    ledger: {
+      merkle_root: ledger.merkle_root,
+      entry_count: ledger.records.length
+    }
+  };
+
+  files['summary.md'] = textEncoder.encode(summarize(manifest, records, prefix, await loadConsent(userId)));
+
+  const paths = Object.keys(files).sort();
+  const leaves = await Promise.all(paths.map(path => hashBytesLeaf(files[path])));
+  manifest.files = paths.map((path, index) => ({ path, bytes: files[path].length, leaf_hash: leaves[index] }));
+  manifest.merkle = {
+    algorithm: 'sha256',
+    leaf: 'sha256(0x00 || file bytes)',
+    node: 'sha256(0x01 || left || right)',
+    root: await merkleRoot(leaves)
+  };
+  addJSON('manifest.json', manifest);
+
+  const receipt = {
+    export_id: manifest.export_id,
+    generated_at: manifest.generated_at,
+    merkle_root: manifest.merkle.root,
+    file_count: paths.length
+  };
+  const receipts = (await kv.get(exportsKey(userId))) || [];
+  await kv.set(exportsKey(userId), [...receipts, receipt].slice(-MAX_RECEIPTS));
+
+  console.log(`Export ${manifest.export_id} for user ${userId}: ${paths.length} files, root ${manifest.merkle.root}`);
+  return { archive: zipSync(files, { level: 6 }), manifest };
+}
+
+/**
+ * Whether a Merkle root recomputed from an archive matches the one recorded when it was exported
+ */
+export async function verifyExport(userId: string, exportId: string, merkleRootHash: string) {
+  const receipts: any[] = (await kv.get(exportsKey(userId))) || [];
+  const receipt = receipts.find(candidate => candidate.export_id === exportId);
+
+  return {
+    export_id: exportId,
+    known: !!receipt,
+    valid: !!receipt && receipt.merkle_root === merkleRootHash,
+    generated_at: receipt?.generated_at ?? null,
+    verified_at: new Date().toISOString()
+  };
+}
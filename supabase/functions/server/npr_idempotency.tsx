@@ -0,0 +1,164 @@
+// Idempotency-Key support for mutating routes.
+//
+// A client that retries a request it could not confirm (timeout, dropped connection, outbox
+// replay) sends the same Idempotency-Key each time. The first request to finish stores its
+// response at `npr:${userId}:idempotency:${key}`; later requests with that key get the stored
+// response back instead of running the route again. Results are kept for IDEMPOTENCY_TTL_MS.
+// A stored response can echo back entry text, so its body is encrypted like the entry itself.
+
+import type { Context, Next } from 'npm:hono';
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import * as kv from './kv_store.tsx';
+import { canonicalJSON } from './npr_ledger.tsx';
+import { decryptDeep, encryptionConfigured, Keyring } from './npr_encryption.tsx';
+import { loadRecordsByPrefix } from './npr_kv_query.tsx';
+
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// How long a request may hold its key before another request with the key may take over
+const IN_PROGRESS_LEASE_MS = 60 * 1000;
+
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,255}$/;
+
+export interface IdempotencyRecord {
+  key: string;
+  status: 'in_progress' | 'completed';
+  request_hash: string;
+  response_status: number | null;
+  response_body: any;
+  created_at: string;
+  expires_at: string;
+}
+
+const textEncoder = new TextEncoder();
+
+function idempotencyPrefix(userId: string): string {
+  return `npr:${userId}:idempotency:`;
+}
+
+export function idempotencyKey(userId: string, key: string): string {
+  return `${idempotencyPrefix(userId)}${key}`;
+}
+
+// Same key, different request: the client reused a key, which must not return an unrelated response
+async function hashRequest(method: string, path: string, body: any): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest(
+    'SHA-256',
+    textEncoder.encode(canonicalJSON({ method, path, body }))
+  );
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function isExpired(record: IdempotencyRecord, now: number): boolean {
+  return Date.parse(record.expires_at) <= now;
+}
+
+// Drop the user's expired records; kv has no TTL of its own
+async function pruneExpiredRecords(userId: string): Promise<void> {
+  const now = Date.now();
+  const records: IdempotencyRecord[] = await kv.getByPrefix(idempotencyPrefix(userId));
+  const expiredKeys = records
+    .filter(record => record?.key && isExpired(record, now))
+    .map(record => idempotencyKey(userId, record.key));
+
+  if (expiredKeys.length > 0) {
+    await kv.mdel(expiredKeys);
+  }
+}
+
+/**
+ * Re-encrypt the user's stored responses with the keyring's current data key, during rotation
+ */
+export async function reencryptIdempotencyRecords(supabase: SupabaseClient, userId: string, keyring: Keyring): Promise<void> {
+  for (const { key, value: record } of await loadRecordsByPrefix(supabase, idempotencyPrefix(userId))) {
+    if (record?.status === 'completed') {
+      const body = await decryptDeep(keyring, record.response_body);
+      await kv.set(key, { ...record, response_body: await keyring.encrypt(body) });
+    }
+  }
+}
+
+/**
+ * Hono middleware that makes a route idempotent per user and Idempotency-Key. Requests without
+ * the header run as before. Only JSON responses below 500 are stored, so a request that failed
+ * on the server can be retried with the same key.
+ */
+export function idempotency() {
+  return async (c: Context, next: Next) => {
+    const key = c.req.header('Idempotency-Key');
+    if (!key) {
+      return next();
+    }
+
+    if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+      return c.json({ error: 'Idempotency-Key must be 8-255 letters, digits, dashes or underscores' }, 400);
+    }
+
+    // Runs after the auth middleware; Hono caches the parsed body, so the route can still read it
+    const userId = c.get('user').id;
+    const body = await c.req.json().catch(() => null);
+
+    const storageKey = idempotencyKey(userId, key);
+    const requestHash = await hashRequest(c.req.method, c.req.path, body);
+    const now = Date.now();
+    const existing: IdempotencyRecord | null = await kv.get(storageKey);
+
+    if (existing && !isExpired(existing, now)) {
+      if (existing.request_hash !== requestHash) {
+        return c.json({ error: 'Idempotency-Key was already used for a different request' }, 422);
+      }
+
+      if (existing.status === 'completed') {
+        // Bodies stored before encryption was configured are plaintext and pass through
+        const responseBody = await decryptDeep(new Keyring(userId), existing.response_body);
+        c.header('Idempotent-Replayed', 'true');
+        return c.json(responseBody, existing.response_status as any);
+      }
+
+      if (now - Date.parse(existing.created_at) < IN_PROGRESS_LEASE_MS) {
+        c.header('Retry-After', '1');
+        return c.json({ error: 'A request with this Idempotency-Key is still in progress', in_progress: true }, 409);
+      }
+    }
+
+    const record: IdempotencyRecord = {
+      key,
+      status: 'in_progress',
+      request_hash: requestHash,
+      response_status: null,
+      response_body: null,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + IDEMPOTENCY_TTL_MS).toISOString()
+    };
+    await kv.set(storageKey, record);
+
+    try {
+      await next();
+    } catch (error) {
+      await kv.del(storageKey);
+      throw error;
+    }
+
+    const isJSON = c.res.headers.get('Content-Type')?.includes('application/json');
+    if (c.res.status >= 500 || !isJSON) {
+      await kv.del(storageKey);
+      return;
+    }
+
+    const responseBody = await c.res.clone().json();
+    await kv.set(storageKey, {
+      ...record,
+      status: 'completed',
+      response_status: c.res.status,
+      response_body: encryptionConfigured() ? await new Keyring(userId).encrypt(responseBody) : responseBody
+    });
+
+    try {
+      await pruneExpiredRecords(userId);
+    } catch (error) {
+      console.warn('Could not prune idempotency records:', error);
+    }
+  };
+}
@@ -0,0 +1,46 @@
+// Queries kv_store does not offer. Its getByPrefix returns values without their keys and it cannot
+// filter on a value, so these read its table directly. PostgREST returns at most 1000 rows per
+// request, so every query pages until it runs out of rows.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+const KV_TABLE = 'kv_store_feeffd69';
+
+const PAGE_SIZE = 1000;
+
+// Every row of a query, fetched a page at a time in key order
+async function loadAllPages<T>(query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: any }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(error.message);
+    }
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * Every record whose key matches a LIKE pattern, ordered by key
+ */
+export async function loadRecordsLike(supabase: SupabaseClient, pattern: string): Promise<Array<{ key: string; value: any }>> {
+  return loadAllPages((from, to) =>
+    supabase.from(KV_TABLE).select('key, value').like('key', pattern).order('key').range(from, to));
+}
+
+export async function loadRecordsByPrefix(supabase: SupabaseClient, prefix: string): Promise<Array<{ key: string; value: any }>> {
+  // LIKE treats `_` as a wildcard, so make sure every key really has the prefix
+  return (await loadRecordsLike(supabase, `${prefix}%`)).filter(record => record.key.startsWith(prefix));
+}
+
+/**
+ * Keys of the `file:${fileId}` metadata and `file:${fileId}:text` records the user owns
+ */
+export async function loadFileKeys(supabase: SupabaseClient, userId: string): Promise<string[]> {
+  const records = await loadAllPages<{ key: string }>((from, to) =>
+    supabase.from(KV_TABLE).select('key').like('key', 'file:%').eq('value->>owner_id', userId).order('key').range(from, to));
+  return records.map(record => record.key);
+}
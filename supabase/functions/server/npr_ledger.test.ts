@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const store = new Map<string, any>();
+
+vi.mock('./kv_store.tsx', () => ({
+  get: async (key: string) => structuredClone(store.get(key) ?? null),
+  set: async (key: string, value: any) => {
+    store.set(key, structuredClone(value));
+  }
+}));
+
+import {
+  appendToLedger,
+  canonicalJSON,
+  hashEntryLeaf,
+  LedgerConflictError,
+  ledgerKey,
+  merkleRoot,
+  verifyLedger
+} from './npr_ledger.tsx';
+import { signData } from './npr_signatures.tsx';
+
+async function signedEntry(id: string, content: string) {
+  const entry = { id, type: 'goal', content, timestamp: '2025-03-01T10:00:00.000Z', metadata: {} };
+  const signature = await signData({
+    type: entry.type,
+    content: entry.content,
+    timestamp: entry.timestamp,
+    metadata: entry.metadata
+  });
+  return { ...entry, signature };
+}
+
+describe('canonicalJSON', () => {
+  it('sorts keys and drops undefined fields', () => {
+    expect(canonicalJSON({ b: 1, a: { d: [1, undefined], c: undefined } })).toBe('{"a":{"d":[1,null]},"b":1}');
+  });
+
+  it('serialises dates as ISO strings', () => {
+    expect(canonicalJSON({ at: new Date('2025-01-01T00:00:00Z') })).toBe('{"at":"2025-01-01T00:00:00.000Z"}');
+  });
+});
+
+describe('merkleRoot', () => {
+  it('is null for no leaves and the leaf itself for one', async () => {
+    expect(await merkleRoot([])).toBeNull();
+    const leaf = await hashEntryLeaf({ id: 'a' });
+    expect(await merkleRoot([leaf])).toBe(leaf);
+  });
+
+  it('depends on leaf order and promotes an unpaired leaf', async () => {
+    const leaves = await Promise.all(['a', 'b', 'c'].map(id => hashEntryLeaf({ id })));
+    const root = await merkleRoot(leaves);
+
+    expect(root).toMatch(/^[0-9a-f]{64}$/);
+    expect(await merkleRoot([leaves[1], leaves[0], leaves[2]])).not.toBe(root);
+    expect(await merkleRoot(leaves)).toBe(root);
+  });
+});
+
+describe('ledger', () => {
+  beforeEach(() => store.clear());
+
+  it('verifies entries it recorded, with an inclusion proof per entry', async () => {
+    const entries = [await signedEntry('e1', 'Run a 10k'), await signedEntry('e2', 'Read more')];
+    const { ledger, proofs } = await appendToLedger('user-1', entries);
+
+    expect(ledger.records.map(record => record.seq)).toEqual([0, 1]);
+    expect(ledger.records[1].prev_hash).toBe(ledger.records[0].record_hash);
+    expect(proofs.map(proof => proof.root)).toEqual([ledger.merkle_root, ledger.merkle_root]);
+
+    const verification = await verifyLedger('user-1', entries);
+    expect(verification.valid).toBe(true);
+    expect(verification.merkle_root).toBe(ledger.merkle_root);
+  });
+
+  it('refuses to record the same entry twice', async () => {
+    const entry = await signedEntry('e1', 'Run a 10k');
+    await appendToLedger('user-1', [entry]);
+
+    await expect(appendToLedger('user-1', [entry])).rejects.toBeInstanceOf(LedgerConflictError);
+  });
+
+  it('reports an entry whose stored copy was edited', async () => {
+    const entry = await signedEntry('e1', 'Run a 10k');
+    await appendToLedger('user-1', [entry]);
+
+    const verification = await verifyLedger('user-1', [{ ...entry, content: 'Run a marathon' }]);
+    expect(verification.valid).toBe(false);
+    expect(verification.tampered_entry_ids).toEqual(['e1']);
+  });
+
+  it('reports a broken chain when a record is rewritten', async () => {
+    const entries = [await signedEntry('e1', 'Run a 10k'), await signedEntry('e2', 'Read more')];
+    await appendToLedger('user-1', entries);
+
+    const stored = store.get(ledgerKey('user-1'));
+    stored.records[0].appended_at = '2020-01-01T00:00:00.000Z';
+
+    const verification = await verifyLedger('user-1', entries);
+    expect(verification.chain_valid).toBe(false);
+  });
+});
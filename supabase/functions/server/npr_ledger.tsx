@@ -0,0 +1,313 @@
+// Append-only, hash-chained integrity ledger for NPR entries.
+//
+// Every saved entry gets a ledger record whose hash covers the previous record, so
+// rewriting or dropping history breaks the chain. Entry leaves use the same
+// domain-separated SHA-256 scheme as utils/nprCryptoService.tsx, so Merkle roots and
+// inclusion proofs produced here verify on the client and vice versa.
+
+import * as kv from './kv_store.tsx';
+import { verifySignature } from './npr_signatures.tsx';
+
+const MERKLE_LEAF_PREFIX = 0x00;
+const MERKLE_NODE_PREFIX = 0x01;
+const GENESIS_HASH = '0'.repeat(64);
+
+export interface LedgerRecord {
+  seq: number;
+  entry_id: string;
+  leaf_hash: string;
+  prev_hash: string;
+  record_hash: string;
+  appended_at: string;
+}
+
+export interface Ledger {
+  records: LedgerRecord[];
+  merkle_root: string | null;
+  updated_at: string | null;
+}
+
+export interface InclusionProof {
+  entry_id: string;
+  leaf: string;
+  path: Array<{ hash: string; isLeft: boolean }>;
+  root: string;
+}
+
+export interface LedgerVerification {
+  valid: boolean;
+  chain_valid: boolean;
+  merkle_root: string | null;
+  entry_count: number;
+  tampered_entry_ids: string[];
+  unledgered_entry_ids: string[];
+  proofs: InclusionProof[];
+  verified_at: string;
+}
+
+export class LedgerConflictError extends Error {
+  constructor(public entryId: string) {
+    super(`Entry ${entryId} is already recorded in the ledger`);
+    this.name = 'LedgerConflictError';
+  }
+}
+
+const textEncoder = new TextEncoder();
+
+export function ledgerKey(userId: string): string {
+  return `npr:${userId}:ledger`;
+}
+
+// Canonical JSON: sorted keys, undefined dropped. Must match NPRCryptographicService.canonicalJSON.
+export function canonicalJSON(data: any): string {
+  if (data === null || data === undefined) {
+    return 'null';
+  }
+
+  if (data instanceof Date) {
+    return JSON.stringify(data.toISOString());
+  }
+
+  if (Array.isArray(data)) {
+    return `[${data.map(item => (item === undefined ? 'null' : canonicalJSON(item))).join(',')}]`;
+  }
+
+  if (typeof data === 'object') {
+    if (typeof data.toJSON === 'function') {
+      return canonicalJSON(data.toJSON());
+    }
+
+    const fields = Object.keys(data)
+      .filter(key => data[key] !== undefined && typeof data[key] !== 'function')
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJSON(data[key])}`);
+
+    return `{${fields.join(',')}}`;
+  }
+
+  return JSON.stringify(data);
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function concatBytes(...parts: Array<ArrayLike<number>>): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+export async function hashEntryLeaf(entry: any): Promise<string> {
+  const payload = textEncoder.encode(canonicalJSON({
+    id: entry.id,
+    type: entry.type,
+    content: entry.content,
+    timestamp: entry.timestamp,
+    signature: entry.signature
+  }));
+
+  return sha256Hex(concatBytes([MERKLE_LEAF_PREFIX], payload));
+}
+
+// Leaf hash of arbitrary bytes, for Merkle trees over things other than entries (e.g. data exports)
+export async function hashBytesLeaf(bytes: Uint8Array): Promise<string> {
+  return sha256Hex(concatBytes([MERKLE_LEAF_PREFIX], bytes));
+}
+
+async function hashMerkleNode(leftHash: string, rightHash: string): Promise<string> {
+  return sha256Hex(concatBytes([MERKLE_NODE_PREFIX], hexToBytes(leftHash), hexToBytes(rightHash)));
+}
+
+async function hashLedgerRecord(record: Omit<LedgerRecord, 'record_hash'>): Promise<string> {
+  return sha256Hex(textEncoder.encode(canonicalJSON(record)));
+}
+
+// Build every level of the tree; unpaired nodes are promoted unchanged, as on the client
+async function buildMerkleLevels(leafHashes: string[]): Promise<string[][]> {
+  const levels = [leafHashes];
+
+  while (levels[levels.length - 1].length > 1) {
+    const current = levels[levels.length - 1];
+    const next: string[] = [];
+
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? await hashMerkleNode(current[i], current[i + 1]) : current[i]);
+    }
+
+    levels.push(next);
+  }
+
+  return levels;
+}
+
+export async function merkleRoot(leafHashes: string[]): Promise<string | null> {
+  const levels = await buildMerkleLevels(leafHashes);
+  return levels[levels.length - 1][0] || null;
+}
+
+function buildInclusionProof(levels: string[][], leafIndex: number, entryId: string): InclusionProof {
+  const path: Array<{ hash: string; isLeft: boolean }> = [];
+  let index = leafIndex;
+
+  for (const level of levels.slice(0, -1)) {
+    if (index % 2 === 1) {
+      path.push({ hash: level[index - 1], isLeft: true });
+    } else if (index + 1 < level.length) {
+      path.push({ hash: level[index + 1], isLeft: false });
+    }
+    index = Math.floor(index / 2);
+  }
+
+  return {
+    entry_id: entryId,
+    leaf: levels[0][leafIndex],
+    path,
+    root: levels[levels.length - 1][0]
+  };
+}
+
+/**
+ * Check an entry's CryptographicSignature against its content. The client signs
+ * { type, content, timestamp, metadata } salted with the signature's salt and timestamp.
+ */
+export async function verifyEntrySignature(entry: any): Promise<boolean> {
+  return verifySignature({
+    type: entry?.type,
+    content: entry?.content,
+    timestamp: entry?.timestamp,
+    metadata: entry?.metadata
+  }, entry?.signature);
+}
+
+export async function getLedger(userId: string): Promise<Ledger> {
+  return (await kv.get(ledgerKey(userId))) || { records: [], merkle_root: null, updated_at: null };
+}
+
+/**
+ * Append entries to the user's ledger, extend the hash chain and recompute the Merkle root.
+ * Returns the updated ledger plus an inclusion proof for each appended entry.
+ */
+export async function appendToLedger(
+  userId: string,
+  entries: any[]
+): Promise<{ ledger: Ledger; proofs: InclusionProof[] }> {
+  const ledger = await getLedger(userId);
+  const recordedIds = new Set(ledger.records.map(record => record.entry_id));
+
+  for (const entry of entries) {
+    if (recordedIds.has(entry.id)) {
+      throw new LedgerConflictError(entry.id);
+    }
+    recordedIds.add(entry.id);
+
+    const previous = ledger.records[ledger.records.length - 1];
+    const record = {
+      seq: ledger.records.length,
+      entry_id: entry.id,
+      leaf_hash: await hashEntryLeaf(entry),
+      prev_hash: previous ? previous.record_hash : GENESIS_HASH,
+      appended_at: new Date().toISOString()
+    };
+
+    ledger.records.push({ ...record, record_hash: await hashLedgerRecord(record) });
+  }
+
+  const levels = await buildMerkleLevels(ledger.records.map(record => record.leaf_hash));
+  ledger.merkle_root = levels[levels.length - 1][0] || null;
+  ledger.updated_at = new Date().toISOString();
+
+  await kv.set(ledgerKey(userId), ledger);
+
+  const firstAppended = ledger.records.length - entries.length;
+  const proofs = entries.map((entry, offset) => buildInclusionProof(levels, firstAppended + offset, entry.id));
+
+  return { ledger, proofs };
+}
+
+/**
+ * Re-derive every ledger record from the currently stored entries. The same entry may be
+ * stored in several places (its own key, the profile's entry lists); it is reported as
+ * tampered when no copy exists, any copy no longer matches the recorded leaf hash, or a
+ * copy's signature does not match its content.
+ */
+export async function verifyLedger(
+  userId: string,
+  storedEntries: any[],
+  proofEntryIds?: string[]
+): Promise<LedgerVerification> {
+  const ledger = await getLedger(userId);
+  const tampered = new Set<string>();
+  const copiesById = new Map<string, any[]>();
+
+  for (const entry of storedEntries) {
+    if (!entry?.id) continue;
+    copiesById.set(entry.id, [...(copiesById.get(entry.id) || []), entry]);
+  }
+
+  let chainValid = true;
+  let previousHash = GENESIS_HASH;
+
+  for (const [index, record] of ledger.records.entries()) {
+    const { record_hash, ...body } = record;
+
+    if (record.seq !== index || record.prev_hash !== previousHash || await hashLedgerRecord(body) !== record_hash) {
+      chainValid = false;
+    }
+    previousHash = record_hash;
+
+    const copies = copiesById.get(record.entry_id) || [];
+    if (copies.length === 0) {
+      tampered.add(record.entry_id);
+    }
+    for (const entry of copies) {
+      if (await hashEntryLeaf(entry) !== record.leaf_hash || !(await verifyEntrySignature(entry))) {
+        tampered.add(record.entry_id);
+      }
+    }
+  }
+
+  const levels = ledger.records.length > 0
+    ? await buildMerkleLevels(ledger.records.map(record => record.leaf_hash))
+    : null;
+  const merkleRoot = levels ? levels[levels.length - 1][0] : null;
+
+  if (merkleRoot !== ledger.merkle_root) {
+    chainValid = false;
+  }
+
+  const ledgerIds = new Set(ledger.records.map(record => record.entry_id));
+  const wantedProofs = proofEntryIds ? new Set(proofEntryIds) : null;
+  const proofs = levels
+    ? ledger.records
+        .map((record, index) => ({ record, index }))
+        .filter(({ record }) => !wantedProofs || wantedProofs.has(record.entry_id))
+        .map(({ record, index }) => buildInclusionProof(levels, index, record.entry_id))
+    : [];
+
+  return {
+    valid: chainValid && tampered.size === 0,
+    chain_valid: chainValid,
+    merkle_root: merkleRoot,
+    entry_count: ledger.records.length,
+    tampered_entry_ids: [...tampered],
+    unledgered_entry_ids: [...copiesById.keys()].filter(id => !ledgerIds.has(id)),
+    proofs,
+    verified_at: new Date().toISOString()
+  };
+}
@@ -0,0 +1,206 @@
+// Versioned schema for the stored profile document at `npr:${userId}:profile`.
+//
+// Version 1 is NPRUserProfile in utils/nprTypes, carrying schema_version. Version 0 is anything
+// written before that: the server's `{ entries, allEntries, profile }` document without the
+// battery or verification sections, possibly holding the legacy 1-10 self-report profile
+// (DetailedNPRProfile), either as its `profile` or as the whole document. Documents are
+// upgraded one version at a time when read and written back, so each migration runs once.
+//
+// Sensitive fields are stored encrypted (see npr_encryption): loadProfileDocument returns the
+// document decrypted and saveProfileDocument encrypts it again.
+
+import * as kv from './kv_store.tsx';
+import { signData } from './npr_signatures.tsx';
+import { validateProfile } from './npr_profile_validation.tsx';
+import {
+  decryptDeep,
+  encryptionConfigured,
+  encryptProfileDocument,
+  hasPlaintextFields,
+  Keyring
+} from './npr_encryption.tsx';
+
+export const PROFILE_SCHEMA_VERSION = 1;
+
+export function profileKey(userId: string): string {
+  return `npr:${userId}:profile`;
+}
+
+/**
+ * The document for a user who has no stored profile yet
+ */
+export function emptyProfileDocument() {
+  return {
+    schema_version: PROFILE_SCHEMA_VERSION,
+    entries: {},
+    allEntries: [],
+    profile: null,
+    psychometric_battery: {
+      completion_status: {
+        cognitive_assessment: false,
+        personality_profile: false,
+        emotional_intelligence: false,
+        standardized_assessments: false
+      },
+      last_assessment_date: null,
+      next_scheduled_assessment: null
+    },
+    verification: {
+      is_verified: false,
+      last_verification_date: null,
+      merkle_root_hash: null,
+      integrity_status: 'pending'
+    }
+  };
+}
+
+export function isSelfReportProfile(value: any): boolean {
+  return !!value && typeof value === 'object' && typeof value.cognitiveTraits === 'object';
+}
+
+// 1-10 self-ratings onto the canonical 0-100 scale; a missing rating takes the form's default of 5
+function fromTenPointScale(value: any): number {
+  const rating = typeof value === 'number' && Number.isFinite(value) ? Math.min(10, Math.max(1, value)) : 5;
+  return Math.round(((rating - 1) / 9) * 100);
+}
+
+function stringList(value: any): string[] {
+  return Array.isArray(value) ? value.filter(item => typeof item === 'string') : [];
+}
+
+/**
+ * A canonical NPRProfile from the legacy self-report profile. Self-ratings go to self_report
+ * rather than the battery sections, which hold measured scores.
+ */
+export async function fromSelfReportProfile(legacy: any, userId: string, now = new Date()) {
+  const traits = legacy.cognitiveTraits || {};
+  const affective = legacy.affectiveProfile || {};
+  const preferences = legacy.personalPreferences || {};
+  const neurodiversity = legacy.neurodiversityProfile || {};
+  const consent = legacy.consentAndPrivacy || {};
+  const timestamp = now.toISOString();
+
+  const profile = {
+    id: `profile-${now.getTime()}`,
+    user_id: userId,
+    comm_preference: String(preferences.communicationStyle).toLowerCase() === 'direct' ? 'direct' : 'analogical',
+    self_report: {
+      cognitive_traits: {
+        working_memory_capacity: fromTenPointScale(traits.workingMemoryCapacity),
+        attention_control: fromTenPointScale(traits.attentionControl),
+        processing_speed: fromTenPointScale(traits.processingSpeed),
+        cognitive_flexibility: fromTenPointScale(traits.cognitiveFlexibility),
+        executive_function: fromTenPointScale(traits.executiveFunction)
+      },
+      affective: {
+        stress_management: fromTenPointScale(affective.stressManagement),
+        emotional_regulation: fromTenPointScale(affective.emotionalRegulation),
+        need_for_cognition: fromTenPointScale(affective.needForCognition),
+        motivational_style: affective.motivationalStyle || 'Mixed'
+      },
+      preferences: {
+        communication_style: preferences.communicationStyle || 'Supportive',
+        feedback_preference: preferences.feedbackPreference || 'Immediate',
+        working_environment: preferences.workingEnvironment || 'Mixed',
+        learning_pace: preferences.learningPace || 'Self-paced'
+      },
+      neurodiversity: {
+        conditions: stringList(neurodiversity.conditions),
+        support_needs: stringList(neurodiversity.supportNeeds),
+        strengths: stringList(neurodiversity.strengths),
+        challenges: stringList(neurodiversity.challenges)
+      },
+      timestamp
+    },
+    consent: {
+      data_collection: consent.dataCollection === true,
+      adaptive_ai: consent.adaptiveAI === true,
+      cognitive_insights: consent.cognitiveInsights === true,
+      research_participation: consent.researchParticipation === true,
+      timestamp
+    },
+    learning_history: {
+      preferred_modalities: stringList(legacy.learningStyles).map(style => style.toLowerCase()),
+      adaptation_patterns: [],
+      performance_trends: {},
+      timestamp
+    },
+    created_at: timestamp,
+    updated_at: timestamp
+  };
+
+  return { ...profile, profile_signature: await signData(profile) };
+}
+
+async function migrateV0ToV1(document: any, userId: string) {
+  const legacy = isSelfReportProfile(document) ? document
+    : isSelfReportProfile(document.profile) ? document.profile
+    : null;
+  const base = isSelfReportProfile(document) ? {} : document;
+  const defaults = emptyProfileDocument();
+
+  return {
+    ...base,
+    schema_version: 1,
+    entries: base.entries || {},
+    allEntries: Array.isArray(base.allEntries) ? base.allEntries : [],
+    profile: legacy ? await fromSelfReportProfile(legacy, userId) : base.profile ?? null,
+    psychometric_battery: base.psychometric_battery || defaults.psychometric_battery,
+    verification: base.verification || defaults.verification
+  };
+}
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1
+const MIGRATIONS: Array<(document: any, userId: string) => Promise<any>> = [
+  migrateV0ToV1
+];
+
+/**
+ * Bring a stored document up to PROFILE_SCHEMA_VERSION
+ */
+export async function upgradeProfileDocument(document: any, userId: string): Promise<{ document: any; upgraded: boolean }> {
+  let version = Number.isInteger(document.schema_version) ? document.schema_version : 0;
+  if (version > PROFILE_SCHEMA_VERSION) {
+    console.warn(`Profile for user ${userId} has schema_version ${version}, newer than ${PROFILE_SCHEMA_VERSION}`);
+    return { document, upgraded: false };
+  }
+
+  let upgraded = document;
+  while (version < PROFILE_SCHEMA_VERSION) {
+    upgraded = await MIGRATIONS[version](upgraded, userId);
+    version++;
+  }
+
+  return { document: upgraded, upgraded: upgraded !== document };
+}
+
+/**
+ * The user's profile document, decrypted and at the current schema version, or null if they have
+ * none. An older document, or one written before its sensitive fields were encrypted, is written
+ * back, unless its migrated profile fails validation: that one is left stored as it was.
+ */
+export async function loadProfileDocument(userId: string, keyring = new Keyring(userId)): Promise<any | null> {
+  const stored = await kv.get(profileKey(userId));
+  if (!stored) {
+    return null;
+  }
+
+  const decrypted = await decryptDeep(keyring, stored);
+  const { document, upgraded } = await upgradeProfileDocument(decrypted, userId);
+  if (upgraded) {
+    const issues = document.profile ? validateProfile(document.profile) : [];
+    if (issues.length > 0) {
+      console.error(`Migrated profile for user ${userId} is invalid, not writing it back:`, issues);
+      return document;
+    }
+    console.log(`Profile for user ${userId} migrated to schema_version ${PROFILE_SCHEMA_VERSION}`);
+  }
+  if (upgraded || (encryptionConfigured() && await hasPlaintextFields(stored))) {
+    await saveProfileDocument(userId, document, keyring);
+  }
+  return document;
+}
+
+export async function saveProfileDocument(userId: string, document: any, keyring = new Keyring(userId)): Promise<void> {
+  await kv.set(profileKey(userId), await encryptProfileDocument(keyring, document));
+}
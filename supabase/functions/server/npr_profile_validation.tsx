@@ -0,0 +1,107 @@
+// Profile validation shared by the client and the edge function.
+//
+// The client imports this file directly (as it does kv_store), so it must not import anything:
+// the client checks a profile before saving it, and the server checks what it is sent and what
+// it migrates before storing it.
+
+// Validation schemas (for runtime type checking). Each schema lists the sections an object must
+// have and the allowed range of the numbers in a section; a range covers every numeric field of
+// the section unless `fields` names them.
+export const NPRValidationSchemas = {
+  profile: {
+    required: ['id', 'user_id', 'comm_preference', 'learning_history', 'created_at'],
+    ranges: {}
+  },
+  cognitiveAssessment: {
+    required: ['working_memory', 'processing_speed', 'attention', 'executive_function'],
+    ranges: {
+      working_memory: { min: 0, max: 100 },
+      processing_speed: { min: 0, max: 100, fields: ['score', 'percentile'] },
+      attention: { min: 0, max: 100 }
+    }
+  },
+  personalityProfile: {
+    required: ['big_five', 'cognitive_style', 'learning_preferences'],
+    ranges: {
+      big_five: { min: 0, max: 100 },
+      cognitive_style: { min: 0, max: 100 }
+    }
+  },
+  emotionalIntelligence: {
+    required: ['self_awareness', 'self_regulation', 'social_awareness', 'relationship_management'],
+    ranges: {
+      self_awareness: { min: 0, max: 100 },
+      self_regulation: { min: 0, max: 100 },
+      social_awareness: { min: 0, max: 100 },
+      relationship_management: { min: 0, max: 100 }
+    }
+  },
+  selfReport: {
+    required: ['cognitive_traits', 'affective', 'preferences', 'neurodiversity'],
+    ranges: {
+      cognitive_traits: { min: 0, max: 100 },
+      affective: { min: 0, max: 100 }
+    }
+  }
+};
+
+type SectionSchema = {
+  required: string[];
+  ranges: { [section: string]: { min: number; max: number; fields?: string[] } };
+};
+
+export class ProfileValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid profile: ${issues.join('; ')}`);
+    this.name = 'ProfileValidationError';
+  }
+}
+
+/**
+ * Problems with one object against one of NPRValidationSchemas, each prefixed with `label`
+ */
+export function validateSection(value: any, schema: SectionSchema, label: string): string[] {
+  if (!value || typeof value !== 'object') {
+    return [`${label} is missing`];
+  }
+
+  const issues = schema.required
+    .filter(field => value[field] === undefined || value[field] === null)
+    .map(field => `${label}.${field} is required`);
+
+  for (const [section, range] of Object.entries(schema.ranges)) {
+    const fields = value[section];
+    if (!fields || typeof fields !== 'object') continue;
+
+    for (const [field, number] of Object.entries<any>(fields)) {
+      if (typeof number !== 'number' || (range.fields && !range.fields.includes(field))) continue;
+      if (!Number.isFinite(number) || number < range.min || number > range.max) {
+        issues.push(`${label}.${section}.${field} must be between ${range.min} and ${range.max}`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Every problem with a profile (an NPRProfile, signed or not); the battery sections are only
+ * checked when present
+ */
+export function validateProfile(profile: any): string[] {
+  if (!profile || typeof profile !== 'object') {
+    return ['profile is missing'];
+  }
+
+  const sections: Array<[any, SectionSchema, string]> = [
+    [profile.cognitive_assessment, NPRValidationSchemas.cognitiveAssessment, 'cognitive_assessment'],
+    [profile.personality_profile, NPRValidationSchemas.personalityProfile, 'personality_profile'],
+    [profile.emotional_intelligence, NPRValidationSchemas.emotionalIntelligence, 'emotional_intelligence'],
+    [profile.self_report, NPRValidationSchemas.selfReport, 'self_report']
+  ];
+
+  return [
+    ...validateSection(profile, NPRValidationSchemas.profile, 'profile'),
+    ...sections.flatMap(([value, schema, label]) => value === undefined ? [] : validateSection(value, schema, label))
+  ];
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('./kv_store.tsx', () => ({}));
+
+import {
+  buildSnapshot,
+  performanceTrends,
+  proposeSchedule,
+  REASSESSMENT_INTERVAL_DAYS,
+  reliableChanges
+} from './npr_reassessment.tsx';
+
+function profileWithScores(scores: Record<string, { z: number; reliability: number }>) {
+  return {
+    cognitive_assessment: {},
+    personality_profile: {},
+    standardized_assessments: {
+      norms: {
+        version: '2025.1',
+        age_band: 'all',
+        scores: Object.fromEntries(Object.entries(scores).map(([measure, { z, reliability }]) => [
+          measure,
+          { raw: z, z, percentile: 50 + z * 30, reliability }
+        ]))
+      }
+    }
+  };
+}
+
+describe('buildSnapshot', () => {
+  it('keeps normed scores with a reliability and lists the domains present', () => {
+    const profile = profileWithScores({ 'working_memory.score': { z: 0.5, reliability: 0.88 } });
+    profile.standardized_assessments.norms.scores['broken.measure'] = { raw: 1, z: NaN, percentile: 50, reliability: 0.8 } as any;
+
+    const snapshot = buildSnapshot(profile, new Date('2025-03-01T00:00:00Z'));
+    expect(Object.keys(snapshot.scores)).toEqual(['working_memory.score']);
+    expect(snapshot.domains).toEqual(['cognitive_assessment', 'standardized_assessments', 'personality_profile']);
+    expect(snapshot.norm_version).toBe('2025.1');
+  });
+});
+
+describe('reliableChanges', () => {
+  it('divides the z difference by the standard error of the difference', () => {
+    const before = buildSnapshot(profileWithScores({ 'working_memory.score': { z: 0, reliability: 0.88 } }), new Date(1));
+    const after = buildSnapshot(profileWithScores({ 'working_memory.score': { z: 1, reliability: 0.88 } }), new Date(2));
+
+    // 1 / sqrt(2 * (1 - .88)) = 2.04, just past the 1.96 threshold
+    const [change] = reliableChanges(before, after);
+    expect(change.rci).toBeCloseTo(1 / Math.sqrt(2 * 0.12), 2);
+    expect(change.reliable).toBe(true);
+    expect(change.domain).toBe('cognitive_assessment');
+  });
+
+  it('uses the lower reliability and files questionnaire scales under their domain', () => {
+    const before = buildSnapshot(profileWithScores({ 'personality.openness': { z: 0, reliability: 0.78 } }), new Date(1));
+    const after = buildSnapshot(profileWithScores({ 'personality.openness': { z: -1.5, reliability: 0.9 } }), new Date(2));
+
+    const [change] = reliableChanges(before, after);
+    expect(change.rci).toBeCloseTo(-1.5 / Math.sqrt(2 * 0.22), 2);
+    expect(change.reliable).toBe(true);
+    expect(change.domain).toBe('personality_profile');
+  });
+
+  it('skips measures the earlier snapshot does not have', () => {
+    const before = buildSnapshot(profileWithScores({}), new Date(1));
+    const after = buildSnapshot(profileWithScores({ 'mental_rotation.accuracy': { z: 2, reliability: 0.84 } }), new Date(2));
+    expect(reliableChanges(before, after)).toEqual([]);
+  });
+});
+
+describe('proposeSchedule', () => {
+  it('brings a domain with a reliable change forward', () => {
+    const snapshot = buildSnapshot(profileWithScores({}), new Date(1));
+    const now = new Date('2025-03-01T00:00:00Z');
+    const schedule = proposeSchedule(snapshot, [{ domain: 'personality_profile', reliable: true }], now);
+
+    expect(schedule.personality_profile).toMatchObject({
+      interval_days: REASSESSMENT_INTERVAL_DAYS.personality_profile.after_change,
+      reason: 'reliable_change'
+    });
+    expect(schedule.cognitive_assessment.interval_days).toBe(REASSESSMENT_INTERVAL_DAYS.cognitive_assessment.base);
+  });
+});
+
+describe('performanceTrends', () => {
+  it('collects percentiles per measure, oldest first', () => {
+    const snapshots = [0, 1].map(z => buildSnapshot(
+      profileWithScores({ 'working_memory.score': { z, reliability: 0.88 } }),
+      new Date(z + 1)
+    ));
+    expect(performanceTrends(snapshots)).toEqual({ 'working_memory.score': [50, 80] });
+  });
+});
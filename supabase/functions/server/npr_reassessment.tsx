@@ -0,0 +1,269 @@
+// Longitudinal re-assessment for the psychometric battery.
+//
+// Every saved battery is kept as a dated snapshot at `npr:${userId}:assessment-snapshots`.
+// Each snapshot is compared with the one before it, measure by measure, using the reliable
+// change index (Jacobson & Truax, 1991). A change beyond RCI_THRESHOLD becomes a
+// performance_prediction insight at `npr:${userId}:insights`, and the scheduler brings the
+// domain it belongs to forward so the change can be confirmed. Questionnaire domains are
+// compared on their Big Five and emotional intelligence cluster scores; their short two-item
+// scales cannot show a reliable change and are only re-asked on the routine schedule.
+
+import * as kv from './kv_store.tsx';
+import { signData } from './npr_signatures.tsx';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// |RCI| above this is unlikely (p < .05) to be measurement error alone
+export const RCI_THRESHOLD = 1.96;
+
+const MAX_SNAPSHOTS = 20;
+const MAX_TREND_POINTS = 10;
+const INSIGHT_TTL_DAYS = 90;
+
+type Domain = 'cognitive_assessment' | 'personality_profile' | 'emotional_intelligence' | 'standardized_assessments';
+
+// Days until a domain is due again. Traits are expected to be stable, so they are re-checked
+// least often; a domain with a reliable change is re-checked after `after_change` instead.
+export const REASSESSMENT_INTERVAL_DAYS: Record<Domain, { base: number; after_change: number }> = {
+  cognitive_assessment: { base: 90, after_change: 30 },
+  standardized_assessments: { base: 90, after_change: 30 },
+  emotional_intelligence: { base: 180, after_change: 90 },
+  personality_profile: { base: 365, after_change: 180 }
+};
+
+const MEASURE_LABELS: Record<string, string> = {
+  'working_memory.score': 'Working memory',
+  'processing_speed.score': 'Processing speed',
+  'processing_speed.correct_per_minute': 'Coding speed',
+  'digit_span.forward_span': 'Forward digit span',
+  'digit_span.backward_span': 'Backward digit span',
+  'digit_span.sequencing_span': 'Digit sequencing span',
+  'cognitive_reflection_test.score': 'Cognitive reflection',
+  'stroop_test.interference_effect': 'Stroop interference control',
+  'tower_of_london.planning_accuracy': 'Planning accuracy',
+  'tower_of_london.moves_efficiency': 'Planning efficiency',
+  'mental_rotation.accuracy': 'Mental rotation accuracy',
+  'mental_rotation.angular_disparity_effect': 'Mental rotation speed',
+  'personality.openness': 'Openness',
+  'personality.conscientiousness': 'Conscientiousness',
+  'personality.extraversion': 'Extraversion',
+  'personality.agreeableness': 'Agreeableness',
+  'personality.neuroticism': 'Emotional stability',
+  'emotional_intelligence.self_awareness': 'Emotional self-awareness',
+  'emotional_intelligence.self_regulation': 'Emotional self-regulation',
+  'emotional_intelligence.social_awareness': 'Social awareness',
+  'emotional_intelligence.relationship_management': 'Relationship management'
+};
+
+export function snapshotsKey(userId: string): string {
+  return `npr:${userId}:assessment-snapshots`;
+}
+
+export function insightsKey(userId: string): string {
+  return `npr:${userId}:insights`;
+}
+
+// Normed measures are filed under the part of the profile their result lives in
+function domainOf(measure: string): Domain {
+  if (measure.startsWith('working_memory.') || measure.startsWith('processing_speed.')) {
+    return 'cognitive_assessment';
+  }
+  if (measure.startsWith('personality.')) {
+    return 'personality_profile';
+  }
+  if (measure.startsWith('emotional_intelligence.')) {
+    return 'emotional_intelligence';
+  }
+  return 'standardized_assessments';
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26), as in utils/psychometrics/norms
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * The normed scores of a saved profile, as a snapshot to compare later batteries against
+ */
+export function buildSnapshot(profile: any, takenAt = new Date()) {
+  const norms = profile.standardized_assessments?.norms;
+  const scores: Record<string, { raw: number; z: number; percentile: number; reliability: number }> = {};
+
+  for (const [measure, score] of Object.entries<any>(norms?.scores ?? {})) {
+    if (Number.isFinite(score?.z) && Number.isFinite(score?.reliability)) {
+      scores[measure] = {
+        raw: score.raw,
+        z: score.z,
+        percentile: score.percentile,
+        reliability: score.reliability
+      };
+    }
+  }
+
+  return {
+    id: `snapshot-${takenAt.getTime()}`,
+    taken_at: takenAt.toISOString(),
+    norm_version: norms?.version ?? null,
+    age_band: norms?.age_band ?? null,
+    domains: (Object.keys(REASSESSMENT_INTERVAL_DAYS) as Domain[]).filter(domain => !!profile[domain]),
+    scores
+  };
+}
+
+/**
+ * Reliable change index for every measure in both snapshots. Scores are compared as z-scores,
+ * which are already signed so that positive is better, so the standard error of the difference
+ * is sqrt(2 * (1 - r)) for every measure.
+ */
+export function reliableChanges(previous: any, current: any) {
+  return Object.entries<any>(current.scores)
+    .filter(([measure]) => previous.scores[measure])
+    .map(([measure, score]) => {
+      const before = previous.scores[measure];
+      const reliability = Math.min(before.reliability, score.reliability);
+      const rci = (score.z - before.z) / Math.sqrt(2 * (1 - reliability));
+
+      return {
+        measure,
+        domain: domainOf(measure),
+        from_snapshot: previous.id,
+        to_snapshot: current.id,
+        from_percentile: before.percentile,
+        to_percentile: score.percentile,
+        rci: Math.round(rci * 100) / 100,
+        reliable: Math.abs(rci) >= RCI_THRESHOLD
+      };
+    });
+}
+
+/**
+ * When each domain in the snapshot is next due
+ */
+export function proposeSchedule(snapshot: any, changes: any[], now = new Date()) {
+  const changedDomains = new Set(changes.filter(change => change.reliable).map(change => change.domain));
+
+  return Object.fromEntries((snapshot.domains as Domain[]).map(domain => {
+    const changed = changedDomains.has(domain);
+    const intervalDays = changed
+      ? REASSESSMENT_INTERVAL_DAYS[domain].after_change
+      : REASSESSMENT_INTERVAL_DAYS[domain].base;
+
+    return [domain, {
+      interval_days: intervalDays,
+      next_due: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+      reason: changed ? 'reliable_change' : 'routine'
+    }];
+  }));
+}
+
+/**
+ * Percentile history per measure, oldest first, for learning_history.performance_trends
+ */
+export function performanceTrends(snapshots: any[]): Record<string, number[]> {
+  const trends: Record<string, number[]> = {};
+  for (const snapshot of snapshots.slice(-MAX_TREND_POINTS)) {
+    for (const [measure, score] of Object.entries<any>(snapshot.scores)) {
+      (trends[measure] ||= []).push(score.percentile);
+    }
+  }
+  return trends;
+}
+
+function changeInsight(change: any, trends: Record<string, number[]>, now: Date) {
+  const label = MEASURE_LABELS[change.measure] || change.measure;
+  const improved = change.rci > 0;
+  const from = Math.round(change.from_percentile);
+  const to = Math.round(change.to_percentile);
+
+  // Gains on a repeated cognitive test are partly practice, so they are reported with that caveat;
+  // questionnaire answers have no practice effect but do follow recent circumstances
+  const selfReport = change.domain === 'personality_profile' || change.domain === 'emotional_intelligence';
+  const caveat = selfReport
+    ? 'Self-reported answers can follow recent circumstances, so it is worth confirming.'
+    : improved
+      ? 'Some of a gain on a repeated test can be practice.'
+      : 'A single result can reflect a bad day, so it is worth confirming.';
+  const description =
+    `${label} ${improved ? 'rose' : 'fell'} from the ${from}th to the ${to}th percentile since your last assessment, ` +
+    `more than measurement error alone would explain. ${caveat}`;
+
+  return {
+    id: `insight-${change.to_snapshot}-${change.measure}`,
+    type: 'performance_prediction',
+    title: `${label} ${improved ? 'improved' : 'declined'}`,
+    description,
+    // Probability that a change this large is not measurement error
+    confidence: Math.round((2 * normalCdf(Math.abs(change.rci)) - 1) * 1000) / 1000,
+    supporting_data: {
+      assessment_scores: {
+        previous_percentile: change.from_percentile,
+        current_percentile: change.to_percentile,
+        reliable_change_index: change.rci
+      },
+      behavioral_patterns: [],
+      temporal_trends: { [change.measure]: trends[change.measure] || [] }
+    },
+    actionable_recommendations: improved
+      ? {
+          immediate_actions: ['Note what has changed in your routine since the last assessment'],
+          long_term_strategies: ['Keep the habits that coincided with this improvement'],
+          environmental_modifications: []
+        }
+      : {
+          immediate_actions: ['Retake the assessment when it is next due to confirm the change'],
+          long_term_strategies: ['Look at recent sleep, stress and workload, which all affect test performance'],
+          environmental_modifications: ['Take the next assessment somewhere quiet, at a time of day you feel alert']
+        },
+    generated_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + INSIGHT_TTL_DAYS * DAY_MS).toISOString()
+  };
+}
+
+/**
+ * Unexpired insights, newest first
+ */
+export async function loadInsights(userId: string): Promise<any[]> {
+  const now = Date.now();
+  const insights = (await kv.get(insightsKey(userId))) || [];
+  return insights.filter((insight: any) => !insight.expires_at || new Date(insight.expires_at).getTime() > now);
+}
+
+/**
+ * Store a newly saved battery as a snapshot, compare it with the previous one, and schedule the
+ * next assessment of each domain. Reliable changes are added to the user's insights unless
+ * `options.insights` is false (the user has not consented to cognitive insights).
+ */
+export async function recordAssessment(userId: string, profile: any, options: { insights?: boolean } = {}) {
+  const now = new Date();
+  const snapshots: any[] = (await kv.get(snapshotsKey(userId))) || [];
+  const previous = snapshots[snapshots.length - 1];
+
+  const snapshot = buildSnapshot(profile, now);
+  const changes = previous ? reliableChanges(previous, snapshot) : [];
+  const history = [...snapshots, snapshot].slice(-MAX_SNAPSHOTS);
+  const trends = performanceTrends(history);
+
+  const insights = await Promise.all(changes
+    .filter(change => change.reliable && options.insights !== false)
+    .map(async change => {
+      const insight = changeInsight(change, trends, now);
+      return { ...insight, insight_signature: await signData(insight) };
+    }));
+
+  await kv.set(snapshotsKey(userId), history);
+  if (insights.length > 0) {
+    await kv.set(insightsKey(userId), [...insights, ...(await loadInsights(userId))]);
+  }
+
+  return {
+    snapshot,
+    changes,
+    schedule: proposeSchedule(snapshot, changes, now),
+    performance_trends: trends,
+    insights
+  };
+}
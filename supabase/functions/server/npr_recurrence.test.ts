@@ -0,0 +1,117 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('./kv_store.tsx', () => ({}));
+
+import {
+  computeStreak,
+  expandSeries,
+  instanceId,
+  normalizeRecurrence,
+  occursOn,
+  TaskSeries
+} from './npr_recurrence.tsx';
+import { TaskValidationError } from './npr_tasks.tsx';
+
+function series(recurrence: any, overrides: Partial<TaskSeries> = {}): TaskSeries {
+  return {
+    id: 'series-1',
+    template: { title: 'Stretch' },
+    recurrence: normalizeRecurrence(recurrence, '2025-03-01'),
+    created_at: '2025-03-01T00:00:00.000Z',
+    completed_dates: [],
+    exceptions: {},
+    ...overrides
+  };
+}
+
+describe('normalizeRecurrence', () => {
+  it('parses the supported RRULE subset', () => {
+    expect(normalizeRecurrence('RRULE:FREQ=DAILY;INTERVAL=3;UNTIL=20250331', '2025-03-01')).toEqual({
+      frequency: 'interval',
+      interval: 3,
+      start_date: '2025-03-01',
+      until: '2025-03-31'
+    });
+    expect(normalizeRecurrence('FREQ=MONTHLY;BYDAY=2TU', '2025-03-01').by_day).toEqual({ weekday: 2, position: 2 });
+  });
+
+  it('defaults a monthly rule to the start date\'s day of the month', () => {
+    expect(normalizeRecurrence({ frequency: 'monthly' }, '2025-03-15').by_month_day).toBe(15);
+  });
+
+  it('rejects rules it cannot represent', () => {
+    expect(() => normalizeRecurrence('FREQ=DAILY;COUNT=5', '2025-03-01')).toThrow(TaskValidationError);
+    expect(() => normalizeRecurrence('FREQ=WEEKLY;BYDAY=MO', '2025-03-01')).toThrow(TaskValidationError);
+    expect(() => normalizeRecurrence({ frequency: 'daily', until: '2025-02-01' }, '2025-03-01')).toThrow(TaskValidationError);
+  });
+});
+
+describe('occursOn', () => {
+  it('keeps weekday rules off weekends', () => {
+    const rule = normalizeRecurrence({ frequency: 'weekdays' }, '2025-03-01');
+    expect(occursOn(rule, '2025-03-01')).toBe(false); // Saturday
+    expect(occursOn(rule, '2025-03-03')).toBe(true); // Monday
+  });
+
+  it('counts intervals from the start date', () => {
+    const rule = normalizeRecurrence({ frequency: 'interval', interval: 3 }, '2025-03-01');
+    expect(['2025-03-01', '2025-03-02', '2025-03-04'].map(date => occursOn(rule, date))).toEqual([true, false, true]);
+  });
+
+  it('finds the nth and last weekday of a month', () => {
+    const secondTuesday = normalizeRecurrence({ frequency: 'monthly', by_day: { weekday: 2, position: 2 } }, '2025-03-01');
+    expect(occursOn(secondTuesday, '2025-03-11')).toBe(true);
+    expect(occursOn(secondTuesday, '2025-03-04')).toBe(false);
+
+    const lastFriday = normalizeRecurrence({ frequency: 'monthly', by_day: { weekday: 5, position: -1 } }, '2025-02-01');
+    expect(occursOn(lastFriday, '2025-02-28')).toBe(true);
+    expect(occursOn(lastFriday, '2025-02-21')).toBe(false);
+  });
+
+  it('skips months without the requested day and honours the last day', () => {
+    const thirtyFirst = normalizeRecurrence({ frequency: 'monthly', by_month_day: 31 }, '2025-01-31');
+    expect(occursOn(thirtyFirst, '2025-02-28')).toBe(false);
+    expect(occursOn(thirtyFirst, '2025-03-31')).toBe(true);
+
+    const lastDay = normalizeRecurrence({ frequency: 'monthly', by_month_day: -1 }, '2025-01-31');
+    expect(occursOn(lastDay, '2025-02-28')).toBe(true);
+  });
+
+  it('stops after until', () => {
+    const rule = normalizeRecurrence({ frequency: 'daily', until: '2025-03-05' }, '2025-03-01');
+    expect(occursOn(rule, '2025-03-05')).toBe(true);
+    expect(occursOn(rule, '2025-03-06')).toBe(false);
+  });
+});
+
+describe('computeStreak', () => {
+  it('counts consecutive completions and resets on a missed day', () => {
+    const entry = series({ frequency: 'daily' }, {
+      completed_dates: ['2025-03-01', '2025-03-02', '2025-03-04', '2025-03-05']
+    });
+    expect(computeStreak(entry, '2025-03-05')).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('lets skipped days pass and leaves today pending', () => {
+    const entry = series({ frequency: 'daily' }, {
+      completed_dates: ['2025-03-01', '2025-03-03'],
+      exceptions: { '2025-03-02': { status: 'skipped' } }
+    });
+    expect(computeStreak(entry, '2025-03-04')).toEqual({ current: 2, longest: 2 });
+  });
+});
+
+describe('expandSeries', () => {
+  it('creates the day\'s instance once and brings back snoozed occurrences when due', async () => {
+    const entry = series({ frequency: 'daily' }, {
+      exceptions: { '2025-03-02': { status: 'snoozed', until: '2025-03-03' } }
+    });
+
+    const created = await expandSeries([entry], [], '2025-03-03');
+    expect(created.map(task => [task.id, task.due_date])).toEqual([
+      [instanceId('series-1', '2025-03-03'), '2025-03-03'],
+      [instanceId('series-1', '2025-03-02'), '2025-03-03']
+    ]);
+    expect(await expandSeries([entry], created, '2025-03-03')).toEqual([]);
+  });
+});
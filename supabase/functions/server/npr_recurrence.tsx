@@ -0,0 +1,361 @@
+// Recurring task series.
+//
+// A series stores a task template plus a recurrence rule. Each scheduled day gets an ordinary
+// task instance (id `${seriesId}-${YYYY-MM-DD}`) that expandSeries adds to the task list, so the
+// rest of the task lifecycle - completion, signing, ordering - works unchanged. Dates are
+// calendar days in the user's local time zone, sent by the client as YYYY-MM-DD.
+
+import * as kv from './kv_store.tsx';
+import { decryptDeep, encryptTask, Keyring } from './npr_encryption.tsx';
+import { prepareNewTask, TaskValidationError } from './npr_tasks.tsx';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekdays' | 'interval' | 'monthly';
+  interval: number; // days for 'interval', months for 'monthly'
+  start_date: string;
+  until: string | null;
+  by_month_day?: number; // monthly: 1-31, or -1 for the last day of the month
+  by_day?: { weekday: number; position: number }; // monthly: e.g. 2nd Tuesday, position -1 = last
+}
+
+export type OccurrenceException =
+  | { status: 'skipped' }
+  | { status: 'snoozed'; until: string };
+
+export interface TaskSeries {
+  id: string;
+  template: any;
+  recurrence: RecurrenceRule;
+  created_at: string;
+  completed_dates: string[];
+  exceptions: Record<string, OccurrenceException>;
+}
+
+export function seriesKey(userId: string): string {
+  return `npr:${userId}:task-series`;
+}
+
+export async function loadSeries(userId: string, keyring = new Keyring(userId)): Promise<TaskSeries[]> {
+  return decryptDeep(keyring, (await kv.get(seriesKey(userId))) || []);
+}
+
+// Templates are encrypted like the tasks made from them
+export async function saveSeries(userId: string, series: TaskSeries[], keyring = new Keyring(userId)): Promise<void> {
+  const stored = [];
+  for (const entry of series) {
+    stored.push({ ...entry, template: await encryptTask(keyring, entry.template) });
+  }
+  await kv.set(seriesKey(userId), stored);
+}
+
+// Calendar-day helpers; all arithmetic is done on UTC midnights
+function toDayMs(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function fromDayMs(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return fromDayMs(toDayMs(date) + days * DAY_MS);
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+export function isValidDate(date: unknown): date is string {
+  return typeof date === 'string' && DATE_PATTERN.test(date) && fromDayMs(toDayMs(date)) === date;
+}
+
+export function todayUTC(): string {
+  return fromDayMs(Date.now());
+}
+
+// Parse the RRULE subset we support: DAILY, WEEKLY on Monday-Friday, and MONTHLY by day or weekday
+function parseRRule(rrule: string, startDate: string): Partial<RecurrenceRule> {
+  const parts = new Map(
+    rrule.replace(/^RRULE:/i, '').split(';').filter(Boolean).map(part => {
+      const [key, value = ''] = part.split('=');
+      return [key.toUpperCase(), value.toUpperCase()] as [string, string];
+    })
+  );
+
+  if (parts.has('COUNT')) {
+    throw new TaskValidationError('RRULE COUNT is not supported; use UNTIL');
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  const untilValue = parts.get('UNTIL');
+  const until = untilValue ? `${untilValue.slice(0, 4)}-${untilValue.slice(4, 6)}-${untilValue.slice(6, 8)}` : null;
+
+  switch (parts.get('FREQ')) {
+    case 'DAILY':
+      return { frequency: interval === 1 ? 'daily' : 'interval', interval, until, start_date: startDate };
+    case 'WEEKLY':
+      if (parts.get('BYDAY') !== 'MO,TU,WE,TH,FR' || interval !== 1) {
+        throw new TaskValidationError('Only weekly rules on Monday to Friday are supported');
+      }
+      return { frequency: 'weekdays', interval: 1, until, start_date: startDate };
+    case 'MONTHLY': {
+      const rule: Partial<RecurrenceRule> = { frequency: 'monthly', interval, until, start_date: startDate };
+      const byDay = parts.get('BYDAY');
+
+      if (parts.has('BYMONTHDAY')) {
+        rule.by_month_day = Number(parts.get('BYMONTHDAY'));
+      } else if (byDay) {
+        const match = byDay.match(/^(-?\d)?(SU|MO|TU|WE|TH|FR|SA)$/);
+        const position = match?.[1] ?? parts.get('BYSETPOS');
+        if (!match || !position) {
+          throw new TaskValidationError(`Unsupported monthly BYDAY value: ${byDay}`);
+        }
+        rule.by_day = { weekday: RRULE_WEEKDAYS.indexOf(match[2]), position: Number(position) };
+      }
+      return rule;
+    }
+    default:
+      throw new TaskValidationError(`Unsupported RRULE frequency: ${parts.get('FREQ') || 'missing'}`);
+  }
+}
+
+/**
+ * Validate a recurrence given either as a rule object or an RRULE string, filling in defaults.
+ * Monthly rules without a day default to the start date's day of the month.
+ */
+export function normalizeRecurrence(input: any, defaultStartDate: string): RecurrenceRule {
+  const raw = typeof input === 'string' ? parseRRule(input, defaultStartDate) : { ...input };
+  const startDate = raw.start_date || defaultStartDate;
+
+  if (!['daily', 'weekdays', 'interval', 'monthly'].includes(raw.frequency)) {
+    throw new TaskValidationError('frequency must be daily, weekdays, interval or monthly');
+  }
+  if (!isValidDate(startDate)) {
+    throw new TaskValidationError('start_date must be a YYYY-MM-DD date');
+  }
+  if (raw.until != null && (!isValidDate(raw.until) || raw.until < startDate)) {
+    throw new TaskValidationError('until must be a YYYY-MM-DD date on or after start_date');
+  }
+
+  const interval = raw.interval ?? 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > 365) {
+    throw new TaskValidationError('interval must be a whole number between 1 and 365');
+  }
+
+  const rule: RecurrenceRule = {
+    frequency: raw.frequency,
+    interval: raw.frequency === 'daily' || raw.frequency === 'weekdays' ? 1 : interval,
+    start_date: startDate,
+    until: raw.until ?? null
+  };
+
+  if (rule.frequency === 'monthly') {
+    if (raw.by_day) {
+      const { weekday, position } = raw.by_day;
+      if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6 || ![1, 2, 3, 4, -1].includes(position)) {
+        throw new TaskValidationError('by_day needs a weekday 0-6 and a position of 1-4 or -1');
+      }
+      rule.by_day = { weekday, position };
+    } else {
+      const monthDay = raw.by_month_day ?? Number(startDate.slice(8, 10));
+      if (!Number.isInteger(monthDay) || monthDay === 0 || monthDay < -1 || monthDay > 31) {
+        throw new TaskValidationError('by_month_day must be 1-31 or -1');
+      }
+      rule.by_month_day = monthDay;
+    }
+  }
+
+  return rule;
+}
+
+export function occursOn(rule: RecurrenceRule, date: string): boolean {
+  if (date < rule.start_date || (rule.until && date > rule.until)) {
+    return false;
+  }
+
+  const day = new Date(toDayMs(date));
+
+  switch (rule.frequency) {
+    case 'daily':
+      return true;
+    case 'weekdays':
+      return day.getUTCDay() >= 1 && day.getUTCDay() <= 5;
+    case 'interval':
+      return Math.round((toDayMs(date) - toDayMs(rule.start_date)) / DAY_MS) % rule.interval === 0;
+    case 'monthly': {
+      const start = new Date(toDayMs(rule.start_date));
+      const monthsSinceStart = (day.getUTCFullYear() - start.getUTCFullYear()) * 12
+        + day.getUTCMonth() - start.getUTCMonth();
+      if (monthsSinceStart % rule.interval !== 0) {
+        return false;
+      }
+
+      const monthLength = daysInMonth(day.getUTCFullYear(), day.getUTCMonth());
+      if (rule.by_day) {
+        if (day.getUTCDay() !== rule.by_day.weekday) return false;
+        return rule.by_day.position === -1
+          ? day.getUTCDate() + 7 > monthLength
+          : Math.ceil(day.getUTCDate() / 7) === rule.by_day.position;
+      }
+
+      // Like RRULE, months without the requested day (e.g. the 31st) are skipped
+      return rule.by_month_day === -1
+        ? day.getUTCDate() === monthLength
+        : day.getUTCDate() === rule.by_month_day;
+    }
+  }
+}
+
+// Fields of a submitted task that every instance of the series inherits
+const TEMPLATE_FIELDS = [
+  'title',
+  'description',
+  'priority',
+  'tags',
+  'is_ai_generated',
+  'cognitive_demand',
+  'personality_alignment',
+  'completion_context'
+];
+
+export function createSeries(task: any, recurrence: any, today: string): TaskSeries {
+  if (!task || typeof task.title !== 'string' || !task.title.trim()) {
+    throw new TaskValidationError('Task title must be a non-empty string');
+  }
+
+  const template: any = {};
+  for (const field of TEMPLATE_FIELDS) {
+    if (field in task) {
+      template[field] = task[field];
+    }
+  }
+
+  return {
+    id: `series-${crypto.randomUUID()}`,
+    template,
+    recurrence: normalizeRecurrence(recurrence, today),
+    created_at: new Date().toISOString(),
+    completed_dates: [],
+    exceptions: {}
+  };
+}
+
+export function instanceId(seriesId: string, occurrenceDate: string): string {
+  return `${seriesId}-${occurrenceDate}`;
+}
+
+/**
+ * Make sure the task list holds every instance due on `date`: the rule's occurrence for that
+ * day plus any snoozed occurrences that have come due. Skipped, completed and already present
+ * occurrences are left alone, so expanding the same day twice is a no-op.
+ */
+export async function expandSeries(series: TaskSeries[], tasks: any[], date: string): Promise<any[]> {
+  const existingIds = new Set(tasks.map(task => task.id));
+  const created: any[] = [];
+
+  for (const entry of series) {
+    const due: Array<{ occurrenceDate: string; dueDate: string }> = [];
+
+    if (occursOn(entry.recurrence, date) && !entry.exceptions[date] && !entry.completed_dates.includes(date)) {
+      due.push({ occurrenceDate: date, dueDate: date });
+    }
+
+    for (const [occurrenceDate, exception] of Object.entries(entry.exceptions)) {
+      if (exception.status === 'snoozed' && exception.until <= date && !entry.completed_dates.includes(occurrenceDate)) {
+        due.push({ occurrenceDate, dueDate: exception.until });
+      }
+    }
+
+    for (const { occurrenceDate, dueDate } of due) {
+      const id = instanceId(entry.id, occurrenceDate);
+      if (existingIds.has(id)) continue;
+
+      existingIds.add(id);
+      created.push(await prepareNewTask({
+        ...entry.template,
+        id,
+        series_id: entry.id,
+        occurrence_date: occurrenceDate,
+        due_date: dueDate
+      }));
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Current and longest run of completed occurrences up to `today`. Skipped occurrences neither
+ * count nor break the run; snoozed ones only break it once their new date has passed; today's
+ * occurrence is still pending until the day is over.
+ */
+export function computeStreak(entry: TaskSeries, today: string): { current: number; longest: number } {
+  const completed = new Set(entry.completed_dates);
+  const lastDay = entry.recurrence.until && entry.recurrence.until < today ? entry.recurrence.until : today;
+  let current = 0;
+  let longest = 0;
+
+  for (let date = entry.recurrence.start_date; date <= lastDay; date = addDays(date, 1)) {
+    if (!occursOn(entry.recurrence, date)) continue;
+
+    const exception = entry.exceptions[date];
+    if (completed.has(date)) {
+      current++;
+      longest = Math.max(longest, current);
+    } else if (exception?.status === 'skipped') {
+      continue;
+    } else {
+      const deadline = exception?.status === 'snoozed' ? exception.until : date;
+      if (deadline < today) {
+        current = 0;
+      }
+    }
+  }
+
+  return { current, longest };
+}
+
+export function withStreak(entry: TaskSeries, today: string) {
+  return { ...entry, streak: computeStreak(entry, today) };
+}
+
+// Keep a series' completed dates in step with its instances after they are updated
+export function syncCompletions(series: TaskSeries[], tasks: any[]): boolean {
+  let changed = false;
+
+  for (const task of tasks) {
+    const entry = task.series_id && series.find(candidate => candidate.id === task.series_id);
+    if (!entry) continue;
+
+    const isRecorded = entry.completed_dates.includes(task.occurrence_date);
+    if (task.is_completed && !isRecorded) {
+      entry.completed_dates = [...entry.completed_dates, task.occurrence_date].sort();
+      changed = true;
+    } else if (!task.is_completed && isRecorded) {
+      entry.completed_dates = entry.completed_dates.filter(date => date !== task.occurrence_date);
+      changed = true;
+    }
+  }
+
+  return changed;
+}
+
+// Deleting an unfinished instance skips that occurrence so expansion does not bring it back
+export function skipDeletedInstances(series: TaskSeries[], deletedTasks: any[]): boolean {
+  let changed = false;
+
+  for (const task of deletedTasks) {
+    const entry = task.series_id && !task.is_completed && series.find(candidate => candidate.id === task.series_id);
+    if (!entry) continue;
+
+    entry.exceptions = { ...entry.exceptions, [task.occurrence_date]: { status: 'skipped' } };
+    changed = true;
+  }
+
+  return changed;
+}
@@ -0,0 +1,38 @@
+// Server-side counterpart of NPRCryptographicService.signData / verifySignature.
+//
+// A signature is the hash of JSON.stringify({ data, salt, timestamp }), so callers must build
+// the signed object with the same key order the client uses.
+
+const textEncoder = new TextEncoder();
+
+async function signatureHash(data: any, salt: string, timestamp: any, algorithm: 'sha256' | 'sha512'): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest(
+    algorithm === 'sha256' ? 'SHA-256' : 'SHA-512',
+    textEncoder.encode(JSON.stringify({ data, salt, timestamp }))
+  );
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function signData(data: any) {
+  const salt = Array.from(crypto.getRandomValues(new Uint8Array(32)))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+  const timestamp = new Date().toISOString();
+
+  return {
+    algorithm: 'sha256' as const,
+    hash: await signatureHash(data, salt, timestamp, 'sha256'),
+    salt,
+    timestamp
+  };
+}
+
+export async function verifySignature(data: any, signature: any): Promise<boolean> {
+  if (!signature?.hash || !signature?.salt || !['sha256', 'sha512'].includes(signature.algorithm)) {
+    return false;
+  }
+
+  return await signatureHash(data, signature.salt, signature.timestamp, signature.algorithm) === signature.hash;
+}
@@ -0,0 +1,160 @@
+// Task storage for the daily tasks view.
+//
+// A user's tasks live in one ordered list at `npr:${userId}:tasks`. Every write goes through
+// signTask so `task_signature` always covers the task as stored, and positions are renumbered
+// after each change so the list order survives reloads. Titles and descriptions are encrypted at
+// rest; the signature covers their plaintext.
+
+import * as kv from './kv_store.tsx';
+import { decryptDeep, encryptTask, Keyring } from './npr_encryption.tsx';
+import { signData } from './npr_signatures.tsx';
+
+// Fields a client may change through update-task; identity and bookkeeping fields are server-owned
+const UPDATABLE_TASK_FIELDS = [
+  'title',
+  'description',
+  'is_completed',
+  'priority',
+  'due_date',
+  'tags',
+  'cognitive_demand',
+  'personality_alignment',
+  'completion_context'
+];
+
+const TASK_PRIORITIES = ['low', 'medium', 'high'];
+
+export class TaskValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaskValidationError';
+  }
+}
+
+export function tasksKey(userId: string): string {
+  return `npr:${userId}:tasks`;
+}
+
+export async function loadTasks(userId: string, keyring = new Keyring(userId)): Promise<any[]> {
+  return decryptDeep(keyring, (await kv.get(tasksKey(userId))) || []);
+}
+
+// Returns the tasks as saved, in plaintext
+export async function saveTasks(userId: string, tasks: any[], keyring = new Keyring(userId)): Promise<any[]> {
+  const positioned = tasks.map((task, index) => ({ ...task, position: index }));
+  const stored = [];
+  for (const task of positioned) {
+    stored.push(await encryptTask(keyring, task));
+  }
+  await kv.set(tasksKey(userId), stored);
+  return positioned;
+}
+
+// Fields covered by task_signature, in the order NPRCryptographicService.taskSignaturePayload builds them
+export function taskSignaturePayload(task: any) {
+  return {
+    id: task.id,
+    title: task.title,
+    description: task.description,
+    is_completed: task.is_completed,
+    is_ai_generated: task.is_ai_generated,
+    priority: task.priority,
+    created_at: task.created_at,
+    completed_at: task.completed_at ?? null,
+    due_date: task.due_date ?? null,
+    tags: task.tags || [],
+    series_id: task.series_id ?? null,
+    occurrence_date: task.occurrence_date ?? null
+  };
+}
+
+export async function signTask(task: any): Promise<any> {
+  return { ...task, task_signature: await signData(taskSignaturePayload(task)) };
+}
+
+function validateTaskFields(fields: any) {
+  if ('title' in fields && (typeof fields.title !== 'string' || !fields.title.trim())) {
+    throw new TaskValidationError('Task title must be a non-empty string');
+  }
+  if ('is_completed' in fields && typeof fields.is_completed !== 'boolean') {
+    throw new TaskValidationError('is_completed must be a boolean');
+  }
+  if ('priority' in fields && !TASK_PRIORITIES.includes(fields.priority)) {
+    throw new TaskValidationError(`priority must be one of ${TASK_PRIORITIES.join(', ')}`);
+  }
+  if ('tags' in fields && !Array.isArray(fields.tags)) {
+    throw new TaskValidationError('tags must be an array');
+  }
+}
+
+// Fill in defaults for a new task and sign it
+export async function prepareNewTask(task: any): Promise<any> {
+  if (!task || typeof task.id !== 'string' || !task.id) {
+    throw new TaskValidationError('Task id is required');
+  }
+  validateTaskFields({ title: task.title, ...task });
+
+  const isCompleted = task.is_completed === true;
+  return signTask({
+    description: '',
+    is_ai_generated: false,
+    priority: 'medium',
+    due_date: null,
+    tags: [],
+    ...task,
+    is_completed: isCompleted,
+    created_at: task.created_at || new Date().toISOString(),
+    completed_at: isCompleted ? (task.completed_at || new Date().toISOString()) : null
+  });
+}
+
+// Updates arrive as JSON and may be any value; only a plain object names fields to change
+export function assertTaskUpdates(updates: unknown): asserts updates is Record<string, unknown> {
+  if (typeof updates !== 'object' || updates === null || Array.isArray(updates)) {
+    throw new TaskValidationError('updates must be an object');
+  }
+}
+
+// Apply client updates, tracking completed_at when completion changes, and re-sign
+export async function applyTaskUpdates(task: any, updates: any): Promise<any> {
+  assertTaskUpdates(updates);
+
+  const allowed: any = {};
+  for (const field of UPDATABLE_TASK_FIELDS) {
+    if (field in updates) {
+      allowed[field] = updates[field];
+    }
+  }
+  validateTaskFields(allowed);
+
+  const updated = { ...task, ...allowed };
+  if ('is_completed' in allowed && allowed.is_completed !== !!task.is_completed) {
+    updated.completed_at = allowed.is_completed ? new Date().toISOString() : null;
+  }
+
+  return signTask(updated);
+}
+
+/**
+ * Move the listed tasks into the given relative order. Only the slots those tasks already
+ * occupy are reused, so reordering e.g. just the active tasks leaves completed ones in place.
+ */
+export function reorderTasks(tasks: any[], taskIds: string[]): any[] {
+  if (new Set(taskIds).size !== taskIds.length) {
+    throw new TaskValidationError('taskIds must not contain duplicates');
+  }
+
+  const indexById = new Map(tasks.map((task, index) => [task.id, index]));
+  const missing = taskIds.filter(id => !indexById.has(id));
+  if (missing.length > 0) {
+    throw new TaskValidationError(`Unknown task ids: ${missing.join(', ')}`);
+  }
+
+  const slots = taskIds.map(id => indexById.get(id)!).sort((a, b) => a - b);
+  const reordered = [...tasks];
+  taskIds.forEach((id, index) => {
+    reordered[slots[index]] = tasks[indexById.get(id)!];
+  });
+
+  return reordered;
+}
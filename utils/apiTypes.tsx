@@ -1,5 +1,7 @@
 // Backend storage and API types for NPR system
 
+// Legacy self-report profile (1-10 scales) filled in by NPRAssessment. Stored copies are
+// migrated to the canonical NPRProfile in nprTypes when the server reads them.
 export interface DetailedNPRProfile {
   // Core NPR dimensions based on the research
   cognitiveTraits: {
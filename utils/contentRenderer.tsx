@@ -8,6 +8,7 @@ import { UnifiedChatInterface } from '../components/UnifiedChatInterface';
 import { PlanningJournal } from '../components/PlanningJournal';
 import { NPRAssessment } from '../components/NPRAssessment';
 import { AgentDashboard } from '../components/AgentDashboard';
+import { nprService } from './nprService';
 
 interface ContentRendererProps {
   currentSection: string;
@@ -92,6 +93,8 @@ export function renderContent({ currentSection, currentUser }: ContentRendererPr
           onComplete={(profile) => {
             console.log('NPR Assessment completed:', profile);
             // This would normally update the user profile in a real app
+            nprService.setUserId(currentUser.id);
+            nprService.updateConsent(profile.consentAndPrivacy, 'npr_questionnaire');
           }}
         />,
         'assessment'
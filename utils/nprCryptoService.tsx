@@ -4,9 +4,14 @@ import {
   MerkleProof, 
   CryptographicSignature, 
   NPREntry,
+  NPRTask,
   NPRCryptoService 
 } from './nprTypes';
 
+// Domain separation prefixes so a leaf hash can never be replayed as an internal node
+const MERKLE_LEAF_PREFIX = 0x00;
+const MERKLE_NODE_PREFIX = 0x01;
+
 class NPRCryptographicService implements NPRCryptoService {
   private textEncoder: TextEncoder;
   private textDecoder: TextDecoder;
@@ -50,10 +55,12 @@ class NPRCryptographicService implements NPRCryptoService {
    */
   async signData(data: any): Promise<CryptographicSignature> {
     const salt = this.generateSalt();
+    // The signed timestamp must be the one returned, or the signature can never be verified
+    const timestamp = new Date();
     const dataWithSalt = {
       data,
       salt,
-      timestamp: new Date()
+      timestamp
     };
     
     const hash = await this.generateHash(dataWithSalt, 'sha256');
@@ -62,7 +69,7 @@ class NPRCryptographicService implements NPRCryptoService {
       algorithm: 'sha256',
       hash,
       salt,
-      timestamp: new Date()
+      timestamp
     };
   }
 
@@ -85,10 +92,94 @@ class NPRCryptographicService implements NPRCryptoService {
     }
   }
 
+  /**
+   * Serialize data as canonical JSON: object keys sorted, Dates as ISO strings,
+   * undefined values dropped. Equal data always produces byte-identical output.
+   */
+  canonicalJSON(data: any): string {
+    if (data === null || data === undefined) {
+      return 'null';
+    }
+
+    if (data instanceof Date) {
+      return JSON.stringify(data.toISOString());
+    }
+
+    if (Array.isArray(data)) {
+      return `[${data.map(item => (item === undefined ? 'null' : this.canonicalJSON(item))).join(',')}]`;
+    }
+
+    if (typeof data === 'object') {
+      if (typeof data.toJSON === 'function') {
+        return this.canonicalJSON(data.toJSON());
+      }
+
+      const fields = Object.keys(data)
+        .filter(key => data[key] !== undefined && typeof data[key] !== 'function')
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${this.canonicalJSON(data[key])}`);
+
+      return `{${fields.join(',')}}`;
+    }
+
+    return JSON.stringify(data);
+  }
+
+  /**
+   * Hash an entry as a Merkle leaf: SHA-256(0x00 || canonical JSON of the entry's signed fields)
+   */
+  async hashMerkleLeaf(entry: NPREntry): Promise<string> {
+    const payload = this.textEncoder.encode(this.canonicalJSON({
+      id: entry.id,
+      type: entry.type,
+      content: entry.content,
+      timestamp: entry.timestamp,
+      signature: entry.signature
+    }));
+
+    return this.sha256Hex(this.concatBytes([MERKLE_LEAF_PREFIX], payload));
+  }
+
+  /**
+   * Hash two child hashes as a Merkle internal node: SHA-256(0x01 || left || right)
+   */
+  private async hashMerkleNode(leftHash: string, rightHash: string): Promise<string> {
+    return this.sha256Hex(this.concatBytes([MERKLE_NODE_PREFIX], this.hexToBytes(leftHash), this.hexToBytes(rightHash)));
+  }
+
+  private async sha256Hex(bytes: Uint8Array): Promise<string> {
+    const hashBuffer = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(hashBuffer))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  private hexToBytes(hex: string): Uint8Array {
+    if (!/^[0-9a-f]*$/i.test(hex) || hex.length % 2 !== 0) {
+      throw new Error('Invalid hex hash');
+    }
+
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return bytes;
+  }
+
+  private concatBytes(...parts: Array<ArrayLike<number>>): Uint8Array {
+    const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+
   /**
    * Create Merkle Tree from NPR entries
    */
-  createMerkleTree(entries: NPREntry[]): MerkleTree {
+  async createMerkleTree(entries: NPREntry[]): Promise<MerkleTree> {
     if (entries.length === 0) {
       throw new Error('Cannot create Merkle tree from empty entries');
     }
@@ -97,23 +188,15 @@ class NPRCryptographicService implements NPRCryptoService {
     const leaves: MerkleNode[] = [];
     
     for (const entry of entries) {
-      const leafHash = this.generateHashSync({
-        id: entry.id,
-        type: entry.type,
-        content: entry.content,
-        timestamp: entry.timestamp,
-        signature: entry.signature
-      });
-      
       leaves.push({
-        hash: leafHash,
+        hash: await this.hashMerkleLeaf(entry),
         data: entry,
         timestamp: entry.timestamp
       });
     }
 
     // Build tree bottom-up
-    const root = this.buildMerkleTreeRecursive(leaves);
+    const root = await this.buildMerkleTreeRecursive(leaves);
     
     return {
       root,
@@ -125,7 +208,7 @@ class NPRCryptographicService implements NPRCryptoService {
   /**
    * Build Merkle tree recursively
    */
-  private buildMerkleTreeRecursive(nodes: MerkleNode[]): MerkleNode {
+  private async buildMerkleTreeRecursive(nodes: MerkleNode[]): Promise<MerkleNode> {
     if (nodes.length === 1) {
       return nodes[0];
     }
@@ -135,52 +218,26 @@ class NPRCryptographicService implements NPRCryptoService {
     // Pair nodes and create parent nodes
     for (let i = 0; i < nodes.length; i += 2) {
       const left = nodes[i];
-      const right = i + 1 < nodes.length ? nodes[i + 1] : left; // Duplicate if odd number
-      
-      const parentHash = this.generateHashSync({
-        left: left.hash,
-        right: right.hash,
-        timestamp: new Date()
-      });
+
+      // Promote an unpaired node unchanged rather than duplicating it, so a tree
+      // with a repeated last leaf can never share a root with the original
+      if (i + 1 >= nodes.length) {
+        nextLevel.push(left);
+        continue;
+      }
+
+      const right = nodes[i + 1];
       
       nextLevel.push({
-        hash: parentHash,
+        hash: await this.hashMerkleNode(left.hash, right.hash),
         left,
-        right,
-        timestamp: new Date()
+        right
       });
     }
     
     return this.buildMerkleTreeRecursive(nextLevel);
   }
 
-  /**
-   * Synchronous hash generation for tree building
-   */
-  private generateHashSync(data: any): string {
-    // For browser compatibility, we'll use a simple but secure hash
-    // In production, consider using a WebCrypto-based approach with async handling
-    const jsonString = JSON.stringify(data, null, 0);
-    return this.simpleHash(jsonString);
-  }
-
-  /**
-   * Simple but effective hash function for synchronous operations
-   */
-  private simpleHash(str: string): string {
-    let hash = 0;
-    if (str.length === 0) return hash.toString(16);
-    
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    
-    // Convert to positive hex string
-    return (Math.abs(hash) + Date.now()).toString(16);
-  }
-
   /**
    * Calculate tree depth
    */
@@ -205,7 +262,9 @@ class NPRCryptographicService implements NPRCryptoService {
     const leaf = tree.leaves[leafIndex];
     
     // Generate proof path from leaf to root
-    this.generateProofPath(tree.root, leaf.hash, proof, []);
+    if (!this.generateProofPath(tree.root, leaf, proof)) {
+      throw new Error('Entry leaf is not reachable from the Merkle root');
+    }
     
     return {
       leaf: leaf.hash,
@@ -215,30 +274,28 @@ class NPRCryptographicService implements NPRCryptoService {
   }
 
   /**
-   * Recursively generate proof path
+   * Recursively generate proof path (siblings are collected bottom-up)
    */
   private generateProofPath(
     node: MerkleNode, 
-    targetHash: string, 
-    proof: Array<{ hash: string; isLeft: boolean }>,
-    currentPath: string[]
+    target: MerkleNode, 
+    proof: Array<{ hash: string; isLeft: boolean }>
   ): boolean {
-    if (node.hash === targetHash) {
-      return true;
+    if (!node.left || !node.right) {
+      // Leaves are matched by entry id so duplicate content cannot be confused
+      return node === target || (node.hash === target.hash && node.data?.id === target.data?.id);
     }
 
-    if (node.left && node.right) {
-      // Check left subtree
-      if (this.generateProofPath(node.left, targetHash, proof, [...currentPath, 'L'])) {
-        proof.push({ hash: node.right.hash, isLeft: false });
-        return true;
-      }
-      
-      // Check right subtree
-      if (this.generateProofPath(node.right, targetHash, proof, [...currentPath, 'R'])) {
-        proof.push({ hash: node.left.hash, isLeft: true });
-        return true;
-      }
+    // Check left subtree
+    if (this.generateProofPath(node.left, target, proof)) {
+      proof.push({ hash: node.right.hash, isLeft: false });
+      return true;
+    }
+    
+    // Check right subtree
+    if (this.generateProofPath(node.right, target, proof)) {
+      proof.push({ hash: node.left.hash, isLeft: true });
+      return true;
     }
 
     return false;
@@ -247,24 +304,14 @@ class NPRCryptographicService implements NPRCryptoService {
   /**
    * Verify Merkle proof
    */
-  verifyMerkleProof(proof: MerkleProof): boolean {
+  async verifyMerkleProof(proof: MerkleProof): Promise<boolean> {
     try {
       let currentHash = proof.leaf;
       
       for (const pathElement of proof.path) {
-        if (pathElement.isLeft) {
-          currentHash = this.generateHashSync({
-            left: pathElement.hash,
-            right: currentHash,
-            timestamp: new Date()
-          });
-        } else {
-          currentHash = this.generateHashSync({
-            left: currentHash,
-            right: pathElement.hash,
-            timestamp: new Date()
-          });
-        }
+        currentHash = pathElement.isLeft
+          ? await this.hashMerkleNode(pathElement.hash, currentHash)
+          : await this.hashMerkleNode(currentHash, pathElement.hash);
       }
       
       return currentHash === proof.root;
@@ -274,29 +321,25 @@ class NPRCryptographicService implements NPRCryptoService {
     }
   }
 
+  /**
+   * Verify that an entry, as currently stored, is included under the proof's root
+   */
+  async verifyEntryInclusion(entry: NPREntry, proof: MerkleProof): Promise<boolean> {
+    const leafHash = await this.hashMerkleLeaf(entry);
+    if (leafHash !== proof.leaf) {
+      return false;
+    }
+    return this.verifyMerkleProof(proof);
+  }
+
   /**
    * Update Merkle tree with new entry
    */
-  updateMerkleTree(tree: MerkleTree, newEntry: NPREntry): MerkleTree {
-    // Add new leaf
-    const newLeafHash = this.generateHashSync({
-      id: newEntry.id,
-      type: newEntry.type,
-      content: newEntry.content,
-      timestamp: newEntry.timestamp,
-      signature: newEntry.signature
-    });
-    
-    const newLeaf: MerkleNode = {
-      hash: newLeafHash,
-      data: newEntry,
-      timestamp: newEntry.timestamp
-    };
-    
-    const updatedLeaves = [...tree.leaves, newLeaf];
+  async updateMerkleTree(tree: MerkleTree, newEntry: NPREntry): Promise<MerkleTree> {
+    const entries = tree.leaves.map(leaf => leaf.data as NPREntry);
     
     // Rebuild tree with new leaf
-    return this.createMerkleTree(updatedLeaves.map(leaf => leaf.data!));
+    return this.createMerkleTree([...entries, newEntry]);
   }
 
   /**
@@ -310,11 +353,10 @@ class NPRCryptographicService implements NPRCryptoService {
     const compromisedEntries: string[] = [];
     let validEntries = 0;
 
-    // Verify each entry's signature
+    // Verify each entry's signature over the same fields saveNPREntry signs
     for (const entry of entries) {
       const isValid = await this.verifySignature(
         {
-          id: entry.id,
           type: entry.type,
           content: entry.content,
           timestamp: entry.timestamp,
@@ -339,6 +381,34 @@ class NPRCryptographicService implements NPRCryptoService {
     };
   }
 
+  /**
+   * Fields covered by a task's task_signature. The server signs this same object on every
+   * task write, so the key order here must match supabase/functions/server/npr_tasks.tsx.
+   */
+  taskSignaturePayload(task: NPRTask) {
+    return {
+      id: task.id,
+      title: task.title,
+      description: task.description,
+      is_completed: task.is_completed,
+      is_ai_generated: task.is_ai_generated,
+      priority: task.priority,
+      created_at: task.created_at,
+      completed_at: task.completed_at ?? null,
+      due_date: task.due_date ?? null,
+      tags: task.tags || [],
+      series_id: task.series_id ?? null,
+      occurrence_date: task.occurrence_date ?? null
+    };
+  }
+
+  /**
+   * Verify a task's signature against its current content
+   */
+  async verifyTaskSignature(task: NPRTask): Promise<boolean> {
+    return this.verifySignature(this.taskSignaturePayload(task), task.task_signature);
+  }
+
   /**
    * Generate audit trail for NPR modifications
    */
@@ -0,0 +1,209 @@
+/**
+ * Durable outbox for NPR requests made while offline.
+ *
+ * Each queued request keeps its full endpoint, payload and idempotency key in IndexedDB so it
+ * survives reloads and is replayed in the order it was made; the key lets the server recognise
+ * a replay it has already applied. When IndexedDB is not available (e.g. some private browsing
+ * modes) the outbox falls back to memory for the session.
+ *
+ * Every item records the user who queued it. The server acts on whoever the access token belongs
+ * to, so items are only replayed, and only shown, while their owner is signed in; another account
+ * on the same device never sees or sends them.
+ */
+
+export type OutboxItemStatus = 'pending' | 'conflict' | 'failed';
+
+export interface OutboxItem {
+  id?: number; // Auto-incremented by IndexedDB; also defines replay order
+  user_id: string;
+  endpoint: string;
+  payload: any;
+  idempotency_key: string;
+  attempts: number;
+  status: OutboxItemStatus;
+  created_at: string;
+  last_attempt_at: string | null;
+  last_error: string | null;
+}
+
+export type OutboxListener = (items: OutboxItem[]) => void;
+
+const DB_NAME = 'akilii-npr';
+const DB_VERSION = 2;
+const STORE_NAME = 'outbox';
+const LEGACY_QUEUE_KEY = 'akilii-npr-offline-queue';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+class NPROutbox {
+  private dbPromise: Promise<IDBDatabase | null>;
+  private memoryItems: OutboxItem[] = [];
+  private nextMemoryId = 1;
+  private listeners = new Set<OutboxListener>();
+
+  constructor() {
+    this.dbPromise = this.openDatabase();
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      console.warn('IndexedDB unavailable - outbox will not survive reloads');
+      return Promise.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        if (event.oldVersion < 1) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+          return;
+        }
+
+        if (event.oldVersion < 2) {
+          // Items from before owners were recorded: the payload's userId names the owner where it
+          // has one, and an item nobody can be sure of is dropped rather than sent as someone else
+          const cursorRequest = request.transaction!.objectStore(STORE_NAME).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+
+            const owner = cursor.value.payload?.userId;
+            if (typeof owner === 'string' && owner) {
+              cursor.update({ ...cursor.value, user_id: owner });
+            } else {
+              cursor.delete();
+            }
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Could not open outbox database, using memory:', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T | undefined> {
+    const db = await this.dbPromise;
+    if (!db) return undefined;
+
+    const transaction = db.transaction(STORE_NAME, mode);
+    return requestToPromise(operation(transaction.objectStore(STORE_NAME)));
+  }
+
+  /**
+   * Outbox items in replay order, all of them or only those the given user queued
+   */
+  async list(userId?: string): Promise<OutboxItem[]> {
+    const items = (await this.dbPromise)
+      ? (await this.withStore('readonly', store => store.getAll() as IDBRequest<OutboxItem[]>)) || []
+      : [...this.memoryItems];
+    return userId === undefined ? items : items.filter(item => item.user_id === userId);
+  }
+
+  async enqueue(
+    userId: string,
+    endpoint: string,
+    payload: any,
+    idempotencyKey: string = crypto.randomUUID()
+  ): Promise<OutboxItem> {
+    const item: OutboxItem = {
+      user_id: userId,
+      endpoint,
+      payload,
+      idempotency_key: idempotencyKey,
+      attempts: 0,
+      status: 'pending',
+      created_at: new Date().toISOString(),
+      last_attempt_at: null,
+      last_error: null
+    };
+
+    if (await this.dbPromise) {
+      item.id = await this.withStore('readwrite', store => store.add(item) as IDBRequest<number>);
+    } else {
+      item.id = this.nextMemoryId++;
+      this.memoryItems.push(item);
+    }
+
+    await this.notify();
+    return item;
+  }
+
+  async update(item: OutboxItem): Promise<void> {
+    if (await this.dbPromise) {
+      await this.withStore('readwrite', store => store.put(item));
+    } else {
+      this.memoryItems = this.memoryItems.map(existing => (existing.id === item.id ? item : existing));
+    }
+    await this.notify();
+  }
+
+  async remove(id: number): Promise<void> {
+    if (await this.dbPromise) {
+      await this.withStore('readwrite', store => store.delete(id));
+    } else {
+      this.memoryItems = this.memoryItems.filter(item => item.id !== id);
+    }
+    await this.notify();
+  }
+
+  /**
+   * Move requests queued by the old localStorage queue into the outbox. That queue only kept
+   * the last path segment, which is enough to rebuild the endpoint for /npr/* routes; anything
+   * the caller does not consider queueable (reads, AI generation) is dropped.
+   */
+  async migrateLegacyQueue(isQueueable: (endpoint: string) => boolean): Promise<void> {
+    try {
+      const legacyData = localStorage.getItem(LEGACY_QUEUE_KEY);
+      if (!legacyData) return;
+
+      for (const legacyItem of JSON.parse(legacyData)) {
+        const endpoint = `/npr/${legacyItem?.method}`;
+        // The old queue recorded no owner; requests without a userId in their data are dropped
+        const owner = legacyItem?.data?.userId;
+        if (typeof owner === 'string' && owner && isQueueable(endpoint)) {
+          await this.enqueue(owner, endpoint, legacyItem.data);
+        }
+      }
+      localStorage.removeItem(LEGACY_QUEUE_KEY);
+    } catch (error) {
+      console.warn('Could not migrate legacy offline queue:', error);
+    }
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    this.list().then(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send listeners the current items again, e.g. after a different user signed in
+   */
+  refresh(): Promise<void> {
+    return this.notify();
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+
+    const items = await this.list();
+    this.listeners.forEach(listener => listener(items));
+  }
+}
+
+export const nprOutbox = new NPROutbox();
@@ -0,0 +1,51 @@
+import { NPRUserProfile, NPR_PROFILE_SCHEMA_VERSION } from './nprTypes';
+
+/**
+ * Runtime checks for the canonical profile schema. Stored documents are migrated by the server
+ * when they are read (supabase/functions/server/npr_profile_schema), so the client only fills in
+ * defaults for documents it builds itself or restores from local storage. The checks themselves
+ * are shared with the server, which runs them on the profiles it stores.
+ */
+
+export {
+  ProfileValidationError,
+  validateProfile,
+  validateSection
+} from '../supabase/functions/server/npr_profile_validation';
+
+/**
+ * A profile document with every section the current schema expects
+ */
+export function withProfileDefaults(document: any): NPRUserProfile {
+  if (document.schema_version > NPR_PROFILE_SCHEMA_VERSION) {
+    console.warn('Profile schema is newer than this client understands:', document.schema_version);
+  }
+
+  const entries = document.entries || {};
+
+  return {
+    ...document,
+    schema_version: Math.max(document.schema_version || 0, NPR_PROFILE_SCHEMA_VERSION),
+    entries: {
+      ...entries,
+      allEntries: Array.isArray(entries.allEntries) ? entries.allEntries : []
+    },
+    profile: document.profile ?? null,
+    psychometric_battery: document.psychometric_battery || {
+      completion_status: {
+        cognitive_assessment: false,
+        personality_profile: false,
+        emotional_intelligence: false,
+        standardized_assessments: false
+      },
+      last_assessment_date: null,
+      next_scheduled_assessment: null
+    },
+    verification: document.verification || {
+      is_verified: false,
+      last_verification_date: null,
+      merkle_root_hash: null,
+      integrity_status: 'pending'
+    }
+  };
+}
@@ -7,25 +7,84 @@ import {
   NPRProfile, 
   NPRTask,
   NPRResponseResult,
+  NPRChatResult,
   NPRTaskResult,
+  NPRRecurrenceRule,
   NPRProfileResult,
+  NPRIntegrityResult,
+  NPRIntegrityReport,
   CognitiveAssessment,
   PersonalityProfile,
   EmotionalIntelligence,
   StandardizedAssessments,
   AssessmentSession,
-  MerkleTree,
+  AssessmentSessionResult,
+  AssessmentCheckpoint,
+  NPRInsightResult,
+  PsychometricAssessmentResult,
+  NPRConsentResult,
+  NPRExportResult,
+  NPRDeletionResult,
   CryptographicSignature
 } from './nprTypes';
+import { ConsentType } from './apiTypes';
 import { nprCryptoService } from './nprCryptoService';
+import { ProfileValidationError, validateProfile, withProfileDefaults } from './nprProfileSchema';
+import { nprOutbox, OutboxItem } from './nprOutbox';
 
 const supabaseUrl = `https://${projectId}.supabase.co`;
 
+// Mutations that are kept in the outbox and replayed when a request cannot reach the server.
+// Reads and AI generation are never queued - their callers fall back to local data instead.
+const OUTBOX_ENDPOINTS = new Set([
+  '/npr/save-entry',
+  '/npr/update-consent',
+  '/npr/save-psychometric-assessment',
+  '/npr/start-assessment-session',
+  '/npr/checkpoint-assessment-session',
+  '/npr/complete-assessment-session',
+  '/npr/discard-assessment-session',
+  '/npr/save-task',
+  '/npr/update-task',
+  '/npr/delete-task',
+  '/npr/reorder-tasks',
+  '/npr/bulk-update-tasks',
+  '/npr/bulk-delete-tasks',
+  '/npr/create-recurring-task',
+  '/npr/skip-occurrence',
+  '/npr/snooze-occurrence',
+  '/npr/delete-task-series'
+]);
+
+// Mutations the server deduplicates by Idempotency-Key; every attempt of one request sends the same key
+const IDEMPOTENT_ENDPOINTS = new Set([
+  ...OUTBOX_ENDPOINTS,
+  '/npr/request-deletion',
+  '/npr/generate-ai-response',
+  '/npr/generate-ai-response-with-files',
+  '/npr/generate-tasks',
+  '/npr/generate-enhanced-tasks'
+]);
+
+const MAX_OUTBOX_ATTEMPTS = 5;
+
+// The `sub` claim of a Supabase access token, which is the user the server will act on
+function userIdFromToken(token: string): string | null {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, '=')));
+    return typeof claims.sub === 'string' ? claims.sub : null;
+  } catch {
+    return null;
+  }
+}
+
 // Enhanced error types
 interface NPRError extends Error {
   code?: string;
   isNetworkError?: boolean;
   isRetryable?: boolean;
+  status?: number;
 }
 
 class NPRService {
@@ -33,67 +92,103 @@ class NPRService {
   private userId: string | null = null;
   private retryAttempts = 3;
   private retryDelay = 1000; // Start with 1 second delay
-  private offlineQueue: Array<{ method: string; data: any; timestamp: Date }> = [];
+  private isReplayingOutbox = false;
 
   constructor() {
-    // Initialize service and check for offline data
+    // Initialize service and replay anything left in the outbox
     this.initializeOfflineSupport();
   }
 
   private initializeOfflineSupport() {
-    // Load any pending offline data
-    try {
-      const offlineData = localStorage.getItem('akilii-npr-offline-queue');
-      if (offlineData) {
-        this.offlineQueue = JSON.parse(offlineData);
-      }
-    } catch (error) {
-      console.warn('Could not load offline queue:', error);
-    }
+    nprOutbox.migrateLegacyQueue(endpoint => OUTBOX_ENDPOINTS.has(endpoint));
 
     // Listen for online/offline events
     window.addEventListener('online', () => {
-      this.processOfflineQueue();
+      this.processOutbox();
     });
   }
 
-  private async processOfflineQueue() {
-    if (this.offlineQueue.length === 0) return;
+  /**
+   * Replay the signed-in user's queued requests in the order they were made. A conflict or a
+   * permanent failure is recorded on the item for the UI and replay moves on; a transient failure
+   * stops replay so later requests are not applied ahead of an earlier one. Other users' items
+   * wait until their owner signs in again.
+   */
+  async processOutbox(): Promise<void> {
+    const ownerId = this.userId;
+    if (this.isReplayingOutbox || !this.isOnline() || !this.accessToken || !ownerId) return;
+
+    this.isReplayingOutbox = true;
+    try {
+      const pendingItems = (await nprOutbox.list(ownerId)).filter(item => item.status === 'pending');
+      if (pendingItems.length > 0) {
+        console.log('Replaying outbox:', pendingItems.length, 'items');
+      }
 
-    console.log('Processing offline queue:', this.offlineQueue.length, 'items');
-    
-    const queue = [...this.offlineQueue];
-    this.offlineQueue = [];
-    
-    for (const item of queue) {
-      try {
-        // Attempt to process each queued item
-        switch (item.method) {
-          case 'saveNPREntry':
-            await this.makeServerRequest('/npr/save-entry', item.data);
-            break;
-          case 'savePsychometricAssessment':
-            await this.makeServerRequest('/npr/save-psychometric-assessment', item.data);
-            break;
-          default:
-            console.warn('Unknown offline method:', item.method);
+      for (const item of pendingItems) {
+        // Signed out or switched accounts mid-replay; the rest waits for its owner
+        if (this.userId !== ownerId) break;
+
+        item.attempts++;
+        item.last_attempt_at = new Date().toISOString();
+
+        try {
+          await this.makeServerRequest(item.endpoint, item.payload, {
+            skipRetry: true,
+            skipOfflineQueue: true,
+            idempotencyKey: item.idempotency_key
+          });
+          await nprOutbox.remove(item.id!);
+        } catch (error) {
+          const requestError = error as NPRError;
+          item.last_error = requestError.message;
+
+          if (requestError.status === 409 && !requestError.isRetryable) {
+            item.status = 'conflict';
+          } else if (!requestError.isRetryable || item.attempts >= MAX_OUTBOX_ATTEMPTS) {
+            item.status = 'failed';
+          }
+          await nprOutbox.update(item);
+
+          if (item.status === 'pending') break;
         }
-      } catch (error) {
-        // If still failing, add back to queue
-        this.offlineQueue.push(item);
       }
+    } finally {
+      this.isReplayingOutbox = false;
     }
+  }
 
-    // Update local storage
-    this.updateOfflineStorage();
+  /**
+   * Watch the outbox; the listener receives every queued, conflicting and failed request
+   */
+  subscribeToOutbox(listener: (items: OutboxItem[]) => void): () => void {
+    return nprOutbox.subscribe(items => listener(items.filter(item => item.user_id === this.userId)));
   }
 
-  private updateOfflineStorage() {
-    try {
-      localStorage.setItem('akilii-npr-offline-queue', JSON.stringify(this.offlineQueue));
-    } catch (error) {
-      console.warn('Could not update offline storage:', error);
+  /**
+   * Put a conflicting or failed request back in line and replay it
+   */
+  async retryOutboxItem(item: OutboxItem): Promise<void> {
+    await nprOutbox.update({ ...item, status: 'pending', attempts: 0, last_error: null });
+    await this.processOutbox();
+  }
+
+  /**
+   * Give up on a queued request; its change will not reach the server
+   */
+  async discardOutboxItem(item: OutboxItem): Promise<void> {
+    await nprOutbox.remove(item.id!);
+  }
+
+  private async enqueueRequest(endpoint: string, data: any, idempotencyKey?: string) {
+    if (!this.userId) {
+      throw this.createNetworkError('You are offline');
     }
+
+    const item = await nprOutbox.enqueue(this.userId, endpoint, data, idempotencyKey);
+    console.log('Request queued in outbox:', endpoint);
+
+    return { offline: true, queued: true, outboxId: item.id };
   }
 
   private isOnline(): boolean {
@@ -102,10 +197,19 @@ class NPRService {
 
   setAccessToken(token: string) {
     this.accessToken = token;
+    if (token) {
+      // Known before any component calls setUserId, so replay starts with the right owner
+      this.setUserId(userIdFromToken(token) || this.userId || '');
+      this.processOutbox();
+    }
   }
 
   setUserId(userId: string) {
-    this.userId = userId;
+    const changed = userId !== (this.userId || '');
+    this.userId = userId || null;
+    if (changed) {
+      nprOutbox.refresh();
+    }
   }
 
   private createNetworkError(message: string, originalError?: any): NPRError {
@@ -121,6 +225,25 @@ class NPRService {
     return error;
   }
 
+  // Server errors are only worth retrying when the server may succeed next time
+  private createServerError(status: number, errorText: string): NPRError {
+    const error = new Error(`Server request failed: ${status} - ${errorText}`) as NPRError;
+    error.code = 'SERVER_ERROR';
+    error.status = status;
+    error.isNetworkError = false;
+    // A 409 for an Idempotency-Key still being processed clears once the first request finishes
+    error.isRetryable = status >= 500 || status === 408 || status === 429 ||
+      (status === 409 && errorText.includes('"in_progress":true'));
+    return error;
+  }
+
+  // A 400 means the server refused the request itself (e.g. an unconfigured provider), so a
+  // locally generated reply would hide the problem
+  private isRejectedRequest(error: unknown): boolean {
+    const serverError = error as NPRError;
+    return serverError?.code === 'SERVER_ERROR' && serverError.status === 400;
+  }
+
   private async delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -129,23 +252,25 @@ class NPRService {
     skipRetry?: boolean;
     skipOfflineQueue?: boolean;
     skipAuth?: boolean;
+    idempotencyKey?: string;
+    responseType?: 'json' | 'blob';
   } = {}): Promise<any> {
     if (!this.accessToken && !options.skipAuth) {
       throw new Error('No access token available');
     }
 
+    const canQueue = OUTBOX_ENDPOINTS.has(endpoint) && !options.skipOfflineQueue;
+    // The key is fixed before the first attempt, so a retry or outbox replay of a request that did
+    // reach the server before the connection dropped gets the original response back
+    const idempotencyKey = options.idempotencyKey ||
+      (IDEMPOTENT_ENDPOINTS.has(endpoint) ? crypto.randomUUID() : undefined);
+
     // Check if we're offline
-    if (!this.isOnline() && !options.skipOfflineQueue) {
-      console.log('Offline detected, queuing request:', endpoint);
-      this.offlineQueue.push({
-        method: endpoint.split('/').pop() || 'unknown',
-        data,
-        timestamp: new Date()
-      });
-      this.updateOfflineStorage();
-      
-      // Return a success response for offline mode
-      return { success: true, offline: true };
+    if (!this.isOnline()) {
+      if (canQueue) {
+        return this.enqueueRequest(endpoint, data, idempotencyKey);
+      }
+      throw this.createNetworkError('You are offline');
     }
 
     let lastError: any;
@@ -165,6 +290,10 @@ class NPRService {
           headers['Authorization'] = `Bearer ${this.accessToken}`;
         }
 
+        if (idempotencyKey) {
+          headers['Idempotency-Key'] = idempotencyKey;
+        }
+
         const response = await fetch(`${supabaseUrl}/functions/v1/make-server-feeffd69${endpoint}`, {
           method: 'POST',
           headers,
@@ -176,10 +305,10 @@ class NPRService {
 
         if (!response.ok) {
           const errorText = await response.text();
-          throw this.createNetworkError(`Server request failed: ${response.status} - ${errorText}`);
+          throw this.createServerError(response.status, errorText);
         }
 
-        const result = await response.json();
+        const result = options.responseType === 'blob' ? await response.blob() : await response.json();
         console.log('NPR Request successful:', endpoint);
         return result;
 
@@ -194,8 +323,12 @@ class NPRService {
           lastError = this.createNetworkError('Network connection failed - please check your internet connection');
         }
 
-        // If this isn't the last attempt and the error is retryable, wait before retrying
-        if (attempt < this.retryAttempts && (lastError as NPRError).isRetryable) {
+        if (!(lastError as NPRError).isRetryable) {
+          break;
+        }
+
+        // If this isn't the last attempt, wait before retrying
+        if (attempt < this.retryAttempts) {
           const delayTime = this.retryDelay * Math.pow(2, attempt - 1); // Exponential backoff
           console.log(`Waiting ${delayTime}ms before retry...`);
           await this.delay(delayTime);
@@ -203,55 +336,33 @@ class NPRService {
       }
     }
 
+    // The server was unreachable, so keep the mutation for replay rather than losing it
+    if (canQueue && (lastError as NPRError)?.isNetworkError) {
+      return this.enqueueRequest(endpoint, data, idempotencyKey);
+    }
+
     // All attempts failed
     throw lastError || this.createNetworkError('All retry attempts failed');
   }
 
   /**
-   * Ensure NPR profile has proper structure
+   * Map the server's integrity report onto the profile's verification block.
+   * Entries saved before the ledger existed cannot be attested, so they keep the status pending.
    */
-  private ensureProfileStructure(profile: any): NPRUserProfile {
-    // Ensure entries structure exists
-    if (!profile.entries) {
-      profile.entries = {
-        goal: null,
-        challenge: null,
-        strength: null,
-        preference: null,
-        allEntries: []
-      };
-    }
-
-    // Ensure allEntries is always an array
-    if (!Array.isArray(profile.entries.allEntries)) {
-      profile.entries.allEntries = [];
-    }
-
-    // Ensure psychometric_battery structure exists
-    if (!profile.psychometric_battery) {
-      profile.psychometric_battery = {
-        completion_status: {
-          cognitive_assessment: false,
-          personality_profile: false,
-          emotional_intelligence: false,
-          standardized_assessments: false
-        },
-        last_assessment_date: null,
-        next_scheduled_assessment: null
-      };
+  private toProfileVerification(report: NPRIntegrityReport): NPRUserProfile['verification'] {
+    let integrityStatus: NPRUserProfile['verification']['integrity_status'] = 'valid';
+    if (!report.valid) {
+      integrityStatus = 'compromised';
+    } else if (report.entry_count === 0 || report.unledgered_entry_ids.length > 0) {
+      integrityStatus = 'pending';
     }
 
-    // Ensure verification structure exists
-    if (!profile.verification) {
-      profile.verification = {
-        is_verified: false,
-        last_verification_date: null,
-        merkle_root_hash: null,
-        integrity_status: 'pending'
-      };
-    }
-
-    return profile as NPRUserProfile;
+    return {
+      is_verified: integrityStatus === 'valid',
+      last_verification_date: new Date(report.verified_at),
+      merkle_root_hash: report.merkle_root,
+      integrity_status: integrityStatus
+    };
   }
 
   /**
@@ -285,45 +396,26 @@ class NPRService {
         console.warn('Could not save to local storage:', storageError);
       }
 
-      // Get existing profile to update Merkle tree
-      const existingProfile = await this.getNPRProfile(userId);
-      let merkleTree: MerkleTree | undefined;
-      
-      if (existingProfile.success && existingProfile.profile && existingProfile.profile.entries.allEntries) {
-        const allEntries = [...existingProfile.profile.entries.allEntries, entry];
-        if (allEntries.length > 0) {
-          merkleTree = nprCryptoService.createMerkleTree(allEntries);
-          
-          // Generate Merkle proof for this entry
-          entry.merkle_proof = nprCryptoService.generateMerkleProof(merkleTree, entry);
-        }
-      }
-
+      // The server appends the entry to its integrity ledger and returns its inclusion proof
       const result = await this.makeServerRequest('/npr/save-entry', {
         userId,
-        entry,
-        merkleTree
+        entry
       });
 
+      if (result.merkle_proof) {
+        entry.merkle_proof = result.merkle_proof;
+      }
+
       console.log('NPR entry saved successfully:', result);
 
       return {
         success: true,
-        entry: result.entry || entry,
-        offline: result.offline
+        entry: result.entry ? { ...result.entry, merkle_proof: entry.merkle_proof } : entry,
+        offline: result.offline,
+        message: result.queued ? 'Saved offline - will sync when connection is restored' : undefined
       };
     } catch (error) {
       console.error('Save NPR entry error:', error);
-      
-      // If it's a network error and we're offline, still return success
-      if ((error as NPRError).isNetworkError && !this.isOnline()) {
-        return {
-          success: true,
-          entry: { id: `${type}-${Date.now()}`, type, content, timestamp: new Date() },
-          offline: true,
-          message: 'Saved offline - will sync when connection is restored'
-        };
-      }
 
       return {
         success: false,
@@ -345,28 +437,11 @@ class NPRService {
       
       if (result.profile) {
         // Ensure proper structure
-        const structuredProfile = this.ensureProfileStructure(result.profile);
+        const structuredProfile = withProfileDefaults(result.profile);
         
-        // Verify data integrity if profile exists and has entries
-        if (structuredProfile.entries.allEntries && structuredProfile.entries.allEntries.length > 0) {
-          try {
-            const integrityCheck = await nprCryptoService.validateDataIntegrity(structuredProfile.entries.allEntries);
-            
-            structuredProfile.verification = {
-              is_verified: integrityCheck.isValid,
-              last_verification_date: new Date(),
-              merkle_root_hash: result.profile.merkleTree?.root?.hash || null,
-              integrity_status: integrityCheck.isValid ? 'valid' : 'compromised'
-            };
-          } catch (integrityError) {
-            console.warn('Integrity check failed:', integrityError);
-            structuredProfile.verification = {
-              is_verified: false,
-              last_verification_date: new Date(),
-              merkle_root_hash: null,
-              integrity_status: 'pending'
-            };
-          }
+        // Integrity is attested by the server's ledger rather than re-derived here
+        if (result.verification) {
+          structuredProfile.verification = this.toProfileVerification(result.verification);
         }
         
         return {
@@ -377,7 +452,7 @@ class NPRService {
         // Return a basic profile structure if none exists
         return {
           success: true,
-          profile: this.ensureProfileStructure({})
+          profile: withProfileDefaults({})
         };
       }
     } catch (error) {
@@ -390,7 +465,7 @@ class NPRService {
           console.log('Using local profile fallback');
           return {
             success: true,
-            profile: this.ensureProfileStructure(JSON.parse(localProfile)),
+            profile: withProfileDefaults(JSON.parse(localProfile)),
             offline: true
           };
         }
@@ -401,7 +476,39 @@ class NPRService {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Failed to get profile',
-        profile: this.ensureProfileStructure({})
+        profile: withProfileDefaults({})
+      };
+    }
+  }
+
+  /**
+   * Ask the server to verify the user's entry ledger, returning its Merkle root, inclusion
+   * proofs and any tampered entry IDs. Each proof is also checked locally against the root.
+   */
+  async verifyProfileIntegrity(userId: string, entryIds?: string[]): Promise<NPRIntegrityResult> {
+    try {
+      const report: NPRIntegrityReport = await this.makeServerRequest('/npr/verify', { userId, entryIds }, {
+        skipOfflineQueue: true
+      });
+
+      let proofsVerified = true;
+      for (const proof of report.proofs || []) {
+        if (proof.root !== report.merkle_root || !(await nprCryptoService.verifyMerkleProof(proof))) {
+          proofsVerified = false;
+          break;
+        }
+      }
+
+      return {
+        success: true,
+        report,
+        proofs_verified: proofsVerified
+      };
+    } catch (error) {
+      console.error('Verify NPR integrity error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to verify integrity'
       };
     }
   }
@@ -415,7 +522,7 @@ class NPRService {
     personality: PersonalityProfile,
     emotionalIntelligence: EmotionalIntelligence,
     standardized: StandardizedAssessments
-  ): Promise<NPRResponseResult> {
+  ): Promise<PsychometricAssessmentResult> {
     try {
       console.log('Saving psychometric assessment for:', userId);
 
@@ -445,6 +552,11 @@ class NPRService {
         updated_at: new Date()
       };
 
+      const issues = validateProfile(profileData);
+      if (issues.length > 0) {
+        throw new ProfileValidationError(issues);
+      }
+
       // Save to local storage as backup
       try {
         localStorage.setItem(`akilii-npr-assessment-${userId}`, JSON.stringify(profileData));
@@ -467,22 +579,21 @@ class NPRService {
 
       console.log('Psychometric assessment saved successfully');
 
+      // Nothing is compared or scheduled until a queued save reaches the server
+      const battery = result.profile?.psychometric_battery;
       return {
         success: true,
-        response: 'Psychometric assessment saved successfully',
-        offline: result.offline
+        response: result.queued
+          ? 'Assessment saved offline - will sync when connection is restored'
+          : 'Psychometric assessment saved successfully',
+        offline: result.offline,
+        changes: result.changes || [],
+        insights: result.insights || [],
+        next_scheduled_assessment: battery?.next_scheduled_assessment ?? null,
+        reassessment_schedule: battery?.reassessment_schedule
       };
     } catch (error) {
       console.error('Save psychometric assessment error:', error);
-      
-      // If it's a network error and we're offline, still return success
-      if ((error as NPRError).isNetworkError && !this.isOnline()) {
-        return {
-          success: true,
-          response: 'Assessment saved offline - will sync when connection is restored',
-          offline: true
-        };
-      }
 
       return {
         success: false,
@@ -492,6 +603,265 @@ class NPRService {
     }
   }
 
+  /**
+   * The user's current consent and every change they have made to it
+   */
+  async getConsent(): Promise<NPRConsentResult> {
+    try {
+      const result = await this.makeServerRequest('/npr/get-consent', {
+        userId: this.userId
+      });
+
+      return { success: true, consent: result.consent, history: result.history || [] };
+    } catch (error) {
+      console.error('Get consent error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get consent'
+      };
+    }
+  }
+
+  /**
+   * Grant or withdraw consents; types left out of `grants` keep their current value
+   */
+  async updateConsent(
+    grants: Partial<Record<ConsentType, boolean>>,
+    source: string = 'settings'
+  ): Promise<NPRConsentResult> {
+    try {
+      const result = await this.makeServerRequest('/npr/update-consent', {
+        userId: this.userId,
+        grants,
+        source
+      });
+
+      return { success: true, consent: result.consent, offline: result.offline };
+    } catch (error) {
+      console.error('Update consent error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update consent'
+      };
+    }
+  }
+
+  /**
+   * A zip archive of everything stored about the user, with a manifest and Merkle root to verify it
+   */
+  async exportPersonalData(): Promise<NPRExportResult> {
+    try {
+      const archive: Blob = await this.makeServerRequest('/npr/export-data', {}, {
+        responseType: 'blob'
+      });
+
+      return {
+        success: true,
+        archive,
+        filename: `akilii-export-${new Date().toISOString().split('T')[0]}.zip`
+      };
+    } catch (error) {
+      console.error('Export personal data error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to export your data'
+      };
+    }
+  }
+
+  /**
+   * The user's scheduled account deletion, or null if none is scheduled
+   */
+  async getDeletion(): Promise<NPRDeletionResult> {
+    try {
+      const result = await this.makeServerRequest('/npr/get-deletion', {});
+      return { success: true, deletion: result.deletion };
+    } catch (error) {
+      console.error('Get deletion error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get deletion status'
+      };
+    }
+  }
+
+  /**
+   * Schedule the account and all its data for deletion after the grace period.
+   * `confirmation` is what the user typed to confirm and must be 'DELETE'.
+   */
+  async requestDeletion(confirmation: string): Promise<NPRDeletionResult> {
+    try {
+      const result = await this.makeServerRequest('/npr/request-deletion', { confirmation });
+      return { success: true, deletion: result.deletion };
+    } catch (error) {
+      console.error('Request deletion error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to schedule deletion'
+      };
+    }
+  }
+
+  /**
+   * Undo a scheduled deletion during the grace period
+   */
+  async cancelDeletion(): Promise<NPRDeletionResult> {
+    try {
+      const result = await this.makeServerRequest('/npr/cancel-deletion', {});
+      return { success: true, deletion: result.deletion };
+    } catch (error) {
+      console.error('Cancel deletion error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to cancel deletion'
+      };
+    }
+  }
+
+  /**
+   * Insights from comparing the user's assessments over time, newest first
+   */
+  async getInsights(): Promise<NPRInsightResult> {
+    try {
+      const result = await this.makeServerRequest('/npr/get-insights', {
+        userId: this.userId
+      });
+
+      return { success: true, insights: result.insights || [] };
+    } catch (error) {
+      console.error('Get insights error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get insights'
+      };
+    }
+  }
+
+  /**
+   * Open a resumable assessment session on the server, replacing any the user had open
+   */
+  async startAssessmentSession(session: AssessmentSession): Promise<AssessmentSessionResult> {
+    try {
+      const result = await this.makeServerRequest('/npr/start-assessment-session', {
+        userId: this.userId,
+        session
+      });
+
+      return {
+        success: true,
+        session: result.session || session,
+        offline: result.offline
+      };
+    } catch (error) {
+      console.error('Start assessment session error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to start assessment session'
+      };
+    }
+  }
+
+  /**
+   * The user's open assessment session, if there is one that has not expired
+   */
+  async getAssessmentSession(): Promise<AssessmentSessionResult> {
+    try {
+      const result = await this.makeServerRequest('/npr/get-assessment-session', {
+        userId: this.userId
+      });
+
+      return {
+        success: true,
+        session: result.session || null
+      };
+    } catch (error) {
+      console.error('Get assessment session error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get assessment session'
+      };
+    }
+  }
+
+  /**
+   * Save assessment progress. `seq` must increase with every checkpoint of a session; the
+   * server ignores one older than what it already has.
+   */
+  async checkpointAssessmentSession(
+    sessionId: string,
+    seq: number,
+    state: AssessmentCheckpoint,
+    options: { status?: 'in_progress' | 'paused'; currentStep?: number } = {}
+  ): Promise<AssessmentSessionResult> {
+    try {
+      // No retries: the next trial's checkpoint supersedes this one anyway
+      const result = await this.makeServerRequest('/npr/checkpoint-assessment-session', {
+        userId: this.userId,
+        sessionId,
+        checkpoint: {
+          seq,
+          status: options.status,
+          current_step: options.currentStep,
+          state
+        }
+      }, { skipRetry: true });
+
+      return { success: true, offline: result.offline };
+    } catch (error) {
+      console.error('Checkpoint assessment session error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to checkpoint assessment session'
+      };
+    }
+  }
+
+  /**
+   * Close the session with its final results; the returned session carries the server's
+   * session_signature over them
+   */
+  async completeAssessmentSession(sessionId: string, results: AssessmentSession['results']): Promise<AssessmentSessionResult> {
+    try {
+      const result = await this.makeServerRequest('/npr/complete-assessment-session', {
+        userId: this.userId,
+        sessionId,
+        results
+      });
+
+      return {
+        success: true,
+        session: result.session,
+        offline: result.offline
+      };
+    } catch (error) {
+      console.error('Complete assessment session error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to complete assessment session'
+      };
+    }
+  }
+
+  /**
+   * Drop an open session so the assessment can start over
+   */
+  async discardAssessmentSession(sessionId: string): Promise<AssessmentSessionResult> {
+    try {
+      const result = await this.makeServerRequest('/npr/discard-assessment-session', {
+        userId: this.userId,
+        sessionId
+      });
+
+      return { success: true, offline: result.offline };
+    } catch (error) {
+      console.error('Discard assessment session error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to discard assessment session'
+      };
+    }
+  }
+
   /**
    * Generate AI-enhanced tasks with fallback support
    */
@@ -503,7 +873,7 @@ class NPRService {
       const signedTasks = await Promise.all(
         tasks.map(async (task) => ({
           ...task,
-          task_signature: await nprCryptoService.signData(task)
+          task_signature: await nprCryptoService.signData(nprCryptoService.taskSignaturePayload(task))
         }))
       );
 
@@ -647,7 +1017,8 @@ class NPRService {
     }
 
     const analyticalScore = personality.cognitive_style.analytical_vs_intuitive;
-    const verbalScore = cognitive.verbal_ability.vocabulary_score;
+    // Verbal ability is not assessed by the battery yet, so analytical style stands in for it
+    const verbalScore = cognitive.verbal_ability.vocabulary_score ?? analyticalScore;
     const opennessScore = personality.big_five?.openness || 50;
     
     // Direct preference for high analytical, high verbal, lower openness
@@ -663,11 +1034,11 @@ class NPRService {
   private inferLearningModalities(personality: PersonalityProfile, cognitive: CognitiveAssessment): string[] {
     const modalities: string[] = [];
     
-    if (cognitive?.spatial_ability?.spatial_visualization > 70) {
+    if ((cognitive?.spatial_ability?.spatial_visualization ?? 0) > 70) {
       modalities.push('visual');
     }
     
-    if (cognitive?.verbal_ability?.vocabulary_score > 70) {
+    if ((cognitive?.verbal_ability?.vocabulary_score ?? 0) > 70) {
       modalities.push('reading-writing');
     }
     
@@ -799,13 +1170,26 @@ class NPRService {
     }
   }
 
-  async getTasks(userId: string): Promise<NPRTaskResult> {
-    try {
-      const result = await this.makeServerRequest('/npr/get-tasks', { userId });
-      
+  /**
+   * The user's local calendar day; recurring tasks are scheduled against it
+   */
+  private localDate(date: Date = new Date()): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  async getTasks(userId: string): Promise<NPRTaskResult> {
+    try {
+      const result = await this.makeServerRequest('/npr/get-tasks', {
+        userId,
+        date: this.localDate()
+      });
+      
       return {
         success: true,
-        tasks: result.tasks || []
+        tasks: result.tasks || [],
+        series: result.series || []
       };
     } catch (error) {
       console.error('Get tasks error:', error);
@@ -838,6 +1222,308 @@ class NPRService {
     }
   }
 
+  /**
+   * Create a user task at the top of the task list
+   */
+  async createTask(
+    title: string,
+    options: Partial<Pick<NPRTask, 'description' | 'priority' | 'due_date' | 'tags'>> = {}
+  ): Promise<NPRResponseResult> {
+    try {
+      if (!this.userId) {
+        throw new Error('User ID not set');
+      }
+
+      const task: NPRTask = {
+        id: `task-${Date.now()}`,
+        title,
+        description: options.description || '',
+        is_completed: false,
+        is_ai_generated: false,
+        priority: options.priority || 'medium',
+        created_at: new Date(),
+        completed_at: null,
+        due_date: options.due_date || null,
+        tags: options.tags || [],
+        cognitive_demand: {
+          working_memory: 1,
+          attention: 1,
+          processing_speed: 1,
+          executive_function: 1
+        },
+        personality_alignment: {
+          matches_user_style: true,
+          adaptation_notes: '',
+          difficulty_adjustment: 0
+        },
+        completion_context: {},
+        task_signature: { algorithm: 'sha256', hash: '', salt: '', timestamp: new Date() }
+      };
+      task.task_signature = await nprCryptoService.signData(nprCryptoService.taskSignaturePayload(task));
+
+      const result = await this.makeServerRequest('/npr/save-task', {
+        userId: this.userId,
+        task
+      });
+
+      return {
+        success: true,
+        task: result.task || task,
+        offline: result.offline
+      };
+    } catch (error) {
+      console.error('Create task error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create task'
+      };
+    }
+  }
+
+  /**
+   * Mark a task complete or not complete; the server records completed_at and re-signs the task
+   */
+  async updateTaskCompletion(taskId: string, isCompleted: boolean): Promise<NPRResponseResult> {
+    if (!this.userId) {
+      return { success: false, error: 'User ID not set' };
+    }
+
+    return this.updateTask(this.userId, taskId, { is_completed: isCompleted });
+  }
+
+  /**
+   * Delete a single task
+   */
+  async deleteTask(taskId: string): Promise<NPRResponseResult> {
+    try {
+      if (!this.userId) {
+        throw new Error('User ID not set');
+      }
+
+      const result = await this.makeServerRequest('/npr/delete-task', {
+        userId: this.userId,
+        taskId
+      });
+
+      return {
+        success: true,
+        offline: result.offline
+      };
+    } catch (error) {
+      console.error('Delete task error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete task'
+      };
+    }
+  }
+
+  /**
+   * Reorder tasks. Only the listed tasks move, keeping the slots they already occupy.
+   */
+  async reorderTasks(taskIds: string[]): Promise<NPRTaskResult> {
+    try {
+      if (!this.userId) {
+        throw new Error('User ID not set');
+      }
+
+      const result = await this.makeServerRequest('/npr/reorder-tasks', {
+        userId: this.userId,
+        taskIds
+      });
+
+      return {
+        success: true,
+        tasks: result.tasks || [],
+        offline: result.offline
+      };
+    } catch (error) {
+      console.error('Reorder tasks error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to reorder tasks',
+        tasks: []
+      };
+    }
+  }
+
+  /**
+   * Apply the same updates to several tasks at once, e.g. completing all of them
+   */
+  async bulkUpdateTasks(taskIds: string[], updates: Partial<NPRTask>): Promise<NPRTaskResult> {
+    try {
+      if (!this.userId) {
+        throw new Error('User ID not set');
+      }
+
+      const result = await this.makeServerRequest('/npr/bulk-update-tasks', {
+        userId: this.userId,
+        taskIds,
+        updates
+      });
+
+      return {
+        success: true,
+        tasks: result.tasks || [],
+        offline: result.offline
+      };
+    } catch (error) {
+      console.error('Bulk update tasks error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update tasks',
+        tasks: []
+      };
+    }
+  }
+
+  /**
+   * Delete several tasks at once
+   */
+  async bulkDeleteTasks(taskIds: string[]): Promise<NPRResponseResult> {
+    try {
+      if (!this.userId) {
+        throw new Error('User ID not set');
+      }
+
+      const result = await this.makeServerRequest('/npr/bulk-delete-tasks', {
+        userId: this.userId,
+        taskIds
+      });
+
+      return {
+        success: true,
+        offline: result.offline
+      };
+    } catch (error) {
+      console.error('Bulk delete tasks error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete tasks'
+      };
+    }
+  }
+
+  /**
+   * Create a recurring task series. Today's instance, if the rule falls on today, is returned in tasks.
+   */
+  async createRecurringTask(
+    title: string,
+    recurrence: NPRRecurrenceRule | string,
+    options: Partial<Pick<NPRTask, 'description' | 'priority' | 'tags'>> = {}
+  ): Promise<NPRTaskResult> {
+    try {
+      if (!this.userId) {
+        throw new Error('User ID not set');
+      }
+
+      const result = await this.makeServerRequest('/npr/create-recurring-task', {
+        userId: this.userId,
+        task: {
+          title,
+          description: options.description || '',
+          priority: options.priority || 'medium',
+          tags: options.tags || [],
+          is_ai_generated: false
+        },
+        recurrence,
+        date: this.localDate()
+      });
+
+      return {
+        success: true,
+        tasks: result.tasks || [],
+        series: result.series ? [result.series] : [],
+        offline: result.offline
+      };
+    } catch (error) {
+      console.error('Create recurring task error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create recurring task',
+        tasks: []
+      };
+    }
+  }
+
+  /**
+   * Skip one occurrence of a recurring task without breaking its streak
+   */
+  async skipOccurrence(seriesId: string, occurrenceDate: string): Promise<NPRTaskResult> {
+    return this.updateOccurrence('/npr/skip-occurrence', { seriesId, occurrenceDate });
+  }
+
+  /**
+   * Move one occurrence of a recurring task to a later day (defaults to tomorrow)
+   */
+  async snoozeOccurrence(seriesId: string, occurrenceDate: string, until?: string): Promise<NPRTaskResult> {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+
+    return this.updateOccurrence('/npr/snooze-occurrence', {
+      seriesId,
+      occurrenceDate,
+      until: until || this.localDate(tomorrow)
+    });
+  }
+
+  private async updateOccurrence(endpoint: string, data: Record<string, any>): Promise<NPRTaskResult> {
+    try {
+      if (!this.userId) {
+        throw new Error('User ID not set');
+      }
+
+      const result = await this.makeServerRequest(endpoint, {
+        userId: this.userId,
+        ...data,
+        date: this.localDate()
+      });
+
+      return {
+        success: true,
+        tasks: result.tasks || [],
+        series: result.series ? [result.series] : [],
+        offline: result.offline
+      };
+    } catch (error) {
+      console.error('Update occurrence error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update occurrence',
+        tasks: []
+      };
+    }
+  }
+
+  /**
+   * Stop a recurring task. Completed instances are kept; pending ones are removed.
+   */
+  async deleteTaskSeries(seriesId: string): Promise<NPRTaskResult> {
+    try {
+      if (!this.userId) {
+        throw new Error('User ID not set');
+      }
+
+      const result = await this.makeServerRequest('/npr/delete-task-series', {
+        userId: this.userId,
+        seriesId
+      });
+
+      return {
+        success: true,
+        tasks: result.tasks || [],
+        offline: result.offline
+      };
+    } catch (error) {
+      console.error('Delete task series error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete task series',
+        tasks: []
+      };
+    }
+  }
+
   async generateFirstTask(): Promise<NPRTaskResult> {
     try {
       if (!this.userId) {
@@ -867,8 +1553,9 @@ class NPRService {
           difficulty_adjustment: 0
         },
         completion_context: {},
-        task_signature: await nprCryptoService.signData({})
+        task_signature: { algorithm: 'sha256', hash: '', salt: '', timestamp: new Date() }
       };
+      firstTask.task_signature = await nprCryptoService.signData(nprCryptoService.taskSignaturePayload(firstTask));
 
       const result = await this.makeServerRequest('/npr/save-task', {
         userId: this.userId,
@@ -909,7 +1596,7 @@ class NPRService {
     }
   }
 
-  async generateAIResponse(prompt: string): Promise<NPRResponseResult> {
+  async generateAIResponse(prompt: string, llm: { provider?: string; model?: string } = {}): Promise<NPRResponseResult> {
     try {
       if (!this.userId) {
         throw new Error('User ID not set');
@@ -917,16 +1604,23 @@ class NPRService {
 
       const result = await this.makeServerRequest('/npr/generate-ai-response', {
         userId: this.userId,
-        prompt
+        prompt,
+        provider: llm.provider,
+        model: llm.model
       });
 
       return {
         success: true,
         content: result.response || result.content || 'I apologize, but I couldn\'t generate a response at this time. Please try again.',
-        response: result.response
+        response: result.response,
+        fallback: result.fallback ?? null
       };
     } catch (error) {
       console.error('Generate AI response error:', error);
+
+      if (this.isRejectedRequest(error)) {
+        return { success: false, error: (error as Error).message };
+      }
       
       // Provide a helpful fallback response instead of throwing
       const fallbackResponse = this.generateFallbackResponse(prompt);
@@ -940,6 +1634,247 @@ class NPRService {
     }
   }
 
+  /**
+   * Stream an AI response token by token over server-sent events.
+   * Pass an AbortSignal to cancel; the partial content received so far is returned.
+   */
+  async streamAIResponse(
+    prompt: string,
+    options: {
+      fileIds?: string[];
+      provider?: string;
+      model?: string;
+      signal?: AbortSignal;
+      onToken: (token: string, content: string) => void;
+    }
+  ): Promise<NPRResponseResult> {
+    if (!this.userId) {
+      return { success: false, error: 'User ID not set' };
+    }
+
+    if (!this.accessToken || !this.isOnline()) {
+      // Streaming needs a live connection - fall back to the buffered path
+      const result = await this.generateAIResponse(prompt, { provider: options.provider, model: options.model });
+      if (result.content) options.onToken(result.content, result.content);
+      return result;
+    }
+
+    const endpoint = options.fileIds && options.fileIds.length > 0
+      ? '/npr/generate-ai-response-with-files-stream'
+      : '/npr/generate-ai-response-stream';
+
+    let content = '';
+
+    try {
+      const { done } = await this.readServerStream(endpoint, {
+        userId: this.userId,
+        prompt,
+        fileIds: options.fileIds,
+        provider: options.provider,
+        model: options.model
+      }, {
+        signal: options.signal,
+        onToken: (token, soFar) => {
+          content = soFar;
+          options.onToken(token, soFar);
+        }
+      });
+
+      content = done.content || content;
+
+      return {
+        success: true,
+        content,
+        response: content,
+        fallback: done.fallback ?? null
+      };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return {
+          success: true,
+          content,
+          response: content,
+          cancelled: true
+        };
+      }
+
+      console.error('Stream AI response error:', error);
+
+      if (this.isRejectedRequest(error)) {
+        return { success: false, error: (error as Error).message };
+      }
+
+      if (content) {
+        // Keep whatever was already rendered rather than replacing it, flagged as incomplete
+        return { success: true, content, response: content, partial: true };
+      }
+
+      const fallbackResponse = this.generateFallbackResponse(prompt);
+      options.onToken(fallbackResponse, fallbackResponse);
+
+      return {
+        success: true,
+        content: fallbackResponse,
+        response: fallbackResponse,
+        offline: true
+      };
+    }
+  }
+
+  /**
+   * Send a chat message and stream the reply token by token. The server saves the exchange to
+   * the conversation once the reply is complete.
+   */
+  async streamChat(
+    message: string,
+    options: {
+      chatId: string;
+      history?: Array<{ role: 'user' | 'assistant'; content: string }>;
+      provider?: string;
+      model?: string;
+      signal?: AbortSignal;
+      onToken: (token: string, content: string) => void;
+    }
+  ): Promise<NPRChatResult> {
+    if (!this.accessToken) {
+      return { success: false, error: 'No access token available' };
+    }
+
+    let content = '';
+
+    try {
+      const { done } = await this.readServerStream('/chat-stream', {
+        message,
+        chatId: options.chatId,
+        history: options.history,
+        provider: options.provider,
+        model: options.model
+      }, {
+        signal: options.signal,
+        onToken: (token, soFar) => {
+          content = soFar;
+          options.onToken(token, soFar);
+        }
+      });
+
+      content = done.content || content;
+
+      return {
+        success: true,
+        content,
+        response: content,
+        chatId: done.chatId,
+        npr_adapted: done.npr_adapted,
+        fallback: done.fallback ?? null
+      };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return { success: true, content, response: content, cancelled: true };
+      }
+
+      console.error('Stream chat error:', error);
+
+      if (content) {
+        return { success: true, content, response: content, partial: true };
+      }
+
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * POST to a streaming endpoint and read its server-sent events, calling onToken as content
+   * arrives. Resolves with the content and the payload of the `done` event; a stream that sends
+   * an `error` event or ends without `done` rejects, since the reply is incomplete.
+   */
+  private async readServerStream(
+    endpoint: string,
+    body: any,
+    options: { signal?: AbortSignal; onToken: (token: string, content: string) => void }
+  ): Promise<{ content: string; done: any }> {
+    const controller = new AbortController();
+    const abortFromCaller = () => controller.abort();
+    options.signal?.addEventListener('abort', abortFromCaller);
+
+    // Reset the 30 second timeout whenever data arrives, so long answers are not cut off
+    let timeoutId = setTimeout(() => controller.abort(), 30000);
+    const resetTimeout = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => controller.abort(), 30000);
+    };
+
+    let content = '';
+    let done: any = null;
+
+    try {
+      const response = await fetch(`${supabaseUrl}/functions/v1/make-server-feeffd69${endpoint}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          'Authorization': `Bearer ${this.accessToken}`
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+
+      if (!response.ok || !response.body) {
+        const errorText = await response.text();
+        throw this.createServerError(response.status, errorText);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { value, done: streamEnded } = await reader.read();
+        if (streamEnded) break;
+
+        resetTimeout();
+        buffer += decoder.decode(value, { stream: true });
+
+        // SSE events are separated by a blank line
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop() || '';
+
+        for (const rawEvent of events) {
+          let eventName = 'message';
+          let data = '';
+
+          for (const line of rawEvent.split(/\r?\n/)) {
+            if (line.startsWith('event:')) {
+              eventName = line.slice(6).trim();
+            } else if (line.startsWith('data:')) {
+              data += line.slice(5).trim();
+            }
+          }
+
+          if (!data) continue;
+          const payload = JSON.parse(data);
+
+          if (eventName === 'token') {
+            content += payload.content;
+            options.onToken(payload.content, content);
+          } else if (eventName === 'done') {
+            done = payload;
+          } else if (eventName === 'error') {
+            throw new Error(payload.error || 'Failed to generate response');
+          }
+        }
+      }
+
+      if (!done) {
+        throw new Error('The response stream ended before the reply was complete');
+      }
+
+      return { content, done };
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+
   private generateFallbackResponse(prompt: string): string {
     // Simple pattern-based responses as fallback
     const promptLower = prompt.toLowerCase();
@@ -1021,7 +1956,7 @@ class NPRService {
   async generatePersonalizedInsight(userId: string, nprProfile: NPRUserProfile): Promise<NPRResponseResult> {
     try {
       // Ensure proper structure
-      const structuredProfile = this.ensureProfileStructure(nprProfile);
+      const structuredProfile = withProfileDefaults(nprProfile);
       
       const goal = structuredProfile.entries.goal?.content;
       const challenge = structuredProfile.entries.challenge?.content;
@@ -1,4 +1,5 @@
 import { User } from '@supabase/supabase-js';
+import { ConsentType } from './apiTypes';
 
 // Base Supabase User type extension
 export interface AuthUser extends User {
@@ -15,7 +16,7 @@ export interface MerkleNode {
   data?: any;
   left?: MerkleNode;
   right?: MerkleNode;
-  timestamp: Date;
+  timestamp?: Date; // Leaves carry their entry's timestamp; internal nodes have none
 }
 
 export interface MerkleTree {
@@ -25,6 +26,7 @@ export interface MerkleTree {
 }
 
 export interface MerkleProof {
+  entry_id?: string;
   leaf: string;
   path: Array<{
     hash: string;
@@ -42,40 +44,44 @@ export interface CryptographicSignature {
 
 // Enhanced Psychometric Assessment Types
 export interface CognitiveAssessment {
+  // Scores are null where the battery has no task measuring them, and percentiles are null where
+  // the norm tables have no row for the measure
   working_memory: {
     score: number; // 0-100
-    percentile: number;
+    percentile: number | null;
     tasks_completed: string[];
     timestamp: Date;
   };
   processing_speed: {
     score: number;
-    percentile: number;
-    reaction_times: number[];
+    percentile: number | null;
+    reaction_times: number[]; // ms, correct responses left after anticipatory and outlier removal
+    correct_per_minute?: number;
+    trials?: ProcessingSpeedTrial[];
     timestamp: Date;
   };
   attention: {
-    sustained_attention: number;
-    selective_attention: number;
-    divided_attention: number;
+    sustained_attention: number | null;
+    selective_attention: number | null;
+    divided_attention: number | null;
     timestamp: Date;
   };
   executive_function: {
-    cognitive_flexibility: number;
+    cognitive_flexibility: number | null;
     inhibitory_control: number;
     planning_ability: number;
     timestamp: Date;
   };
   verbal_ability: {
-    vocabulary_score: number;
-    comprehension_score: number;
-    fluency_score: number;
+    vocabulary_score: number | null;
+    comprehension_score: number | null;
+    fluency_score: number | null;
     timestamp: Date;
   };
   spatial_ability: {
     mental_rotation: number;
-    spatial_visualization: number;
-    spatial_memory: number;
+    spatial_visualization: number | null;
+    spatial_memory: number | null;
     timestamp: Date;
   };
 }
@@ -87,6 +93,7 @@ export interface PersonalityProfile {
     extraversion: number;
     agreeableness: number;
     neuroticism: number;
+    facets?: Record<string, number>; // 0-100 per facet, e.g. imagination, orderliness
     timestamp: Date;
   };
   cognitive_style: {
@@ -109,6 +116,7 @@ export interface PersonalityProfile {
     detail_orientation: number;
     timestamp: Date;
   };
+  incomplete_scales?: string[]; // Too few items answered to score; reported as 50
 }
 
 export interface EmotionalIntelligence {
@@ -138,14 +146,59 @@ export interface EmotionalIntelligence {
     team_leadership: number;
     timestamp: Date;
   };
+  incomplete_scales?: string[];
+}
+
+export interface ProcessingSpeedTrial {
+  symbol: string;
+  expected_digit: number;
+  response: number;
+  correct: boolean;
+  reaction_time: number;
+}
+
+export interface TowerOfLondonTrial {
+  problem_id: string;
+  minimum_moves: number;
+  moves: number;
+  solved: boolean;
+  planning_time: number;
+  execution_time: number;
+}
+
+export interface DigitSpanTrial {
+  mode: 'forward' | 'backward' | 'sequencing';
+  length: number;
+  sequence: number[];
+  response: number[];
+  correct: boolean;
+  response_time: number;
+}
+
+export interface MentalRotationTrial {
+  angle: number; // degrees
+  mirrored: boolean;
+  answered_same: boolean;
+  correct: boolean;
+  response_time: number;
+}
+
+export interface CognitiveReflectionTrial {
+  item_id: string;
+  response: string;
+  classification: 'correct' | 'intuitive' | 'other';
+  response_time: number;
 }
 
 export interface StandardizedAssessments {
   cognitive_reflection_test: {
     score: number; // 0-7
     response_times: number[];
-    intuitive_answers: number;
-    reflective_answers: number;
+    intuitive_answers: number; // Answers matching the item's lure
+    reflective_answers: number; // Correct answers
+    other_answers?: number;
+    item_set?: string; // Which parallel item set was given
+    trials?: CognitiveReflectionTrial[];
     timestamp: Date;
   };
   stroop_test: {
@@ -156,23 +209,71 @@ export interface StandardizedAssessments {
     timestamp: Date;
   };
   tower_of_london: {
-    planning_accuracy: number;
-    execution_time: number[];
-    moves_efficiency: number;
+    planning_accuracy: number; // Share of problems solved in the minimum number of moves
+    execution_time: number[]; // ms per problem, from onset to solution or give-up
+    moves_efficiency: number; // Mean of minimum / actual moves; unsolved problems count 0
+    planning_time?: number[]; // ms per problem, from onset to the first move
+    trials?: TowerOfLondonTrial[];
     timestamp: Date;
   };
   digit_span: {
-    forward_span: number;
+    forward_span: number; // Longest length recalled correctly, 0 if none
     backward_span: number;
     sequencing_span: number;
+    presentation?: 'visual' | 'audio';
+    trials?: DigitSpanTrial[];
     timestamp: Date;
   };
   mental_rotation: {
     accuracy: number;
     response_time: number[];
-    angular_disparity_effect: number;
+    angular_disparity_effect: number; // ms per degree: slope of correct 'same' RTs against angle
+    intercept?: number; // ms at 0 degrees from the same fit
+    trials?: MentalRotationTrial[];
     timestamp: Date;
   };
+  norms?: NormReport; // Percentiles for the measures above and the cognitive composites
+}
+
+// Norm Types
+export interface NormAgeBand {
+  id: string;
+  min_age: number;
+  max_age: number; // inclusive
+}
+
+export interface NormTable {
+  reliability: number; // Test-retest or internal consistency, used for the standard error of measurement
+  lower_is_better?: boolean; // e.g. interference effects and RT slopes
+  bands: { [ageBand: string]: { mean: number; sd: number; n: number } }; // always includes 'all'
+}
+
+export interface NormDataset {
+  id: string;
+  version: string; // dotted numeric, e.g. '2025.1'; the newest loaded version is used
+  published: string;
+  source: string;
+  age_bands: NormAgeBand[];
+  measures: { [measure: string]: NormTable }; // keyed by result path, e.g. 'digit_span.forward_span'
+}
+
+export interface NormScore {
+  raw: number;
+  z: number; // Signed so that positive is always better
+  percentile: number;
+  confidence_interval: { level: number; lower: number; upper: number }; // in percentiles
+  norm_mean: number;
+  norm_sd: number;
+  norm_n: number;
+  reliability: number; // Test-retest reliability of the measure, used for reliable-change indices
+  age_band: string; // The band actually used, which is 'all' when the requested one has no row
+}
+
+export interface NormReport {
+  dataset_id: string;
+  version: string;
+  age_band: string;
+  scores: { [measure: string]: NormScore };
 }
 
 // Enhanced NPR Entry Types
@@ -195,22 +296,29 @@ export interface NPREntry {
   merkle_proof?: MerkleProof;
 }
 
-// Comprehensive NPR Profile
+// Comprehensive NPR Profile, the one canonical profile schema. Older shapes (the 1-10
+// self-report DetailedNPRProfile) are migrated to it by the server when a profile is read.
+export const NPR_PROFILE_SCHEMA_VERSION = 1;
+
 export interface NPRProfile {
   id: string;
   user_id: string;
   comm_preference: 'direct' | 'analogical';
-  cognitive_assessment: CognitiveAssessment;
-  personality_profile: PersonalityProfile;
-  emotional_intelligence: EmotionalIntelligence;
-  standardized_assessments: StandardizedAssessments;
+  // Battery results; a part is absent until it has been taken
+  cognitive_assessment?: CognitiveAssessment;
+  personality_profile?: PersonalityProfile;
+  emotional_intelligence?: EmotionalIntelligence;
+  standardized_assessments?: StandardizedAssessments;
+  // Self-ratings from the NPR questionnaire, 0-100. Kept apart from measured scores.
+  self_report?: NPRSelfReport;
+  consent?: NPRConsent;
   learning_history: {
     preferred_modalities: string[];
     adaptation_patterns: string[];
     performance_trends: { [key: string]: number[] };
     timestamp: Date;
   };
-  behavioral_patterns: {
+  behavioral_patterns?: {
     interaction_style: 'explorative' | 'goal_directed' | 'social' | 'analytical';
     engagement_level: number; // 0-100
     persistence_level: number;
@@ -233,7 +341,76 @@ export interface NPREntries {
   allEntries: NPREntry[];
 }
 
+// Longitudinal re-assessment: parts of the battery that are scheduled separately
+export type ReassessmentDomain = keyof NPRUserProfile['psychometric_battery']['completion_status'];
+
+export interface ReassessmentScheduleEntry {
+  interval_days: number;
+  next_due: Date;
+  reason: 'routine' | 'reliable_change'; // A domain that just changed is re-checked sooner
+}
+
+// One completed battery, as kept for comparison with later ones
+export interface AssessmentSnapshot {
+  id: string;
+  taken_at: Date;
+  norm_version: string | null;
+  age_band: string | null;
+  domains: ReassessmentDomain[];
+  scores: { [measure: string]: { raw: number; z: number; percentile: number; reliability: number } };
+}
+
+// Reliable change index (Jacobson & Truax) for one measure between two snapshots
+export interface ReliableChange {
+  measure: string;
+  domain: ReassessmentDomain;
+  from_snapshot: string;
+  to_snapshot: string;
+  from_percentile: number;
+  to_percentile: number;
+  rci: number; // Positive is an improvement, whatever the measure's direction
+  reliable: boolean;
+}
+
+export interface NPRSelfReport {
+  cognitive_traits: {
+    working_memory_capacity: number;
+    attention_control: number;
+    processing_speed: number;
+    cognitive_flexibility: number;
+    executive_function: number;
+  };
+  affective: {
+    stress_management: number;
+    emotional_regulation: number;
+    need_for_cognition: number;
+    motivational_style: string; // Intrinsic, Extrinsic, Mixed
+  };
+  preferences: {
+    communication_style: string;
+    feedback_preference: string;
+    working_environment: string;
+    learning_pace: string;
+  };
+  neurodiversity: {
+    conditions: string[];
+    support_needs: string[];
+    strengths: string[];
+    challenges: string[];
+  };
+  timestamp: Date;
+}
+
+export interface NPRConsent {
+  data_collection: boolean;
+  adaptive_ai: boolean;
+  cognitive_insights: boolean;
+  research_participation: boolean;
+  timestamp: Date;
+}
+
 export interface NPRUserProfile {
+  schema_version: number; // NPR_PROFILE_SCHEMA_VERSION once migrated
   entries: NPREntries;
   profile: NPRProfile | null;
   psychometric_battery: {
@@ -244,7 +421,8 @@ export interface NPRUserProfile {
       standardized_assessments: boolean;
     };
     last_assessment_date: Date | null;
-    next_scheduled_assessment: Date | null;
+    next_scheduled_assessment: Date | null; // The earliest next_due in reassessment_schedule
+    reassessment_schedule?: { [domain in ReassessmentDomain]?: ReassessmentScheduleEntry };
   };
   // Cryptographic verification
   verification: {
@@ -255,6 +433,18 @@ export interface NPRUserProfile {
   };
 }
 
+// Server-attested integrity report from the append-only entry ledger
+export interface NPRIntegrityReport {
+  valid: boolean;
+  chain_valid: boolean;
+  merkle_root: string | null;
+  entry_count: number;
+  tampered_entry_ids: string[];
+  unledgered_entry_ids: string[];
+  proofs: MerkleProof[];
+  verified_at: string;
+}
+
 // Task Types (Enhanced)
 export interface NPRTask {
   id: string;
@@ -264,8 +454,13 @@ export interface NPRTask {
   is_ai_generated: boolean;
   priority: 'low' | 'medium' | 'high';
   created_at: Date;
+  completed_at?: Date | null;
   due_date: Date | null;
   tags: string[];
+  position?: number; // Index in the user's ordered task list, maintained by the server
+  // Set on instances of a recurring series
+  series_id?: string;
+  occurrence_date?: string; // YYYY-MM-DD
   // NPR-enhanced task fields
   cognitive_demand: {
     working_memory: number; // 0-5
@@ -288,6 +483,29 @@ export interface NPRTask {
   task_signature: CryptographicSignature;
 }
 
+// Recurring task rules. Dates are local calendar days (YYYY-MM-DD).
+export interface NPRRecurrenceRule {
+  frequency: 'daily' | 'weekdays' | 'interval' | 'monthly';
+  interval?: number; // every N days for 'interval', every N months for 'monthly'
+  start_date?: string;
+  until?: string | null;
+  by_month_day?: number; // monthly: 1-31, or -1 for the last day
+  by_day?: { weekday: number; position: number }; // monthly: weekday 0-6 (Sunday first), position 1-4 or -1 for last
+}
+
+export interface NPRTaskSeries {
+  id: string;
+  template: Partial<NPRTask>;
+  recurrence: Required<Pick<NPRRecurrenceRule, 'frequency' | 'interval' | 'start_date'>> & NPRRecurrenceRule;
+  created_at: string;
+  completed_dates: string[];
+  exceptions: Record<string, { status: 'skipped' } | { status: 'snoozed'; until: string }>;
+  streak: {
+    current: number;
+    longest: number;
+  };
+}
+
 // Response Types for Service Layer
 export interface NPRResponseResult {
   success: boolean;
@@ -296,6 +514,17 @@ export interface NPRResponseResult {
   task?: NPRTask;
   content?: string;
   response?: string;
+  offline?: boolean;
+  cancelled?: boolean;
+  // The stream broke off before the server finished the reply, so content is incomplete
+  partial?: boolean;
+  // Set when the server answered with its built-in fallback instead of the requested AI provider
+  fallback?: 'no_provider_configured' | 'provider_error' | null;
+}
+
+export interface NPRChatResult extends NPRResponseResult {
+  chatId?: string;
+  npr_adapted?: boolean;
 }
 
 export interface NPRTaskResult {
@@ -303,6 +532,8 @@ export interface NPRTaskResult {
   error?: string;
   task?: NPRTask;
   tasks: NPRTask[];
+  series?: NPRTaskSeries[];
+  offline?: boolean;
 }
 
 export interface NPRProfileResult {
@@ -311,6 +542,13 @@ export interface NPRProfileResult {
   profile?: NPRUserProfile;
 }
 
+export interface NPRIntegrityResult {
+  success: boolean;
+  error?: string;
+  report?: NPRIntegrityReport;
+  proofs_verified?: boolean;
+}
+
 // Assessment Session Types
 export interface AssessmentSession {
   id: string;
@@ -337,20 +575,104 @@ export interface AssessmentSession {
       timezone: string;
     };
   };
-  // Cryptographic integrity
+  // Resume state, written after every trial; the server drops the session once expires_at passes
+  checkpoint?: AssessmentCheckpoint;
+  checkpoint_seq?: number;
+  checkpointed_at?: Date;
+  expires_at?: Date;
+  // Cryptographic integrity; signed by the server over the final results on completion
   session_signature: CryptographicSignature;
 }
 
+// Everything needed to put PsychometricAssessment back where it was
+export interface AssessmentCheckpoint {
+  phase: 'intro' | 'cognitive' | 'personality' | 'emotional' | 'standardized' | 'complete';
+  task: string | null;
+  age_band: string;
+  digit_span: { trials: DigitSpanTrial[]; presentation: 'visual' | 'audio' | null };
+  stroop_responses: Array<{ response: any; reactionTime: number; timestamp: Date }>;
+  tower_of_london_trials: TowerOfLondonTrial[];
+  mental_rotation_trials: MentalRotationTrial[];
+  cognitive_reflection: { trials: CognitiveReflectionTrial[]; item_set: string | null };
+  processing_speed_trials: ProcessingSpeedTrial[];
+  questionnaire_responses: { [itemId: string]: number };
+  questionnaire_index: number; // Next item in the current questionnaire
+}
+
+// Current consent, versioned by the server on every change; version 0 is no recorded choice
+export interface NPRConsentRecord {
+  version: number;
+  grants: { [type in ConsentType]: boolean };
+  updated_at: string | null;
+  source: string | null; // Where the change was made, e.g. 'onboarding', 'settings'
+}
+
+export interface NPRConsentHistoryEntry extends NPRConsentRecord {
+  changes: Array<{ type: ConsentType; from: boolean; to: boolean }>;
+}
+
+export interface NPRConsentResult {
+  success: boolean;
+  error?: string;
+  consent?: NPRConsentRecord;
+  history?: NPRConsentHistoryEntry[];
+  offline?: boolean;
+}
+
+// A scheduled account deletion; it can be cancelled until scheduled_for
+export interface NPRDeletion {
+  status: 'pending' | 'cancelled';
+  requested_at: string;
+  scheduled_for: string;
+  cancelled_at?: string;
+  attempts: number;
+  last_error: string | null;
+}
+
+export interface NPRDeletionResult {
+  success: boolean;
+  error?: string;
+  deletion?: NPRDeletion | null;
+}
+
+export interface NPRExportResult {
+  success: boolean;
+  error?: string;
+  archive?: Blob;
+  filename?: string;
+}
+
+// Saving a battery also compares it with the previous one and schedules the next assessments
+export interface PsychometricAssessmentResult extends NPRResponseResult {
+  changes?: ReliableChange[];
+  insights?: NPRInsight[]; // Empty without consent to cognitive insights
+  next_scheduled_assessment?: Date | null;
+  reassessment_schedule?: NPRUserProfile['psychometric_battery']['reassessment_schedule'];
+}
+
+export interface NPRInsightResult {
+  success: boolean;
+  error?: string;
+  insights?: NPRInsight[];
+}
+
+export interface AssessmentSessionResult {
+  success: boolean;
+  error?: string;
+  session?: AssessmentSession | null;
+  offline?: boolean;
+}
+
 // Cryptographic Utility Types
 export interface NPRCryptoService {
   generateHash(data: any, algorithm?: 'sha256' | 'sha512'): Promise<string>;
   generateSalt(): string;
   signData(data: any): Promise<CryptographicSignature>;
   verifySignature(data: any, signature: CryptographicSignature): Promise<boolean>;
-  createMerkleTree(entries: NPREntry[]): MerkleTree;
+  createMerkleTree(entries: NPREntry[]): Promise<MerkleTree>;
   generateMerkleProof(tree: MerkleTree, entry: NPREntry): MerkleProof;
-  verifyMerkleProof(proof: MerkleProof): boolean;
-  updateMerkleTree(tree: MerkleTree, newEntry: NPREntry): MerkleTree;
+  verifyMerkleProof(proof: MerkleProof): Promise<boolean>;
+  updateMerkleTree(tree: MerkleTree, newEntry: NPREntry): Promise<MerkleTree>;
 }
 
 // Real-time NPR Adaptation Types
@@ -397,21 +719,6 @@ export interface NPRInsight {
 // Export for backward compatibility
 export type User = AuthUser;
 
-// Validation schemas (for runtime type checking)
-export const NPRValidationSchemas = {
-  cognitiveAssessment: {
-    required: ['working_memory', 'processing_speed', 'attention', 'executive_function'],
-    ranges: {
-      working_memory: { min: 0, max: 100 },
-      processing_speed: { min: 0, max: 100 },
-      attention: { min: 0, max: 100 }
-    }
-  },
-  personalityProfile: {
-    required: ['big_five', 'cognitive_style', 'learning_preferences'],
-    ranges: {
-      big_five: { min: 0, max: 100 },
-      cognitive_style: { min: 0, max: 100 }
-    }
-  }
-};
\ No newline at end of file
+// Validation schemas (for runtime type checking). They live with the checks in
+// supabase/functions/server/npr_profile_validation, which the server imports too.
+export { NPRValidationSchemas } from '../supabase/functions/server/npr_profile_validation';
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classifyAnswer,
+  CRT_ITEM_SETS,
+  nextItemSet,
+  parseNumericAnswer,
+  scoreCognitiveReflection
+} from './cognitiveReflection';
+
+const [batAndBall, machines] = CRT_ITEM_SETS[0].items;
+
+describe('parseNumericAnswer', () => {
+  it('reads the first number out of free text', () => {
+    expect(parseNumericAnswer('$0.05')).toBe(0.05);
+    expect(parseNumericAnswer('5 cents')).toBe(5);
+    expect(parseNumericAnswer('1,000 minutes')).toBe(1000);
+    expect(parseNumericAnswer('.5')).toBe(0.5);
+    expect(parseNumericAnswer('no idea')).toBeNull();
+  });
+});
+
+describe('classifyAnswer', () => {
+  it('accepts the correct answer in any of its units', () => {
+    expect(classifyAnswer(batAndBall, '5c')).toBe('correct');
+    expect(classifyAnswer(batAndBall, '$0.05')).toBe('correct');
+  });
+
+  it('separates the intuitive lure from other wrong answers', () => {
+    expect(classifyAnswer(batAndBall, '10 cents')).toBe('intuitive');
+    expect(classifyAnswer(machines, '50')).toBe('other');
+    expect(classifyAnswer(machines, 'not sure')).toBe('other');
+  });
+});
+
+describe('nextItemSet', () => {
+  it('rotates through the sets, starting from the first', () => {
+    expect(nextItemSet().id).toBe('crt-a');
+    expect(nextItemSet('crt-a').id).toBe('crt-b');
+    expect(nextItemSet('crt-c').id).toBe('crt-a');
+  });
+});
+
+describe('scoreCognitiveReflection', () => {
+  it('counts each classification and counts correct answers as reflective', () => {
+    const trials = (['correct', 'intuitive', 'intuitive', 'other'] as const).map((classification, index) => ({
+      item_id: `crt-b-${index + 1}`,
+      response: '',
+      classification,
+      response_time: 1000 * (index + 1)
+    }));
+
+    const result = scoreCognitiveReflection(trials, 'crt-b');
+    expect(result).toMatchObject({
+      score: 1,
+      reflective_answers: 1,
+      intuitive_answers: 2,
+      other_answers: 1,
+      item_set: 'crt-b',
+      response_times: [1000, 2000, 3000, 4000]
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { CognitiveReflectionTrial, StandardizedAssessments } from '../nprTypes';
+
+/**
+ * Cognitive Reflection Test (Frederick, 2005; Toplak et al., 2014). Each item has an answer
+ * that springs to mind but is wrong; getting it right means noticing and overriding that
+ * answer. Responses are free-text numbers, classified as correct, the intuitive lure, or
+ * some other answer.
+ *
+ * There are three parallel sets of seven items, used in turn, so someone re-assessed later
+ * is not answering questions they already worked through.
+ */
+
+export interface CRTItem {
+  id: string;
+  question: string;
+  unit?: string;
+  // Several values where the same answer can be given in different units, e.g. cents or dollars
+  correct_answers: number[];
+  intuitive_answers: number[];
+}
+
+export interface CRTItemSet {
+  id: string;
+  items: CRTItem[];
+}
+
+export type CRTClassification = CognitiveReflectionTrial['classification'];
+
+export const CRT_ITEM_SETS: CRTItemSet[] = [
+  {
+    id: 'crt-a',
+    items: [
+      {
+        id: 'crt-a-1',
+        question: 'A bat and a ball cost $1.10 in total. The bat costs $1.00 more than the ball. How much does the ball cost?',
+        unit: 'cents',
+        correct_answers: [5, 0.05],
+        intuitive_answers: [10, 0.1]
+      },
+      {
+        id: 'crt-a-2',
+        question: 'If it takes 5 machines 5 minutes to make 5 widgets, how long would it take 100 machines to make 100 widgets?',
+        unit: 'minutes',
+        correct_answers: [5],
+        intuitive_answers: [100]
+      },
+      {
+        id: 'crt-a-3',
+        question: 'In a lake there is a patch of lily pads. Every day the patch doubles in size. If it takes 48 days to cover the whole lake, how long would it take to cover half of the lake?',
+        unit: 'days',
+        correct_answers: [47],
+        intuitive_answers: [24]
+      },
+      {
+        id: 'crt-a-4',
+        question: 'If John can drink one barrel of water in 6 days, and Mary can drink one barrel in 12 days, how long would it take them to drink one barrel together?',
+        unit: 'days',
+        correct_answers: [4],
+        intuitive_answers: [9]
+      },
+      {
+        id: 'crt-a-5',
+        question: 'Jerry received both the 15th highest and the 15th lowest mark in the class. How many students are in the class?',
+        unit: 'students',
+        correct_answers: [29],
+        intuitive_answers: [30]
+      },
+      {
+        id: 'crt-a-6',
+        question: 'A man buys a pig for $60, sells it for $70, buys it back for $80 and sells it finally for $90. How much has he made?',
+        unit: 'dollars',
+        correct_answers: [20],
+        intuitive_answers: [10]
+      },
+      {
+        id: 'crt-a-7',
+        question: 'In a race, you overtake the person in second place. What place are you in now?',
+        unit: 'place',
+        correct_answers: [2],
+        intuitive_answers: [1]
+      }
+    ]
+  },
+  {
+    id: 'crt-b',
+    items: [
+      {
+        id: 'crt-b-1',
+        question: 'A notebook and a pen cost $2.20 in total. The notebook costs $2.00 more than the pen. How much does the pen cost?',
+        unit: 'cents',
+        correct_answers: [10, 0.1],
+        intuitive_answers: [20, 0.2]
+      },
+      {
+        id: 'crt-b-2',
+        question: 'If it takes 3 printers 3 minutes to print 3 pages, how long would it take 60 printers to print 60 pages?',
+        unit: 'minutes',
+        correct_answers: [3],
+        intuitive_answers: [60]
+      },
+      {
+        id: 'crt-b-3',
+        question: 'A colony of bacteria doubles in size every hour. If it takes 20 hours to fill a dish, how long would it take to fill half of the dish?',
+        unit: 'hours',
+        correct_answers: [19],
+        intuitive_answers: [10]
+      },
+      {
+        id: 'crt-b-4',
+        question: 'One painter can paint a fence in 4 hours, and another can paint the same fence in 12 hours. How long would it take them to paint it together?',
+        unit: 'hours',
+        correct_answers: [3],
+        intuitive_answers: [8]
+      },
+      {
+        id: 'crt-b-5',
+        question: 'In a queue, Ana is 8th from the front and 8th from the back. How many people are in the queue?',
+        unit: 'people',
+        correct_answers: [15],
+        intuitive_answers: [16]
+      },
+      {
+        id: 'crt-b-6',
+        question: 'A farmer had 15 sheep and all but 8 died. How many sheep are left?',
+        unit: 'sheep',
+        correct_answers: [8],
+        intuitive_answers: [7]
+      },
+      {
+        id: 'crt-b-7',
+        question: 'How many cubic metres of soil are there in a hole that is 3 m deep, 3 m wide and 3 m long?',
+        unit: 'cubic metres',
+        correct_answers: [0],
+        intuitive_answers: [27]
+      }
+    ]
+  },
+  {
+    id: 'crt-c',
+    items: [
+      {
+        id: 'crt-c-1',
+        question: 'A shirt and a tie cost $1.40 in total. The shirt costs $1.00 more than the tie. How much does the tie cost?',
+        unit: 'cents',
+        correct_answers: [20, 0.2],
+        intuitive_answers: [40, 0.4]
+      },
+      {
+        id: 'crt-c-2',
+        question: 'If it takes 8 chefs 8 minutes to make 8 pizzas, how long would it take 40 chefs to make 40 pizzas?',
+        unit: 'minutes',
+        correct_answers: [8],
+        intuitive_answers: [40]
+      },
+      {
+        id: 'crt-c-3',
+        question: 'Mould on a wall doubles in area every day. If it takes 30 days to cover the whole wall, how long would it take to cover half of it?',
+        unit: 'days',
+        correct_answers: [29],
+        intuitive_answers: [15]
+      },
+      {
+        id: 'crt-c-4',
+        question: 'One tap fills a bath in 10 minutes and a second tap fills it in 15 minutes. How long do both taps together take to fill it?',
+        unit: 'minutes',
+        correct_answers: [6],
+        intuitive_answers: [12.5, 25]
+      },
+      {
+        id: 'crt-c-5',
+        question: 'A cyclist rides up a hill at 10 km/h and straight back down the same road at 30 km/h. What is their average speed for the whole trip?',
+        unit: 'km/h',
+        correct_answers: [15],
+        intuitive_answers: [20]
+      },
+      {
+        id: 'crt-c-6',
+        question: 'A share bought for $100 rises by 50% and then falls by 50%. What is it worth now?',
+        unit: 'dollars',
+        correct_answers: [75],
+        intuitive_answers: [100]
+      },
+      {
+        id: 'crt-c-7',
+        question: 'How many months of the year have 28 days?',
+        unit: 'months',
+        correct_answers: [12],
+        intuitive_answers: [1]
+      }
+    ]
+  }
+];
+
+/**
+ * The set after the one used last time, wrapping around; the first set if there is no history
+ */
+export function nextItemSet(lastSetId?: string | null): CRTItemSet {
+  const lastIndex = CRT_ITEM_SETS.findIndex(set => set.id === lastSetId);
+  return CRT_ITEM_SETS[(lastIndex + 1) % CRT_ITEM_SETS.length];
+}
+
+/**
+ * Read a number out of free text such as "$0.05", "5 cents" or "1,000"; null if there is none
+ */
+export function parseNumericAnswer(response: string): number | null {
+  const match = response.replace(/,/g, '').match(/-?\d*\.?\d+/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+function matchesAny(value: number, answers: number[]): boolean {
+  return answers.some(answer => Math.abs(value - answer) < 1e-6);
+}
+
+export function classifyAnswer(item: CRTItem, response: string): CRTClassification {
+  const value = parseNumericAnswer(response);
+  if (value === null) {
+    return 'other';
+  }
+  if (matchesAny(value, item.correct_answers)) {
+    return 'correct';
+  }
+  if (matchesAny(value, item.intuitive_answers)) {
+    return 'intuitive';
+  }
+  return 'other';
+}
+
+export function scoreCognitiveReflection(
+  trials: CognitiveReflectionTrial[],
+  itemSetId: string
+): StandardizedAssessments['cognitive_reflection_test'] {
+  const count = (classification: CRTClassification) =>
+    trials.filter(trial => trial.classification === classification).length;
+
+  return {
+    score: count('correct'),
+    response_times: trials.map(trial => trial.response_time),
+    intuitive_answers: count('intuitive'),
+    // A correct answer is the reflective one: the lure was there and was overridden
+    reflective_answers: count('correct'),
+    other_answers: count('other'),
+    item_set: itemSetId,
+    trials,
+    timestamp: new Date()
+  };
+}
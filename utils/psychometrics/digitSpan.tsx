@@ -0,0 +1,96 @@
+import { DigitSpanTrial, StandardizedAssessments } from '../nprTypes';
+
+/**
+ * Digit span in three modes: repeat the digits as heard (forward), in reverse (backward) or
+ * in ascending order (sequencing). Each mode is an adaptive staircase: a correct trial moves
+ * up one digit, an error repeats the length once, and two errors at the same length end the
+ * mode. The span is the longest length recalled correctly.
+ */
+
+export type DigitSpanMode = DigitSpanTrial['mode'];
+
+export const DIGIT_SPAN_MODES: DigitSpanMode[] = ['forward', 'backward', 'sequencing'];
+
+export const DIGIT_SPAN_START_LENGTH = 2;
+
+// Well above any adult span; only stops a perfect run from going on forever
+export const DIGIT_SPAN_MAX_LENGTH = 16;
+
+// One digit per second, as in standard administration
+export const DIGIT_PRESENTATION_MS = 1000;
+
+/**
+ * Random digits 1-9 without immediate repeats, which are easy to chunk
+ */
+export function generateDigitSequence(length: number): number[] {
+  const sequence: number[] = [];
+  while (sequence.length < length) {
+    const digit = 1 + Math.floor(Math.random() * 9);
+    if (digit !== sequence[sequence.length - 1]) {
+      sequence.push(digit);
+    }
+  }
+  return sequence;
+}
+
+export function expectedResponse(mode: DigitSpanMode, sequence: number[]): number[] {
+  switch (mode) {
+    case 'backward':
+      return [...sequence].reverse();
+    case 'sequencing':
+      return [...sequence].sort((a, b) => a - b);
+    default:
+      return sequence;
+  }
+}
+
+export function isCorrectResponse(mode: DigitSpanMode, sequence: number[], response: number[]): boolean {
+  const expected = expectedResponse(mode, sequence);
+  return response.length === expected.length && response.every((digit, index) => digit === expected[index]);
+}
+
+/**
+ * Length of the next trial in a mode, or null once the stopping rule has been met
+ */
+export function nextTrialLength(modeTrials: DigitSpanTrial[]): number | null {
+  const lastTrial = modeTrials[modeTrials.length - 1];
+  if (!lastTrial) {
+    return DIGIT_SPAN_START_LENGTH;
+  }
+
+  if (lastTrial.correct) {
+    return lastTrial.length < DIGIT_SPAN_MAX_LENGTH ? lastTrial.length + 1 : null;
+  }
+
+  const errorsAtLength = modeTrials.filter(trial => trial.length === lastTrial.length && !trial.correct).length;
+  return errorsAtLength >= 2 ? null : lastTrial.length;
+}
+
+export function spanFor(trials: DigitSpanTrial[], mode: DigitSpanMode): number {
+  return trials
+    .filter(trial => trial.mode === mode && trial.correct)
+    .reduce((span, trial) => Math.max(span, trial.length), 0);
+}
+
+export function scoreDigitSpan(
+  trials: DigitSpanTrial[],
+  presentation: 'visual' | 'audio'
+): StandardizedAssessments['digit_span'] {
+  return {
+    forward_span: spanFor(trials, 'forward'),
+    backward_span: spanFor(trials, 'backward'),
+    sequencing_span: spanFor(trials, 'sequencing'),
+    presentation,
+    trials,
+    timestamp: new Date()
+  };
+}
+
+/**
+ * Working memory on a 0-100 scale: the mean span across modes against a span of 9, the top
+ * of the typical adult range
+ */
+export function workingMemoryScore(digitSpan: StandardizedAssessments['digit_span']): number {
+  const meanSpan = (digitSpan.forward_span + digitSpan.backward_span + digitSpan.sequencing_span) / 3;
+  return Math.min(100, (meanSpan / 9) * 100);
+}
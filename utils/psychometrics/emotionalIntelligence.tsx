@@ -0,0 +1,93 @@
+import { EmotionalIntelligence } from '../nprTypes';
+import { QuestionnaireItem, QuestionnaireResponses, resolveScores, scoreScales } from './questionnaire';
+
+/**
+ * Emotional intelligence item bank covering the four clusters of Goleman's competency model.
+ * Each competency is a scale of two self-report items, one of them negatively keyed where a
+ * natural reversed statement exists; the cluster is the item's facet.
+ */
+
+export const EMOTIONAL_INTELLIGENCE_ITEMS: QuestionnaireItem[] = [
+  // Self-awareness
+  { id: 'ei-esa-1', text: 'I can name what I am feeling as it happens', scale: 'emotional_self_awareness', facet: 'self_awareness' },
+  { id: 'ei-esa-2', text: 'My moods often catch me by surprise', scale: 'emotional_self_awareness', facet: 'self_awareness', reverse: true },
+  { id: 'ei-asa-1', text: 'I know my strengths and my limits', scale: 'accurate_self_assessment', facet: 'self_awareness' },
+  { id: 'ei-asa-2', text: 'Feedback about my weaknesses usually comes as a surprise', scale: 'accurate_self_assessment', facet: 'self_awareness', reverse: true },
+  { id: 'ei-sc-1', text: 'I am confident in my own judgement', scale: 'self_confidence', facet: 'self_awareness' },
+  { id: 'ei-sc-2', text: 'I often doubt whether I can handle what is asked of me', scale: 'self_confidence', facet: 'self_awareness', reverse: true },
+
+  // Self-regulation
+  { id: 'ei-esc-1', text: 'I stay composed when I am upset', scale: 'emotional_self_control', facet: 'self_regulation' },
+  { id: 'ei-esc-2', text: 'I say things I regret when I am angry', scale: 'emotional_self_control', facet: 'self_regulation', reverse: true },
+  { id: 'ei-ad-1', text: 'I adjust easily when plans change', scale: 'adaptability', facet: 'self_regulation' },
+  { id: 'ei-ad-2', text: 'Unexpected changes throw me off for a long time', scale: 'adaptability', facet: 'self_regulation', reverse: true },
+  { id: 'ei-ao-1', text: 'I set challenging goals for myself', scale: 'achievement_orientation', facet: 'self_regulation' },
+  { id: 'ei-ao-2', text: 'I keep working to improve even when things are going well', scale: 'achievement_orientation', facet: 'self_regulation' },
+  { id: 'ei-po-1', text: 'I see setbacks as temporary', scale: 'positive_outlook', facet: 'self_regulation' },
+  { id: 'ei-po-2', text: 'When something goes wrong I expect more to follow', scale: 'positive_outlook', facet: 'self_regulation', reverse: true },
+
+  // Social awareness
+  { id: 'ei-em-1', text: 'I can tell how someone feels even when they do not say it', scale: 'empathy', facet: 'social_awareness' },
+  { id: 'ei-em-2', text: "I find it hard to see things from other people's point of view", scale: 'empathy', facet: 'social_awareness', reverse: true },
+  { id: 'ei-oa-1', text: 'I understand the unspoken rules of the groups I belong to', scale: 'organizational_awareness', facet: 'social_awareness' },
+  { id: 'ei-oa-2', text: 'I notice who really influences decisions in a group', scale: 'organizational_awareness', facet: 'social_awareness' },
+  { id: 'ei-so-1', text: 'I go out of my way to help others get what they need', scale: 'service_orientation', facet: 'social_awareness' },
+  { id: 'ei-so-2', text: "Other people's needs are not really my concern", scale: 'service_orientation', facet: 'social_awareness', reverse: true },
+
+  // Relationship management
+  { id: 'ei-in-1', text: 'I can win people over to my point of view', scale: 'influence', facet: 'relationship_management' },
+  { id: 'ei-in-2', text: 'People rarely change their minds because of what I say', scale: 'influence', facet: 'relationship_management', reverse: true },
+  { id: 'ei-cm-1', text: 'I enjoy helping others develop their skills', scale: 'coach_mentor', facet: 'relationship_management' },
+  { id: 'ei-cm-2', text: 'I give feedback that helps people improve', scale: 'coach_mentor', facet: 'relationship_management' },
+  { id: 'ei-cf-1', text: 'I can calm a disagreement between others', scale: 'conflict_management', facet: 'relationship_management' },
+  { id: 'ei-cf-2', text: 'I avoid dealing with conflict', scale: 'conflict_management', facet: 'relationship_management', reverse: true },
+  { id: 'ei-tl-1', text: 'People look to me to lead when working in a group', scale: 'team_leadership', facet: 'relationship_management' },
+  { id: 'ei-tl-2', text: 'I bring out the best in the people I work with', scale: 'team_leadership', facet: 'relationship_management' }
+];
+
+/**
+ * Cluster scores keyed by their norm measure, null where too few items were answered. The
+ * two-item competency scales are too short to show a reliable change on retest, so only the
+ * clusters are normed.
+ */
+export function emotionalIntelligenceNormScores(responses: QuestionnaireResponses): Record<string, number | null> {
+  const clusters = scoreScales(EMOTIONAL_INTELLIGENCE_ITEMS, responses, 'facet');
+  return Object.fromEntries(
+    Object.entries(clusters).map(([cluster, { score }]) => [`emotional_intelligence.${cluster}`, score])
+  );
+}
+
+export function scoreEmotionalIntelligence(responses: QuestionnaireResponses): EmotionalIntelligence {
+  const { values, incomplete } = resolveScores(scoreScales(EMOTIONAL_INTELLIGENCE_ITEMS, responses));
+  const timestamp = new Date();
+
+  return {
+    self_awareness: {
+      emotional_self_awareness: values.emotional_self_awareness,
+      accurate_self_assessment: values.accurate_self_assessment,
+      self_confidence: values.self_confidence,
+      timestamp
+    },
+    self_regulation: {
+      emotional_self_control: values.emotional_self_control,
+      adaptability: values.adaptability,
+      achievement_orientation: values.achievement_orientation,
+      positive_outlook: values.positive_outlook,
+      timestamp
+    },
+    social_awareness: {
+      empathy: values.empathy,
+      organizational_awareness: values.organizational_awareness,
+      service_orientation: values.service_orientation,
+      timestamp
+    },
+    relationship_management: {
+      influence: values.influence,
+      coach_mentor: values.coach_mentor,
+      conflict_management: values.conflict_management,
+      team_leadership: values.team_leadership,
+      timestamp
+    },
+    incomplete_scales: incomplete
+  };
+}
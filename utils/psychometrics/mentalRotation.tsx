@@ -0,0 +1,212 @@
+import { MentalRotationTrial, StandardizedAssessments } from '../nprTypes';
+
+/**
+ * Mental rotation (Shepard & Metzler, 1971). Each trial shows two figures made of ten cubes;
+ * the right one is the left one turned about the vertical axis, and on half the trials it is
+ * also mirrored so it cannot be turned into the left one. Response time grows roughly
+ * linearly with the angle for "same" pairs; the slope is the angular disparity effect.
+ *
+ * Figures are generated and projected here so the task needs no assets and runs offline.
+ */
+
+export type Vec3 = [number, number, number];
+
+export interface ProjectedFace {
+  points: Array<[number, number]>;
+  shade: number; // 0-1, from the face's angle to the light
+}
+
+export const ROTATION_ANGLES = [0, 40, 80, 120, 160];
+
+// Each angle is shown this many times as a same pair and as a mirrored pair
+const REPETITIONS_PER_CONDITION = 2;
+
+// Camera: looking slightly down at the figures so all three axes are visible
+const VIEW_PITCH_DEG = -25;
+const VIEW_YAW_DEG = 30;
+const LIGHT: Vec3 = normalize([0.4, 0.8, 1]);
+
+const AXES: Vec3[] = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+function add(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+function scale(a: Vec3, factor: number): Vec3 {
+  return [a[0] * factor, a[1] * factor, a[2] * factor];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function normalize(a: Vec3): Vec3 {
+  return scale(a, 1 / Math.sqrt(dot(a, a)));
+}
+
+function rotateY(v: Vec3, degrees: number): Vec3 {
+  const r = (degrees * Math.PI) / 180;
+  return [v[0] * Math.cos(r) + v[2] * Math.sin(r), v[1], -v[0] * Math.sin(r) + v[2] * Math.cos(r)];
+}
+
+function rotateX(v: Vec3, degrees: number): Vec3 {
+  const r = (degrees * Math.PI) / 180;
+  return [v[0], v[1] * Math.cos(r) - v[2] * Math.sin(r), v[1] * Math.sin(r) + v[2] * Math.cos(r)];
+}
+
+function randomItem<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function randomDirection(exclude: Vec3[]): Vec3 {
+  const axes = AXES.filter(axis => exclude.every(other => Math.abs(dot(axis, other)) === 0));
+  return scale(randomItem(axes), Math.random() < 0.5 ? 1 : -1);
+}
+
+/**
+ * A Shepard-Metzler figure: ten unit cubes on an integer grid in four straight arms, each arm
+ * at right angles to the one before and the third arm out of the plane of the first two, so
+ * the figure is chiral.
+ */
+export function generateFigure(): Vec3[] {
+  const armLengths = [2, 3, 2, 2];
+
+  while (true) {
+    const first = randomDirection([]);
+    const second = randomDirection([first]);
+    const third = randomDirection([first, second]);
+    const fourth = randomDirection([third]);
+    const directions = [first, second, third, fourth];
+
+    const cubes: Vec3[] = [[0, 0, 0]];
+    directions.forEach((direction, arm) => {
+      for (let step = 0; step < armLengths[arm]; step++) {
+        cubes.push(add(cubes[cubes.length - 1], direction));
+      }
+    });
+
+    const keys = new Set(cubes.map(cube => cube.join(',')));
+    if (keys.size === cubes.length) {
+      return cubes;
+    }
+  }
+}
+
+// Reflection through the x = 0 plane; no rotation maps a chiral figure onto this
+export function mirrorFigure(cubes: Vec3[]): Vec3[] {
+  return cubes.map(([x, y, z]) => [-x, y, z] as Vec3);
+}
+
+/**
+ * Project a figure turned by `angle` degrees about the vertical axis into 2D faces, back to
+ * front, ready to draw in order. Faces between touching cubes and faces pointing away from the
+ * camera are dropped.
+ */
+export function projectFigure(cubes: Vec3[], angle: number): ProjectedFace[] {
+  const occupied = new Set(cubes.map(cube => cube.join(',')));
+
+  // Turn about the figure's own centre so it stays in place
+  const centre = scale(cubes.reduce(add, [0, 0, 0] as Vec3), 1 / cubes.length);
+  const toView = (v: Vec3) => rotateX(rotateY(rotateY(v, angle), VIEW_YAW_DEG), VIEW_PITCH_DEG);
+  const faces: Array<ProjectedFace & { depth: number }> = [];
+
+  for (const cube of cubes) {
+    for (const axis of AXES) {
+      for (const sign of [1, -1]) {
+        const normal = scale(axis, sign);
+        if (occupied.has(add(cube, normal).join(','))) continue;
+
+        const viewNormal = toView(normal);
+        if (viewNormal[2] <= 0) continue;
+
+        // The two axes spanning this face, walked around its four corners
+        const [u, v] = AXES.filter(other => other !== axis);
+        const faceCentre = add(add(cube, scale(centre, -1)), scale(normal, 0.5));
+        const corners = [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([a, b]) =>
+          toView(add(faceCentre, add(scale(u, a * 0.5), scale(v, b * 0.5))))
+        );
+
+        faces.push({
+          points: corners.map(([x, y]) => [x, -y] as [number, number]),
+          shade: 0.35 + 0.65 * Math.max(0, dot(viewNormal, LIGHT)),
+          depth: corners.reduce((sum, corner) => sum + corner[2], 0) / 4
+        });
+      }
+    }
+  }
+
+  return faces
+    .sort((a, b) => a.depth - b.depth)
+    .map(({ points, shade }) => ({ points, shade }));
+}
+
+export interface MentalRotationStimulus {
+  figure: Vec3[];
+  comparison: Vec3[];
+  angle: number;
+  mirrored: boolean;
+}
+
+export const MENTAL_ROTATION_TRIAL_COUNT = ROTATION_ANGLES.length * 2 * REPETITIONS_PER_CONDITION;
+
+/**
+ * One trial per angle, pairing and repetition, each with a new figure, in random order.
+ * Conditions already covered by `completed` trials are left out, so a resumed task still
+ * ends up balanced.
+ */
+export function buildMentalRotationStimuli(completed: MentalRotationTrial[] = []): MentalRotationStimulus[] {
+  const stimuli: MentalRotationStimulus[] = [];
+
+  for (const angle of ROTATION_ANGLES) {
+    for (const mirrored of [false, true]) {
+      const done = completed.filter(trial => trial.angle === angle && trial.mirrored === mirrored).length;
+      for (let repetition = done; repetition < REPETITIONS_PER_CONDITION; repetition++) {
+        const figure = generateFigure();
+        stimuli.push({ figure, comparison: mirrored ? mirrorFigure(figure) : figure, angle, mirrored });
+      }
+    }
+  }
+
+  for (let i = stimuli.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [stimuli[i], stimuli[j]] = [stimuli[j], stimuli[i]];
+  }
+
+  return stimuli;
+}
+
+/**
+ * Ordinary least squares fit of y on x
+ */
+export function linearFit(xs: number[], ys: number[]): { slope: number; intercept: number } {
+  const n = xs.length;
+  if (n === 0) {
+    return { slope: 0, intercept: 0 };
+  }
+
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const sxy = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0);
+  const slope = sxx > 0 ? sxy / sxx : 0;
+
+  return { slope, intercept: meanY - slope * meanX };
+}
+
+export function scoreMentalRotation(trials: MentalRotationTrial[]): StandardizedAssessments['mental_rotation'] {
+  // The rotation effect is measured on correct "same" trials, as mirrored pairs need no alignment
+  const fitted = trials.filter(trial => trial.correct && !trial.mirrored);
+  const { slope, intercept } = linearFit(
+    fitted.map(trial => trial.angle),
+    fitted.map(trial => trial.response_time)
+  );
+
+  return {
+    accuracy: trials.length > 0 ? trials.filter(trial => trial.correct).length / trials.length : 0,
+    response_time: trials.map(trial => trial.response_time),
+    angular_disparity_effect: slope,
+    intercept,
+    trials,
+    timestamp: new Date()
+  };
+}
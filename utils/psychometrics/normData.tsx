@@ -0,0 +1,100 @@
+import { NormAgeBand, NormDataset, NormTable } from '../nprTypes';
+
+/**
+ * Built-in norms, used until a newer dataset is loaded. Means and SDs are provisional
+ * approximations of published adult samples (WAIS-IV digit span, Toplak et al. 2014 for the
+ * CRT, Tower of London and Shepard-Metzler replications), and the 0-100 composites are
+ * estimated from those rows. Questionnaire rows rescale BFI and ECI scale means to 0-100 and
+ * use test-retest reliabilities, with no age breakdown yet. Replace them with a dataset
+ * collected on the app once one exists.
+ */
+
+type NormRow = [mean: number, sd: number, n: number];
+
+const AGE_BANDS: NormAgeBand[] = [
+  { id: '18-29', min_age: 18, max_age: 29 },
+  { id: '30-44', min_age: 30, max_age: 44 },
+  { id: '45-59', min_age: 45, max_age: 59 },
+  { id: '60-74', min_age: 60, max_age: 74 },
+  { id: '75+', min_age: 75, max_age: 120 }
+];
+
+// Rows in AGE_BANDS order, after the all-ages row
+function table(
+  reliability: number,
+  all: NormRow,
+  byAge: NormRow[],
+  lowerIsBetter = false
+): NormTable {
+  const rows: Array<[string, NormRow]> = [['all', all], ...byAge.map((row, index): [string, NormRow] => [AGE_BANDS[index].id, row])];
+  return {
+    reliability,
+    ...(lowerIsBetter ? { lower_is_better: true } : {}),
+    bands: Object.fromEntries(rows.map(([band, [mean, sd, n]]) => [band, { mean, sd, n }]))
+  };
+}
+
+// A measure normed on the whole sample only; every age band falls back to it
+function allAges(reliability: number, [mean, sd, n]: NormRow, lowerIsBetter = false): NormTable {
+  return {
+    reliability,
+    ...(lowerIsBetter ? { lower_is_better: true } : {}),
+    bands: { all: { mean, sd, n } }
+  };
+}
+
+export const DEFAULT_NORM_DATASET: NormDataset = {
+  id: 'akilii-provisional',
+  version: '2025.1',
+  published: '2025-01-15',
+  source: 'Provisional norms from published adult samples and app pilot data',
+  age_bands: AGE_BANDS,
+  measures: {
+    'working_memory.score': table(0.88, [60, 13, 2400], [
+      [64, 12, 620], [62, 12, 580], [59, 13, 520], [55, 13, 440], [51, 14, 240]
+    ]),
+    'processing_speed.score': table(0.86, [58, 15, 2100], [
+      [66, 13, 560], [62, 13, 520], [56, 14, 470], [48, 15, 360], [40, 16, 190]
+    ]),
+    'processing_speed.correct_per_minute': table(0.86, [42, 10, 2100], [
+      [48, 9, 560], [45, 9, 520], [41, 9, 470], [36, 10, 360], [30, 10, 190]
+    ]),
+    'digit_span.forward_span': table(0.81, [6.4, 1.3, 2400], [
+      [6.7, 1.2, 620], [6.6, 1.2, 580], [6.4, 1.3, 520], [6.1, 1.3, 440], [5.8, 1.3, 240]
+    ]),
+    'digit_span.backward_span': table(0.80, [4.9, 1.3, 2400], [
+      [5.3, 1.3, 620], [5.1, 1.3, 580], [4.9, 1.2, 520], [4.5, 1.2, 440], [4.2, 1.2, 240]
+    ]),
+    'digit_span.sequencing_span': table(0.79, [5.4, 1.3, 2400], [
+      [5.9, 1.2, 620], [5.6, 1.2, 580], [5.3, 1.3, 520], [4.9, 1.3, 440], [4.5, 1.3, 240]
+    ]),
+    'cognitive_reflection_test.score': table(0.74, [2.9, 2.0, 1800], [
+      [3.0, 2.0, 520], [3.1, 2.0, 460], [2.9, 2.0, 400], [2.6, 1.9, 280], [2.3, 1.9, 140]
+    ]),
+    'stroop_test.interference_effect': table(0.70, [110, 55, 2200], [
+      [90, 45, 580], [100, 50, 540], [115, 55, 480], [135, 60, 390], [160, 70, 210]
+    ], true),
+    'tower_of_london.planning_accuracy': table(0.72, [0.58, 0.18, 1600], [
+      [0.63, 0.17, 440], [0.61, 0.17, 400], [0.57, 0.18, 360], [0.51, 0.18, 260], [0.45, 0.19, 140]
+    ]),
+    'tower_of_london.moves_efficiency': table(0.70, [0.82, 0.12, 1600], [
+      [0.85, 0.11, 440], [0.84, 0.11, 400], [0.82, 0.12, 360], [0.78, 0.13, 260], [0.74, 0.14, 140]
+    ]),
+    'mental_rotation.accuracy': table(0.84, [0.84, 0.10, 1500], [
+      [0.87, 0.09, 420], [0.86, 0.09, 380], [0.84, 0.10, 330], [0.80, 0.11, 240], [0.76, 0.12, 130]
+    ]),
+    'mental_rotation.angular_disparity_effect': table(0.68, [16, 8, 1500], [
+      [13, 7, 420], [14, 7, 380], [16, 8, 330], [19, 9, 240], [22, 10, 130]
+    ], true),
+    'personality.openness': allAges(0.78, [65, 16, 1200]),
+    'personality.conscientiousness': allAges(0.80, [65, 17, 1200]),
+    'personality.extraversion': allAges(0.82, [57, 20, 1200]),
+    'personality.agreeableness': allAges(0.74, [70, 15, 1200]),
+    // Scored so that positive z means more emotional stability
+    'personality.neuroticism': allAges(0.78, [47, 20, 1200], true),
+    'emotional_intelligence.self_awareness': allAges(0.76, [68, 14, 900]),
+    'emotional_intelligence.self_regulation': allAges(0.79, [66, 14, 900]),
+    'emotional_intelligence.social_awareness': allAges(0.75, [71, 13, 900]),
+    'emotional_intelligence.relationship_management': allAges(0.79, [64, 15, 900])
+  }
+};
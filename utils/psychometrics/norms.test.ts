@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ageBandFor,
+  buildNormReport,
+  getActiveNormDataset,
+  loadNormDataset,
+  normalCdf,
+  NormDatasetError,
+  normScore,
+  validateNormDataset
+} from './norms';
+
+function dataset(version: string, overrides: Record<string, any> = {}) {
+  return {
+    id: 'test-norms',
+    version,
+    published: '2025-01-01',
+    source: 'test',
+    age_bands: [{ id: '18-29', min_age: 18, max_age: 29 }],
+    measures: {
+      'digit_span.forward_span': {
+        reliability: 0.84,
+        bands: { all: { mean: 6, sd: 1, n: 500 }, '18-29': { mean: 7, sd: 1, n: 100 } }
+      },
+      'processing_speed.mean_rt': {
+        reliability: 0.9,
+        lower_is_better: true,
+        bands: { all: { mean: 500, sd: 100, n: 500 } }
+      }
+    },
+    ...overrides
+  };
+}
+
+describe('normalCdf', () => {
+  it('matches the standard normal table', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.959964)).toBeCloseTo(0.975, 5);
+    expect(normalCdf(-1)).toBeCloseTo(0.158655, 5);
+  });
+});
+
+describe('normScore', () => {
+  const norms = validateNormDataset(dataset('1.0'));
+
+  it('places a raw score against the age band and gives a confidence interval', () => {
+    const score = normScore('digit_span.forward_span', 8, '18-29', norms)!;
+    expect(score.z).toBe(1);
+    expect(score.percentile).toBe(84.1);
+    expect(score.age_band).toBe('18-29');
+    expect(score.confidence_interval.lower).toBeLessThan(score.percentile);
+    expect(score.confidence_interval.upper).toBeGreaterThan(score.percentile);
+  });
+
+  it('falls back to all ages for a band the measure has no row for', () => {
+    const score = normScore('processing_speed.mean_rt', 400, '18-29', norms)!;
+    expect(score.age_band).toBe('all');
+    // Faster than the mean is better, so the z-score is positive
+    expect(score.z).toBe(1);
+  });
+
+  it('is null for measures without norms', () => {
+    expect(normScore('unknown.measure', 1, 'all', norms)).toBeNull();
+    expect(buildNormReport({ 'digit_span.forward_span': 6, 'unknown.measure': 3, 'processing_speed.mean_rt': null }, 'all', norms).scores)
+      .toEqual({ 'digit_span.forward_span': expect.objectContaining({ z: 0, percentile: 50 }) });
+  });
+});
+
+describe('ageBandFor', () => {
+  it('uses the all-ages band when the age is unknown or outside every band', () => {
+    const norms = validateNormDataset(dataset('1.0'));
+    expect(ageBandFor(25, norms)).toBe('18-29');
+    expect(ageBandFor(40, norms)).toBe('all');
+    expect(ageBandFor(null, norms)).toBe('all');
+  });
+});
+
+describe('validateNormDataset', () => {
+  it('reports the first problem found', () => {
+    expect(() => validateNormDataset(dataset('v2'))).toThrow(/dotted numeric version/);
+    expect(() => validateNormDataset(dataset('1.0', {
+      measures: { x: { reliability: 1, bands: { all: { mean: 0, sd: 1, n: 1 } } } }
+    }))).toThrow(/reliability between 0 and 1/);
+    expect(() => validateNormDataset(dataset('1.0', {
+      measures: { x: { reliability: 0.8, bands: { all: { mean: 0, sd: 1, n: 1 }, '30-44': { mean: 0, sd: 1, n: 1 } } } }
+    }))).toThrow(/unknown age band 30-44/);
+    expect(() => validateNormDataset(dataset('1.0', {
+      measures: { x: { reliability: 0.8, bands: { all: { mean: 0, sd: 0, n: 1 } } } }
+    }))).toThrow(NormDatasetError);
+  });
+});
+
+describe('loadNormDataset', () => {
+  it('only replaces the active dataset with a newer version', () => {
+    const builtIn = getActiveNormDataset();
+
+    loadNormDataset(JSON.stringify(dataset('2024.9')));
+    expect(getActiveNormDataset()).toBe(builtIn);
+
+    const newer = loadNormDataset(dataset('2025.10'));
+    expect(getActiveNormDataset()).toBe(newer);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => loadNormDataset('{not json')).toThrow(/not valid JSON/);
+  });
+});
@@ -0,0 +1,208 @@
+import { NormDataset, NormReport, NormScore, NormTable } from '../nprTypes';
+import { DEFAULT_NORM_DATASET } from './normData';
+
+/**
+ * Norm-referenced scoring. A raw score is placed against the mean and SD of the person's age
+ * band in a versioned norm dataset, giving a z-score and percentile. The confidence interval
+ * comes from the measure's standard error of measurement, SD * sqrt(1 - reliability), so a
+ * percentile is reported together with how far it could move on a retest.
+ *
+ * Updated datasets are plain JSON in the NormDataset shape and can be loaded at runtime; the
+ * newest version loaded is used from then on.
+ */
+
+export class NormDatasetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NormDatasetError';
+  }
+}
+
+// Used when the age band is unknown or the dataset has no row for it
+export const ALL_AGES_BAND = 'all';
+
+// z for a two-sided 95% interval
+const Z_95 = 1.959964;
+
+let activeDataset: NormDataset = DEFAULT_NORM_DATASET;
+
+/**
+ * Standard normal CDF, via the Abramowitz & Stegun 7.1.26 approximation of erf
+ * (absolute error below 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Percentiles are kept inside 0.1-99.9: the tails of a normal approximation are not meaningful
+function toPercentile(z: number): number {
+  return Math.min(99.9, Math.max(0.1, Math.round(normalCdf(z) * 1000) / 10));
+}
+
+/**
+ * Compare two dotted versions such as "2025.1" and "2025.10" numerically
+ */
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Check that parsed JSON is a usable norm dataset, throwing NormDatasetError with the first
+ * problem found
+ */
+export function validateNormDataset(data: any): NormDataset {
+  if (!data || typeof data !== 'object') {
+    throw new NormDatasetError('Norm dataset must be an object');
+  }
+  if (typeof data.id !== 'string' || typeof data.version !== 'string' || !/^\d+(\.\d+)*$/.test(data.version)) {
+    throw new NormDatasetError('Norm dataset needs a string id and a dotted numeric version');
+  }
+  if (!Array.isArray(data.age_bands) || !data.measures || typeof data.measures !== 'object') {
+    throw new NormDatasetError('Norm dataset needs age_bands and measures');
+  }
+
+  const bandIds = new Set<string>([ALL_AGES_BAND]);
+  for (const band of data.age_bands) {
+    if (typeof band?.id !== 'string' || !isFiniteNumber(band.min_age) || !isFiniteNumber(band.max_age)) {
+      throw new NormDatasetError('Each age band needs an id, min_age and max_age');
+    }
+    bandIds.add(band.id);
+  }
+
+  for (const [measure, table] of Object.entries<any>(data.measures)) {
+    if (!isFiniteNumber(table?.reliability) || table.reliability <= 0 || table.reliability >= 1) {
+      throw new NormDatasetError(`Measure ${measure} needs a reliability between 0 and 1`);
+    }
+    if (!table.bands?.[ALL_AGES_BAND]) {
+      throw new NormDatasetError(`Measure ${measure} has no "${ALL_AGES_BAND}" band`);
+    }
+    for (const [bandId, row] of Object.entries<any>(table.bands)) {
+      if (!bandIds.has(bandId)) {
+        throw new NormDatasetError(`Measure ${measure} refers to unknown age band ${bandId}`);
+      }
+      if (!isFiniteNumber(row?.mean) || !isFiniteNumber(row?.sd) || row.sd <= 0 || !isFiniteNumber(row?.n)) {
+        throw new NormDatasetError(`Measure ${measure}, band ${bandId} needs mean, a positive sd and n`);
+      }
+    }
+  }
+
+  return data as NormDataset;
+}
+
+/**
+ * Register a norm dataset from JSON (a string or already parsed). It becomes the active
+ * dataset if its version is newer than the current one.
+ */
+export function loadNormDataset(json: string | object): NormDataset {
+  let parsed: unknown;
+  try {
+    parsed = typeof json === 'string' ? JSON.parse(json) : json;
+  } catch {
+    throw new NormDatasetError('Norm dataset is not valid JSON');
+  }
+
+  const dataset = validateNormDataset(parsed);
+  if (compareVersions(dataset.version, activeDataset.version) > 0) {
+    activeDataset = dataset;
+  }
+  return dataset;
+}
+
+/**
+ * Fetch and load a norm dataset published as JSON
+ */
+export async function fetchNormDataset(url: string): Promise<NormDataset> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new NormDatasetError(`Failed to fetch norm dataset: ${response.status}`);
+  }
+  return loadNormDataset(await response.text());
+}
+
+export function getActiveNormDataset(): NormDataset {
+  return activeDataset;
+}
+
+/**
+ * The age band containing `age`, or the all-ages band when the age is unknown
+ */
+export function ageBandFor(age: number | null | undefined, dataset: NormDataset = activeDataset): string {
+  if (!isFiniteNumber(age)) {
+    return ALL_AGES_BAND;
+  }
+  return dataset.age_bands.find(band => age >= band.min_age && age <= band.max_age)?.id ?? ALL_AGES_BAND;
+}
+
+/**
+ * Norm-referenced score for one measure, or null if the dataset has no norms for it
+ */
+export function normScore(
+  measure: string,
+  raw: number,
+  ageBand: string = ALL_AGES_BAND,
+  dataset: NormDataset = activeDataset
+): NormScore | null {
+  const table: NormTable | undefined = dataset.measures[measure];
+  if (!table || !isFiniteNumber(raw)) {
+    return null;
+  }
+
+  const band = table.bands[ageBand] ? ageBand : ALL_AGES_BAND;
+  const { mean, sd, n } = table.bands[band];
+  const direction = table.lower_is_better ? -1 : 1;
+  const z = (direction * (raw - mean)) / sd;
+  // The standard error of measurement in z units is sqrt(1 - reliability)
+  const margin = Z_95 * Math.sqrt(1 - table.reliability);
+
+  return {
+    raw,
+    z,
+    percentile: toPercentile(z),
+    confidence_interval: {
+      level: 0.95,
+      lower: toPercentile(z - margin),
+      upper: toPercentile(z + margin)
+    },
+    norm_mean: mean,
+    norm_sd: sd,
+    norm_n: n,
+    reliability: table.reliability,
+    age_band: band
+  };
+}
+
+/**
+ * Norm-referenced scores for every measure that has both a raw score and norms
+ */
+export function buildNormReport(
+  rawScores: Record<string, number | null | undefined>,
+  ageBand: string = ALL_AGES_BAND,
+  dataset: NormDataset = activeDataset
+): NormReport {
+  const scores: Record<string, NormScore> = {};
+  for (const [measure, raw] of Object.entries(rawScores)) {
+    const score = isFiniteNumber(raw) ? normScore(measure, raw, ageBand, dataset) : null;
+    if (score) scores[measure] = score;
+  }
+
+  return {
+    dataset_id: dataset.id,
+    version: dataset.version,
+    age_band: ageBand,
+    scores
+  };
+}
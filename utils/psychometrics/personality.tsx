@@ -0,0 +1,120 @@
+import { PersonalityProfile } from '../nprTypes';
+import { QuestionnaireItem, QuestionnaireResponses, resolveScores, scoreScales } from './questionnaire';
+
+/**
+ * Personality item bank: the Big Five with two facets each, in the style of the IPIP, followed
+ * by short scales for cognitive style, learning preferences and decision making. Big Five
+ * facets and the bipolar style scales pair a positively and a negatively keyed item, so
+ * agreeing with everything scores mid-range.
+ */
+
+export const PERSONALITY_ITEMS: QuestionnaireItem[] = [
+  // Openness
+  { id: 'bf-o-1', text: 'I have a vivid imagination', scale: 'openness', facet: 'imagination' },
+  { id: 'bf-o-2', text: 'I rarely daydream', scale: 'openness', facet: 'imagination', reverse: true },
+  { id: 'bf-o-3', text: 'I enjoy thinking about complex ideas', scale: 'openness', facet: 'intellect' },
+  { id: 'bf-o-4', text: 'I avoid philosophical discussions', scale: 'openness', facet: 'intellect', reverse: true },
+
+  // Conscientiousness
+  { id: 'bf-c-1', text: 'I like to keep things tidy and organised', scale: 'conscientiousness', facet: 'orderliness' },
+  { id: 'bf-c-2', text: 'I often leave my belongings lying around', scale: 'conscientiousness', facet: 'orderliness', reverse: true },
+  { id: 'bf-c-3', text: 'I get tasks done right away', scale: 'conscientiousness', facet: 'self_discipline' },
+  { id: 'bf-c-4', text: 'I find it hard to get down to work', scale: 'conscientiousness', facet: 'self_discipline', reverse: true },
+
+  // Extraversion
+  { id: 'bf-e-1', text: 'I feel comfortable around people', scale: 'extraversion', facet: 'sociability' },
+  { id: 'bf-e-2', text: 'I prefer to be alone at social events', scale: 'extraversion', facet: 'sociability', reverse: true },
+  { id: 'bf-e-3', text: 'I take charge in group situations', scale: 'extraversion', facet: 'assertiveness' },
+  { id: 'bf-e-4', text: 'I keep in the background', scale: 'extraversion', facet: 'assertiveness', reverse: true },
+
+  // Agreeableness
+  { id: 'bf-a-1', text: "I feel others' emotions", scale: 'agreeableness', facet: 'compassion' },
+  { id: 'bf-a-2', text: "I am not interested in other people's problems", scale: 'agreeableness', facet: 'compassion', reverse: true },
+  { id: 'bf-a-3', text: 'I would rather cooperate than compete', scale: 'agreeableness', facet: 'cooperation' },
+  { id: 'bf-a-4', text: 'I like to get the better of others', scale: 'agreeableness', facet: 'cooperation', reverse: true },
+
+  // Neuroticism
+  { id: 'bf-n-1', text: 'I worry about things', scale: 'neuroticism', facet: 'anxiety' },
+  { id: 'bf-n-2', text: 'I stay calm under pressure', scale: 'neuroticism', facet: 'anxiety', reverse: true },
+  { id: 'bf-n-3', text: 'I get irritated easily', scale: 'neuroticism', facet: 'volatility' },
+  { id: 'bf-n-4', text: 'I rarely lose my temper', scale: 'neuroticism', facet: 'volatility', reverse: true },
+
+  // Cognitive style
+  { id: 'cs-fi-1', text: 'I can easily pick out the detail I need from a busy page', scale: 'field_independence' },
+  { id: 'cs-fi-2', text: 'I need the whole context before I can focus on one part', scale: 'field_independence', reverse: true },
+  { id: 'cs-ai-1', text: 'I work through problems step by step before deciding', scale: 'analytical_vs_intuitive' },
+  { id: 'cs-ai-2', text: 'I usually go with my first instinct', scale: 'analytical_vs_intuitive', reverse: true },
+  { id: 'cs-sr-1', text: 'I like to finish one thing before starting the next', scale: 'sequential_vs_random' },
+  { id: 'cs-sr-2', text: 'I jump between tasks as ideas come to me', scale: 'sequential_vs_random', reverse: true },
+  { id: 'cs-ca-1', text: 'I enjoy ideas and theories more than practical facts', scale: 'concrete_vs_abstract' },
+  { id: 'cs-ca-2', text: 'I understand things best from real, hands-on examples', scale: 'concrete_vs_abstract', reverse: true },
+
+  // Learning preferences
+  { id: 'lp-v-1', text: 'Diagrams and charts help me understand new things', scale: 'visual' },
+  { id: 'lp-v-2', text: 'I remember faces and places better than names', scale: 'visual' },
+  { id: 'lp-a-1', text: 'I learn well by listening to explanations', scale: 'auditory' },
+  { id: 'lp-a-2', text: 'Talking a problem through helps me solve it', scale: 'auditory' },
+  { id: 'lp-k-1', text: 'I learn best by trying things out myself', scale: 'kinesthetic' },
+  { id: 'lp-k-2', text: 'I find it hard to sit still while learning', scale: 'kinesthetic' },
+  { id: 'lp-r-1', text: 'I prefer written instructions to spoken ones', scale: 'reading_writing' },
+  { id: 'lp-r-2', text: 'Taking notes helps me remember', scale: 'reading_writing' },
+
+  // Decision making
+  { id: 'dm-rt-1', text: 'I am willing to take risks for a better outcome', scale: 'risk_tolerance' },
+  { id: 'dm-rt-2', text: 'I prefer the safe option even if it pays less', scale: 'risk_tolerance', reverse: true },
+  { id: 'dm-to-1', text: 'I make decisions with the long term in mind', scale: 'time_orientation' },
+  { id: 'dm-to-2', text: 'I focus on what matters right now rather than later', scale: 'time_orientation', reverse: true },
+  { id: 'dm-do-1', text: 'I check the details before committing to a decision', scale: 'detail_orientation' },
+  { id: 'dm-do-2', text: 'I go with the big picture and skip the fine print', scale: 'detail_orientation', reverse: true }
+];
+
+const BIG_FIVE_SCALES = ['openness', 'conscientiousness', 'extraversion', 'agreeableness', 'neuroticism'];
+
+/**
+ * Big Five scores keyed by their norm measure, null where too few items were answered. The
+ * two-item style and preference scales are too short to show a reliable change on retest, so
+ * they are not normed and are only re-asked on the domain's routine schedule.
+ */
+export function personalityNormScores(responses: QuestionnaireResponses): Record<string, number | null> {
+  const scores = scoreScales(PERSONALITY_ITEMS, responses);
+  return Object.fromEntries(BIG_FIVE_SCALES.map(scale => [`personality.${scale}`, scores[scale]?.score ?? null]));
+}
+
+export function scorePersonality(responses: QuestionnaireResponses): PersonalityProfile {
+  const { values, incomplete } = resolveScores(scoreScales(PERSONALITY_ITEMS, responses));
+  const facets = resolveScores(scoreScales(PERSONALITY_ITEMS, responses, 'facet')).values;
+  const timestamp = new Date();
+
+  return {
+    big_five: {
+      openness: values.openness,
+      conscientiousness: values.conscientiousness,
+      extraversion: values.extraversion,
+      agreeableness: values.agreeableness,
+      neuroticism: values.neuroticism,
+      facets,
+      timestamp
+    },
+    cognitive_style: {
+      field_independence: values.field_independence,
+      analytical_vs_intuitive: values.analytical_vs_intuitive,
+      sequential_vs_random: values.sequential_vs_random,
+      concrete_vs_abstract: values.concrete_vs_abstract,
+      timestamp
+    },
+    learning_preferences: {
+      visual: values.visual,
+      auditory: values.auditory,
+      kinesthetic: values.kinesthetic,
+      reading_writing: values.reading_writing,
+      timestamp
+    },
+    decision_making: {
+      risk_tolerance: values.risk_tolerance,
+      time_orientation: values.time_orientation,
+      detail_orientation: values.detail_orientation,
+      timestamp
+    },
+    incomplete_scales: incomplete
+  };
+}
@@ -0,0 +1,89 @@
+import { ProcessingSpeedTrial } from '../nprTypes';
+
+/**
+ * Symbol-digit coding: a key pairs nine symbols with the digits 1-9, and for a fixed time the
+ * participant is shown one symbol at a time and answers with its digit. Speed is taken from
+ * the reaction times of correct answers once implausible ones are removed.
+ */
+
+export const CODING_SYMBOLS = ['△', '○', '□', '◇', '☆', '✕', '∩', '⊥', '≡'];
+
+export const CODING_DURATION_MS = 90000;
+
+// Faster than this cannot follow from seeing the symbol, so the response was a guess
+export const ANTICIPATORY_RT_MS = 150;
+
+// Slow responses further than this many scaled MADs above the median are lapses, not speed
+export const OUTLIER_MAD_CUTOFF = 3;
+
+// Mean correct RT mapped onto 0-100: this fast or faster is 100, this slow or slower is 0
+const FASTEST_MEAN_RT_MS = 500;
+const SLOWEST_MEAN_RT_MS = 2500;
+
+/**
+ * A fresh pairing of symbols to digits for each session, so the key cannot be learned ahead
+ */
+export function buildSymbolKey(): Record<string, number> {
+  const digits = CODING_SYMBOLS.map((_, index) => index + 1);
+  for (let i = digits.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [digits[i], digits[j]] = [digits[j], digits[i]];
+  }
+  return Object.fromEntries(CODING_SYMBOLS.map((symbol, index) => [symbol, digits[index]]));
+}
+
+export function nextSymbol(previous?: string): string {
+  const candidates = CODING_SYMBOLS.filter(symbol => symbol !== previous);
+  return candidates[Math.floor(Math.random() * candidates.length)];
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Trials whose reaction times are usable: anticipatory responses are dropped first, then slow
+ * outliers by median absolute deviation, which a few long lapses cannot inflate the way they
+ * would a standard deviation
+ */
+export function validTrials(trials: ProcessingSpeedTrial[]): ProcessingSpeedTrial[] {
+  const timed = trials.filter(trial => trial.reaction_time >= ANTICIPATORY_RT_MS);
+  const rts = timed.map(trial => trial.reaction_time);
+  const centre = median(rts);
+  const spread = 1.4826 * median(rts.map(rt => Math.abs(rt - centre)));
+
+  if (spread === 0) {
+    return timed;
+  }
+  return timed.filter(trial => trial.reaction_time <= centre + OUTLIER_MAD_CUTOFF * spread);
+}
+
+/**
+ * Score on 0-100 from the mean correct reaction time, scaled by accuracy so that answering
+ * fast at random does not pay
+ */
+export function scoreProcessingSpeed(trials: ProcessingSpeedTrial[]): {
+  score: number;
+  reaction_times: number[];
+  correct_per_minute: number;
+} {
+  const valid = validTrials(trials);
+  const correctRTs = valid.filter(trial => trial.correct).map(trial => trial.reaction_time);
+
+  if (correctRTs.length === 0) {
+    return { score: 0, reaction_times: [], correct_per_minute: 0 };
+  }
+
+  const meanRT = correctRTs.reduce((sum, rt) => sum + rt, 0) / correctRTs.length;
+  const speed = (SLOWEST_MEAN_RT_MS - meanRT) / (SLOWEST_MEAN_RT_MS - FASTEST_MEAN_RT_MS);
+  const accuracy = correctRTs.length / valid.length;
+
+  return {
+    score: Math.max(0, Math.min(100, speed * 100 * accuracy)),
+    reaction_times: correctRTs,
+    correct_per_minute: trials.filter(trial => trial.correct).length / (CODING_DURATION_MS / 60000)
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { QuestionnaireItem, resolveScores, scoreItems, scoreScales } from './questionnaire';
+
+const ITEMS: QuestionnaireItem[] = [
+  { id: 'q1', text: 'Talkative', scale: 'extraversion', facet: 'sociability' },
+  { id: 'q2', text: 'Reserved', scale: 'extraversion', facet: 'sociability', reverse: true },
+  { id: 'q3', text: 'Full of energy', scale: 'extraversion', facet: 'energy' },
+  { id: 'q4', text: 'Worries a lot', scale: 'neuroticism' }
+];
+
+describe('scoreItems', () => {
+  it('flips reverse-keyed items and rescales the mean to 0-100', () => {
+    expect(scoreItems(ITEMS.slice(0, 2), { q1: 5, q2: 1 })).toEqual({ score: 100, answered: 2, total: 2 });
+    expect(scoreItems(ITEMS.slice(0, 2), { q1: 3, q2: 5 })).toEqual({ score: 25, answered: 2, total: 2 });
+  });
+
+  it('treats out-of-range responses as missing and needs half the items answered', () => {
+    expect(scoreItems(ITEMS.slice(0, 3), { q1: 4, q2: 0, q3: 2.5 })).toEqual({ score: null, answered: 1, total: 3 });
+    expect(scoreItems(ITEMS.slice(0, 2), { q1: 4 }).score).toBe(75);
+    expect(scoreItems([], {}).score).toBeNull();
+  });
+});
+
+describe('scoreScales', () => {
+  it('groups by scale or by facet, leaving out items without a facet', () => {
+    const responses = { q1: 5, q2: 1, q3: 1, q4: 3 };
+    expect(Object.keys(scoreScales(ITEMS, responses))).toEqual(['extraversion', 'neuroticism']);
+    expect(scoreScales(ITEMS, responses, 'facet')).toEqual({
+      sociability: { score: 100, answered: 2, total: 2 },
+      energy: { score: 0, answered: 1, total: 1 }
+    });
+  });
+});
+
+describe('resolveScores', () => {
+  it('reports unscorable scales as neutral and names them', () => {
+    expect(resolveScores(scoreScales(ITEMS, { q1: 5, q2: 1, q3: 5 }))).toEqual({
+      values: { extraversion: 100, neuroticism: 50 },
+      incomplete: ['neuroticism']
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Likert questionnaire scoring shared by the personality and emotional intelligence banks.
+ * Every item is keyed to one scale (and optionally a facet within it); reverse-keyed items are
+ * flipped before scoring, and a scale is the mean of its answered items rescaled to 0-100.
+ */
+
+export interface QuestionnaireItem {
+  id: string;
+  text: string;
+  scale: string;
+  facet?: string;
+  reverse?: boolean; // Agreeing indicates less of the scale
+}
+
+// Item id -> response on the Likert scale; skipped items are absent
+export type QuestionnaireResponses = Record<string, number>;
+
+export interface ScaleScore {
+  score: number | null; // 0-100, null when too few items were answered to score
+  answered: number;
+  total: number;
+}
+
+export const LIKERT_MIN = 1;
+export const LIKERT_MAX = 5;
+
+// A scale is prorated from the items answered as long as at least this share was answered
+export const MIN_ANSWERED_SHARE = 0.5;
+
+// Reported for a scale that could not be scored, so it reads as neither high nor low
+export const NEUTRAL_SCORE = 50;
+
+function isValidResponse(response: number | undefined): response is number {
+  return typeof response === 'number' && Number.isInteger(response) && response >= LIKERT_MIN && response <= LIKERT_MAX;
+}
+
+export function keyedResponse(item: QuestionnaireItem, response: number): number {
+  return item.reverse ? LIKERT_MIN + LIKERT_MAX - response : response;
+}
+
+/**
+ * Score a group of items as one scale. Out-of-range responses count as missing.
+ */
+export function scoreItems(items: QuestionnaireItem[], responses: QuestionnaireResponses): ScaleScore {
+  const keyed = items
+    .filter(item => isValidResponse(responses[item.id]))
+    .map(item => keyedResponse(item, responses[item.id]));
+
+  if (items.length === 0 || keyed.length / items.length < MIN_ANSWERED_SHARE) {
+    return { score: null, answered: keyed.length, total: items.length };
+  }
+
+  const mean = keyed.reduce((sum, value) => sum + value, 0) / keyed.length;
+  return {
+    score: ((mean - LIKERT_MIN) / (LIKERT_MAX - LIKERT_MIN)) * 100,
+    answered: keyed.length,
+    total: items.length
+  };
+}
+
+/**
+ * Score every scale, or every facet, that appears in an item bank
+ */
+export function scoreScales(
+  items: QuestionnaireItem[],
+  responses: QuestionnaireResponses,
+  groupBy: 'scale' | 'facet' = 'scale'
+): Record<string, ScaleScore> {
+  const groups = new Map<string, QuestionnaireItem[]>();
+  for (const item of items) {
+    const key = groupBy === 'scale' ? item.scale : item.facet;
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  return Object.fromEntries(
+    Array.from(groups, ([key, groupItems]) => [key, scoreItems(groupItems, responses)])
+  );
+}
+
+/**
+ * Scores with unscorable scales reported as neutral, and the names of those scales
+ */
+export function resolveScores(scores: Record<string, ScaleScore>): {
+  values: Record<string, number>;
+  incomplete: string[];
+} {
+  const values: Record<string, number> = {};
+  const incomplete: string[] = [];
+
+  for (const [key, { score }] of Object.entries(scores)) {
+    values[key] = score ?? NEUTRAL_SCORE;
+    if (score === null) incomplete.push(key);
+  }
+
+  return { values, incomplete };
+}
@@ -0,0 +1,118 @@
+import { StandardizedAssessments, TowerOfLondonTrial } from '../nprTypes';
+
+/**
+ * Tower of London (Shallice, 1982): three balls on three pegs holding 3, 2 and 1 balls.
+ * Every problem starts from the same position and asks for a goal position in as few moves
+ * as possible; only the top ball of a peg can move.
+ */
+
+export type TowerBall = 'red' | 'green' | 'blue';
+
+// Pegs listed left to right, balls bottom to top
+export type TowerState = TowerBall[][];
+
+export interface TowerOfLondonProblem {
+  id: string;
+  goal: TowerState;
+  minimum_moves: number;
+}
+
+export const PEG_CAPACITIES = [3, 2, 1];
+
+export const START_STATE: TowerState = [['red', 'green'], ['blue'], []];
+
+// A problem ends unsolved after this many moves or this long, whichever comes first
+export const MAX_MOVES_PER_PROBLEM = 20;
+export const PROBLEM_TIME_LIMIT_MS = 60000;
+
+function stateKey(state: TowerState): string {
+  return state.map(peg => peg.join(',')).join('|');
+}
+
+export function statesEqual(a: TowerState, b: TowerState): boolean {
+  return stateKey(a) === stateKey(b);
+}
+
+export function canMove(state: TowerState, from: number, to: number): boolean {
+  return from !== to && state[from].length > 0 && state[to].length < PEG_CAPACITIES[to];
+}
+
+export function applyMove(state: TowerState, from: number, to: number): TowerState {
+  if (!canMove(state, from, to)) {
+    return state;
+  }
+
+  const next = state.map(peg => [...peg]);
+  next[to].push(next[from].pop()!);
+  return next;
+}
+
+/**
+ * Fewest moves from start to goal, found by breadth-first search over the 36 reachable positions
+ */
+export function minimumMoves(start: TowerState, goal: TowerState): number {
+  const goalKey = stateKey(goal);
+  const distances = new Map([[stateKey(start), 0]]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const state = queue.shift()!;
+    const distance = distances.get(stateKey(state))!;
+    if (stateKey(state) === goalKey) {
+      return distance;
+    }
+
+    for (let from = 0; from < state.length; from++) {
+      for (let to = 0; to < state.length; to++) {
+        if (!canMove(state, from, to)) continue;
+
+        const next = applyMove(state, from, to);
+        if (!distances.has(stateKey(next))) {
+          distances.set(stateKey(next), distance + 1);
+          queue.push(next);
+        }
+      }
+    }
+  }
+
+  throw new Error(`Goal ${goalKey} is not reachable`);
+}
+
+// Shallice's graded set: two 2-move, two 3-move, four 4-move and four 5-move problems
+const PROBLEM_GOALS: TowerState[] = [
+  [['red'], ['green'], ['blue']],
+  [['red', 'blue'], [], ['green']],
+  [['red', 'blue'], ['green'], []],
+  [['green'], ['blue', 'red'], []],
+  [['green', 'blue'], [], ['red']],
+  [['green', 'red'], ['blue'], []],
+  [['blue'], ['green', 'red'], []],
+  [[], ['green', 'blue'], ['red']],
+  [['green', 'blue', 'red'], [], []],
+  [['green', 'blue'], ['red'], []],
+  [['blue', 'red'], ['green'], []],
+  [['blue'], ['green'], ['red']]
+];
+
+export const TOWER_OF_LONDON_PROBLEMS: TowerOfLondonProblem[] = PROBLEM_GOALS.map((goal, index) => ({
+  id: `tol-${index + 1}`,
+  goal,
+  minimum_moves: minimumMoves(START_STATE, goal)
+}));
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+export function scoreTowerOfLondon(trials: TowerOfLondonTrial[]): StandardizedAssessments['tower_of_london'] {
+  const perfectSolutions = trials.filter(trial => trial.solved && trial.moves === trial.minimum_moves);
+
+  return {
+    planning_accuracy: trials.length > 0 ? perfectSolutions.length / trials.length : 0,
+    execution_time: trials.map(trial => trial.execution_time),
+    moves_efficiency: mean(trials.map(trial => (trial.solved ? trial.minimum_moves / trial.moves : 0))),
+    planning_time: trials.map(trial => trial.planning_time),
+    trials,
+    timestamp: new Date()
+  };
+}
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+// The edge function imports packages Deno-style (`npm:fflate@0.8.2`); tests resolve those
+// specifiers to the same packages installed as devDependencies
+export default defineConfig({
+  resolve: {
+    alias: [{ find: /^npm:((?:@[^/@]+\/)?[^/@]+)@[^/]+/, replacement: '$1' }]
+  },
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**']
+  }
+});